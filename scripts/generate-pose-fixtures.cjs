@@ -0,0 +1,326 @@
+// Synthetic Pose Fixtures
+// Writes the scripted recordings in fixtures/poses: one per exercise mode
+// (reps, hold and rotation), driven through the same recorder the tracker
+// uses. Noise comes from a seeded generator, so the output is identical on
+// every run and a changed fixture shows up as a diff.
+//
+// Run with: node scripts/generate-pose-fixtures.cjs
+
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+// Compile the app's TypeScript modules on the fly
+require.extensions[".ts"] = (module, filename) => {
+  const source = fs.readFileSync(filename, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const root = path.join(__dirname, "..");
+const { PoseStreamRecorder, serializeRecording } = require(
+  path.join(root, "src/lib/pose-recording.ts")
+);
+const { POSE_LANDMARKS: L } = require(
+  path.join(root, "src/lib/pose-landmarks.ts")
+);
+
+const OUTPUT_DIR = path.join(root, "fixtures/poses");
+const RECORDED_AT = Date.parse("2026-10-01T09:00:00Z");
+
+// Seeded uniform noise in [0, 1) (mulberry32)
+let seed = 12345;
+function random() {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Every landmark hidden until placed
+const blankPose = () =>
+  Array.from({ length: 33 }, () => ({ x: 0.5, y: 0.5, z: 0, visibility: 0.1 }));
+
+// Shake the visible landmarks by up to ±amount/2
+const jitter = (landmarks, amount) =>
+  landmarks.map((p) =>
+    p.visibility > 0.5
+      ? {
+          ...p,
+          x: p.x + (random() - 0.5) * amount,
+          y: p.y + (random() - 0.5) * amount,
+        }
+      : p
+  );
+
+// Side-on poses show the left side; the right side is placed at the same
+// spot with low visibility, as MediaPipe reports hidden limbs
+function sideOn(landmarks, placements) {
+  for (const [left, right, point] of placements) {
+    landmarks[left] = { x: point.x, y: point.y, z: -0.05, visibility: 0.95 };
+    if (right !== null) {
+      landmarks[right] = { x: point.x, y: point.y, z: -0.05, visibility: 0.3 };
+    }
+  }
+  return landmarks;
+}
+
+// Side-on sit-ups: 1.5s at rest, then 8 reps of a 2.4s cycle and 0.6s rest.
+// Hips and feet come off the floor together near the top of rep 6, so two
+// form faults start on one frame just before a count.
+function situp(t) {
+  const cycle = 2400;
+  const rest = 600;
+  const rep = Math.floor((t - 1500) / (cycle + rest));
+  const phase = (t - 1500) % (cycle + rest);
+  const moving = t >= 1500 && phase <= cycle && rep < 8;
+  const u = moving ? 0.5 - 0.5 * Math.cos((2 * Math.PI * phase) / cycle) : 0;
+  // Hip angle closes from 120 to 45 degrees at the top
+  const theta = 120 - 75 * u;
+
+  const lift = t >= 17400 && t < 18200 ? 0.05 : 0;
+  const hip = { x: 0.45, y: 0.72 - lift };
+  const knee = { x: 0.62, y: 0.56 };
+  const a =
+    Math.atan2(knee.y - hip.y, knee.x - hip.x) - (theta * Math.PI) / 180;
+  const along = (length) => ({
+    x: hip.x + length * Math.cos(a),
+    y: hip.y + length * Math.sin(a),
+  });
+  const shoulder = along(0.24);
+
+  return jitter(
+    sideOn(blankPose(), [
+      [L.NOSE, null, along(0.33)],
+      [L.LEFT_EAR, null, along(0.32)],
+      [L.LEFT_SHOULDER, L.RIGHT_SHOULDER, shoulder],
+      [
+        L.LEFT_ELBOW,
+        L.RIGHT_ELBOW,
+        { x: shoulder.x + 0.05, y: shoulder.y + 0.08 },
+      ],
+      [
+        L.LEFT_WRIST,
+        L.RIGHT_WRIST,
+        { x: shoulder.x + 0.12, y: shoulder.y + 0.06 },
+      ],
+      [L.LEFT_HIP, L.RIGHT_HIP, hip],
+      [L.LEFT_KNEE, L.RIGHT_KNEE, knee],
+      [L.LEFT_ANKLE, L.RIGHT_ANKLE, { x: 0.78, y: 0.72 - lift }],
+    ]),
+    0.004
+  );
+}
+
+// Side-on plank: aligned from the first frame, a 3s hip sag from 12s,
+// aligned again, then standing up at 23s
+function plank(t) {
+  let shoulder = { x: 0.25, y: 0.55 };
+  let hip = { x: 0.5, y: 0.58 };
+  let ankle = { x: 0.8, y: 0.62 };
+  if (t >= 12000 && t < 15000) {
+    hip = { x: 0.5, y: 0.66 };
+  } else if (t >= 23000) {
+    shoulder = { x: 0.3, y: 0.3 };
+    hip = { x: 0.42, y: 0.5 };
+    ankle = { x: 0.5, y: 0.8 };
+  }
+  const knee = { x: (hip.x + ankle.x) / 2, y: (hip.y + ankle.y) / 2 };
+
+  return jitter(
+    sideOn(blankPose(), [
+      [L.NOSE, null, { x: shoulder.x - 0.08, y: shoulder.y - 0.02 }],
+      [L.LEFT_EAR, null, { x: shoulder.x - 0.06, y: shoulder.y - 0.03 }],
+      [L.LEFT_SHOULDER, L.RIGHT_SHOULDER, shoulder],
+      [L.LEFT_ELBOW, L.RIGHT_ELBOW, { x: shoulder.x, y: shoulder.y + 0.12 }],
+      [L.LEFT_HIP, L.RIGHT_HIP, hip],
+      [L.LEFT_KNEE, L.RIGHT_KNEE, knee],
+      [L.LEFT_ANKLE, L.RIGHT_ANKLE, ankle],
+    ]),
+    0.003
+  );
+}
+
+// Front-on Russian twists: from 1.5s the shoulder line yaws 50 degrees
+// either way over five 2s cycles
+function russianTwist(t) {
+  const period = 2000;
+  const active = t >= 1500 && t < 1500 + 5 * period;
+  const yaw = active
+    ? ((50 * Math.PI) / 180) * Math.sin((2 * Math.PI * (t - 1500)) / period)
+    : 0;
+  const landmarks = blankPose();
+  const put = (index, x, y, z) => {
+    landmarks[index] = { x, y, z, visibility: 0.95 };
+  };
+  const c = 0.5;
+
+  // The athlete's left appears on the image right
+  put(L.NOSE, c + 0.03 * Math.sin(yaw), 0.33, -0.3);
+  put(
+    L.LEFT_SHOULDER,
+    c + 0.1 * Math.cos(yaw),
+    0.45,
+    -0.2 - 0.1 * Math.sin(yaw)
+  );
+  put(
+    L.RIGHT_SHOULDER,
+    c - 0.1 * Math.cos(yaw),
+    0.45,
+    -0.2 + 0.1 * Math.sin(yaw)
+  );
+  put(
+    L.LEFT_ELBOW,
+    c + 0.14 * Math.cos(yaw),
+    0.55,
+    -0.25 - 0.14 * Math.sin(yaw)
+  );
+  put(
+    L.RIGHT_ELBOW,
+    c - 0.14 * Math.cos(yaw),
+    0.55,
+    -0.25 + 0.14 * Math.sin(yaw)
+  );
+  put(L.LEFT_HIP, c + 0.08, 0.7, 0);
+  put(L.RIGHT_HIP, c - 0.08, 0.7, 0);
+  put(L.LEFT_KNEE, c + 0.1, 0.62, -0.3);
+  put(L.RIGHT_KNEE, c - 0.1, 0.62, -0.3);
+  put(L.LEFT_ANKLE, c + 0.12, 0.8, -0.2);
+  put(L.RIGHT_ANKLE, c - 0.12, 0.8, -0.2);
+  return jitter(landmarks, 0.003);
+}
+
+// Record `seconds` of a scripted pose; every `dropEvery`th frame has no pose
+function writeFixture(
+  name,
+  exerciseId,
+  { seconds, fps, dropEvery = 0, poseAt, expected }
+) {
+  const recorder = new PoseStreamRecorder(exerciseId);
+  const step = 1000 / fps;
+  for (let i = 0; i * step <= seconds * 1000; i++) {
+    const t = Math.round(i * step);
+    const dropped = dropEvery > 0 && i % dropEvery === dropEvery - 1;
+    recorder.addFrame(dropped ? undefined : poseAt(t), RECORDED_AT + t);
+  }
+
+  const recording = {
+    ...recorder.finish(),
+    recordedAt: RECORDED_AT,
+    aspectRatio: 4 / 3,
+    expected,
+  };
+  fs.writeFileSync(path.join(OUTPUT_DIR, name), serializeRecording(recording));
+  console.log(`✍️  ${name}`);
+}
+
+writeFixture("situp-side-synthetic-8-reps.json", "situp", {
+  seconds: 27,
+  fps: 20,
+  dropEvery: 40,
+  poseAt: situp,
+  expected: {
+    count: 8,
+    // Minimal verbosity counts every 5 and skips faults; the two faults are
+    // spoken ahead of rep 6, which expires in the queue
+    cues: {
+      minimal: ["14.6s 5"],
+      normal: [
+        "2.5s 1",
+        "5.6s 2",
+        "8.6s 3",
+        "11.6s 4",
+        "14.6s 5",
+        "17.5s Keep your hips down",
+        "19.1s Keep your feet down",
+        "20.6s 7",
+        "23.6s 8",
+      ],
+      detailed: [
+        "2.5s 1",
+        "5.6s 2",
+        "8.6s 3",
+        "11.6s 4",
+        "14.6s 5",
+        "17.5s Keep your hips down",
+        "19.1s Keep your feet down",
+        "20.6s 7",
+        "23.6s 8",
+      ],
+    },
+    notes:
+      "Synthetic side-on sit-ups, 20 fps with light jitter and every 40th frame dropped; hips and feet lift during rep 6",
+  },
+});
+
+writeFixture("plank-side-synthetic-20s.json", "plank", {
+  seconds: 25,
+  fps: 15,
+  poseAt: plank,
+  expected: {
+    count: 20,
+    tolerance: 1,
+    // Standing up in one frame looks like a hop to another skeleton
+    cues: {
+      minimal: [
+        "10.0s 10 seconds",
+        "23.0s Tracking jumped to someone else. Step back into your spot and keep others out of frame",
+      ],
+      normal: [
+        "10.0s 10 seconds",
+        "12.0s Lift your hips",
+        "23.0s Tracking jumped to someone else. Step back into your spot and keep others out of frame",
+      ],
+      detailed: [
+        "10.0s 10 seconds",
+        "12.0s Lift your hips",
+        "23.0s Tracking jumped to someone else. Step back into your spot and keep others out of frame",
+      ],
+    },
+    notes: "Synthetic side-on plank: 12s aligned, 3s hip sag, 8s aligned",
+  },
+});
+
+writeFixture("russian-twist-front-synthetic-10-reps.json", "russian-twist", {
+  seconds: 13,
+  fps: 20,
+  poseAt: russianTwist,
+  expected: {
+    count: 10,
+    cues: {
+      minimal: ["5.8s 5", "10.8s 10"],
+      normal: [
+        "1.9s 1",
+        "2.9s 2",
+        "3.9s 3",
+        "4.8s 4",
+        "5.8s 5",
+        "6.8s 6",
+        "7.8s 7",
+        "8.8s 8",
+        "9.8s 9",
+        "10.8s 10",
+      ],
+      detailed: [
+        "1.9s 1",
+        "2.9s 2",
+        "3.9s 3",
+        "4.8s 4",
+        "5.8s 5",
+        "6.8s 6",
+        "7.8s 7",
+        "8.8s 8",
+        "9.8s 9",
+        "10.8s 10",
+      ],
+    },
+    notes: "Synthetic front-on Russian twists, 50 degrees each way",
+  },
+});
@@ -0,0 +1,98 @@
+// Pose Stream Replay
+// Replays recorded pose streams through the rep counting logic in Node,
+// without MediaPipe or a browser, and checks them against expected counts
+// and, where a fixture labels them, the audio coach's spoken cues.
+//
+// Run with: node scripts/replay-poses.cjs [file-or-directory ...]
+// Defaults to the fixture library in fixtures/poses.
+
+const fs = require("fs");
+const path = require("path");
+const ts = require("typescript");
+
+// Compile the app's TypeScript modules on the fly
+require.extensions[".ts"] = (module, filename) => {
+  const source = fs.readFileSync(filename, "utf8");
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const root = path.join(__dirname, "..");
+const { parseRecording } = require(
+  path.join(root, "src/lib/pose-recording.ts")
+);
+const { replayRecording, checkFixture } = require(
+  path.join(root, "src/lib/pose-replay.ts")
+);
+
+function collectFiles(target) {
+  if (!fs.existsSync(target)) return [];
+  if (fs.statSync(target).isFile()) return [target];
+
+  return fs
+    .readdirSync(target)
+    .sort()
+    .flatMap((entry) => collectFiles(path.join(target, entry)))
+    .filter((file) => file.endsWith(".json"));
+}
+
+const targets = process.argv.slice(2);
+const files = (
+  targets.length > 0 ? targets : [path.join(root, "fixtures/poses")]
+).flatMap((target) => collectFiles(path.resolve(target)));
+
+if (files.length === 0) {
+  console.log("No pose recordings found.");
+  process.exit(0);
+}
+
+console.log("🎞️  Pose Stream Replay");
+console.log("======================\n");
+
+let failures = 0;
+
+for (const file of files) {
+  const name = path.relative(root, file);
+
+  try {
+    const recording = parseRecording(fs.readFileSync(file, "utf8"));
+    const result = replayRecording(recording);
+    const check = checkFixture(recording, result);
+    const seconds = (result.duration / 1000).toFixed(1);
+    const summary = `${recording.exerciseId}: ${result.state.counter} reps, ${result.state.formAccuracy}% form, ${result.posesProcessed}/${result.frames} frames over ${seconds}s`;
+
+    if (!check) {
+      console.log(`➖ ${name}\n   ${summary} (no expected count)`);
+    } else if (check.passed) {
+      console.log(`✅ ${name}\n   ${summary}`);
+    } else {
+      failures += 1;
+      console.log(`❌ ${name}\n   ${summary}`);
+      if (Math.abs(check.actual - check.expected) > check.tolerance) {
+        console.log(
+          `   expected ${check.expected} ± ${check.tolerance}, got ${check.actual}`
+        );
+      }
+      for (const verbosity of check.cueMismatches) {
+        console.log(
+          `   ${verbosity} cues differ\n     expected ${JSON.stringify(
+            recording.expected.cues[verbosity]
+          )}\n     got      ${JSON.stringify(result.cues[verbosity])}`
+        );
+      }
+    }
+  } catch (error) {
+    failures += 1;
+    console.log(`❌ ${name}\n   ${error.message}`);
+  }
+}
+
+console.log(`\n${files.length - failures}/${files.length} recordings passed`);
+process.exit(failures > 0 ? 1 : 0);
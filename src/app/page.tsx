@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import ImprovedWorkoutTracker from "../components/ImprovedWorkoutTracker";
 import Leaderboard from "../components/Leaderboard";
+import WorkoutHistory from "../components/WorkoutHistory";
+import ProgressAnalytics from "../components/ProgressAnalytics";
 import EcosystemNav from "../components/EcosystemNav";
 import { WalletProvider } from "../contexts/WalletContext";
 import { ContractProvider } from "../contexts/ContractContext";
@@ -11,7 +13,7 @@ import WalletConnectButton, {
 } from "../components/WalletConnectButton";
 import NetworkSwitcher from "../components/NetworkSwitcher";
 
-type ActiveTab = "workout" | "leaderboard";
+type ActiveTab = "workout" | "history" | "progress" | "leaderboard";
 
 function HomeContent() {
   const [activeTab, setActiveTab] = useState<ActiveTab>("workout");
@@ -106,6 +108,38 @@ function HomeContent() {
               </div>
             </button>
 
+            <button
+              onClick={() => setActiveTab("history")}
+              className={`abs-btn-nav flex-1 ${
+                activeTab === "history" ? "active" : ""
+              }`}
+            >
+              <div className="flex items-center justify-center space-x-1 md:space-x-2">
+                <div
+                  className={`${
+                    isMobile ? "h-4 w-4" : "h-6 w-6"
+                  } bg-blue-600 border-2 border-black rounded-full`}
+                ></div>
+                <span className={isMobile ? "text-sm" : ""}>HISTORY</span>
+              </div>
+            </button>
+
+            <button
+              onClick={() => setActiveTab("progress")}
+              className={`abs-btn-nav flex-1 ${
+                activeTab === "progress" ? "active" : ""
+              }`}
+            >
+              <div className="flex items-center justify-center space-x-1 md:space-x-2">
+                <div
+                  className={`${
+                    isMobile ? "h-4 w-4" : "h-6 w-6"
+                  } bg-green-600 border-2 border-black`}
+                ></div>
+                <span className={isMobile ? "text-sm" : ""}>PROGRESS</span>
+              </div>
+            </button>
+
             <button
               onClick={() => setActiveTab("leaderboard")}
               className={`abs-btn-nav flex-1 ${
@@ -129,6 +163,18 @@ function HomeContent() {
       <main className={isMobile ? "py-4" : "py-8"}>
         {activeTab === "workout" && <ImprovedWorkoutTracker />}
 
+        {activeTab === "history" && (
+          <div className="px-4">
+            <WorkoutHistory />
+          </div>
+        )}
+
+        {activeTab === "progress" && (
+          <div className="px-4">
+            <ProgressAnalytics />
+          </div>
+        )}
+
         {activeTab === "leaderboard" && (
           <div className="px-4">
             <Leaderboard currentUserStats={currentSessionStats} />
@@ -0,0 +1,117 @@
+"use client";
+
+import React from "react";
+import type { ExerciseDefinition } from "../lib/exercises";
+import { CALIBRATION_REPS } from "../lib/calibration";
+import type {
+  CalibrationActions,
+  CalibrationState,
+} from "../hooks/useCalibration";
+
+interface CalibrationPanelProps {
+  exercise: ExerciseDefinition;
+  calibration: CalibrationState;
+  actions: CalibrationActions;
+  disabled?: boolean;
+}
+
+export default function CalibrationPanel({
+  exercise,
+  calibration,
+  actions,
+  disabled = false,
+}: CalibrationPanelProps) {
+  // Only angle-threshold exercises can be calibrated
+  if (exercise.mode !== "reps") return null;
+
+  const { profile, isCalibrating, progress, error } = calibration;
+
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        🎚️ Calibration
+      </h3>
+
+      {isCalibrating && progress ? (
+        <div className="space-y-3 text-sm text-black">
+          <p className="font-bold text-center">
+            Do {CALIBRATION_REPS} slow, full {exercise.name.toLowerCase()}s
+          </p>
+          <div className="flex justify-between font-mono">
+            <span>Reps:</span>
+            <span className="font-black">
+              {progress.reps}/{CALIBRATION_REPS}
+            </span>
+          </div>
+          <div className="flex justify-between font-mono">
+            <span>Range:</span>
+            <span className="font-black">
+              {`${Math.round(progress.minAngle)}° – ${Math.round(progress.maxAngle)}°`}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={actions.finish}
+              className="abs-btn-primary bg-green-600 text-white py-2 text-sm"
+            >
+              FINISH
+            </button>
+            <button
+              onClick={actions.cancel}
+              className="abs-btn-primary bg-gray-600 text-white py-2 text-sm"
+            >
+              CANCEL
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3 text-sm text-black">
+          {profile ? (
+            <div className="font-mono space-y-1">
+              <div className="flex justify-between">
+                <span>Up below:</span>
+                <span className="font-black">{profile.thresholds.up}°</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Down above:</span>
+                <span className="font-black">{profile.thresholds.down}°</span>
+              </div>
+              <div className="text-xs text-gray-600">
+                Calibrated {new Date(profile.createdAt).toLocaleDateString()}
+              </div>
+            </div>
+          ) : (
+            <p className="font-bold text-gray-700 text-center">
+              Optional: tune rep detection to your range of motion and camera
+              angle
+            </p>
+          )}
+          <div className={profile ? "grid grid-cols-2 gap-2" : ""}>
+            <button
+              onClick={actions.start}
+              disabled={disabled}
+              className="w-full abs-btn-primary bg-purple-600 text-white py-2 text-sm disabled:opacity-50"
+            >
+              {profile ? "RECALIBRATE" : "CALIBRATE"}
+            </button>
+            {profile && (
+              <button
+                onClick={actions.clear}
+                disabled={disabled}
+                className="abs-btn-primary bg-gray-600 text-white py-2 text-sm disabled:opacity-50"
+              >
+                RESET
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm font-bold text-red-600 text-center">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  CAMERA_RESOLUTIONS,
+  listCameras,
+  type CameraDevice,
+  type CameraFacing,
+  type CameraResolutionId,
+  type CameraSettings,
+} from "../lib/camera-devices";
+
+interface CameraSettingsPanelProps {
+  settings: CameraSettings;
+  onChange: (settings: CameraSettings) => void;
+  disabled?: boolean;
+}
+
+const FACING_ICONS: Record<CameraFacing, string> = {
+  front: "🤳",
+  rear: "📱",
+  external: "🎥",
+  unknown: "📷",
+};
+
+export default function CameraSettingsPanel({
+  settings,
+  onChange,
+  disabled = false,
+}: CameraSettingsPanelProps) {
+  const [devices, setDevices] = useState<CameraDevice[]>([]);
+
+  const refreshDevices = useCallback(() => {
+    listCameras()
+      .then(setDevices)
+      .catch((error) => console.warn("Could not list cameras:", error));
+  }, []);
+
+  // Devices come and go (and gain labels once permission is granted)
+  useEffect(() => {
+    refreshDevices();
+    const mediaDevices = navigator.mediaDevices;
+    mediaDevices?.addEventListener("devicechange", refreshDevices);
+    return () =>
+      mediaDevices?.removeEventListener("devicechange", refreshDevices);
+  }, [refreshDevices]);
+
+  const selectDevice = (deviceId: string) => {
+    const device = devices.find((d) => d.deviceId === deviceId);
+    onChange({
+      ...settings,
+      deviceId: deviceId || null,
+      // Rear cameras already show the scene the right way round
+      mirrored: device ? device.facing !== "rear" : settings.mirrored,
+    });
+  };
+
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        📷 Camera
+      </h3>
+      <div className="space-y-3 text-sm text-black font-mono">
+        <select
+          value={settings.deviceId ?? ""}
+          onChange={(e) => selectDevice(e.target.value)}
+          onFocus={refreshDevices}
+          disabled={disabled}
+          className="w-full border-2 border-black px-1 py-1 bg-white"
+        >
+          <option value="">Default front camera</option>
+          {devices.map((device) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {FACING_ICONS[device.facing]} {device.label}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex justify-between items-center">
+          <span>Resolution:</span>
+          <select
+            value={settings.resolution}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                resolution: e.target.value as CameraResolutionId,
+              })
+            }
+            disabled={disabled}
+            className="border-2 border-black px-1 py-1 bg-white"
+          >
+            {CAMERA_RESOLUTIONS.map((resolution) => (
+              <option key={resolution.id} value={resolution.id}>
+                {resolution.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex justify-between items-center">
+          <span>Mirror view:</span>
+          <input
+            type="checkbox"
+            checked={settings.mirrored}
+            onChange={(e) =>
+              onChange({ ...settings, mirrored: e.target.checked })
+            }
+            disabled={disabled}
+            className="w-5 h-5"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  COACH_VERBOSITY_LABELS,
+  type CoachVerbosity,
+} from "../lib/coaching-cues";
+import {
+  createSpeechSpeaker,
+  isSpeechSupported,
+  listVoices,
+  type CoachSettings,
+  type CoachVoice,
+} from "../lib/speech-coach";
+
+interface CoachSettingsPanelProps {
+  settings: CoachSettings;
+  onChange: (settings: CoachSettings) => void;
+  disabled?: boolean;
+}
+
+export default function CoachSettingsPanel({
+  settings,
+  onChange,
+  disabled = false,
+}: CoachSettingsPanelProps) {
+  const [voices, setVoices] = useState<CoachVoice[]>([]);
+  const [supported, setSupported] = useState(true);
+
+  // Voices load asynchronously in some browsers
+  useEffect(() => {
+    if (!isSpeechSupported()) {
+      setSupported(false);
+      return;
+    }
+    const refreshVoices = () => setVoices(listVoices());
+    refreshVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", refreshVoices);
+    return () =>
+      window.speechSynthesis.removeEventListener(
+        "voiceschanged",
+        refreshVoices,
+      );
+  }, []);
+
+  const testVoice = () => {
+    const speaker = createSpeechSpeaker(settings);
+    speaker.cancel();
+    speaker.speak("Coach ready. Let's go!", () => {});
+  };
+
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        🔊 Audio Coach
+      </h3>
+      {!supported ? (
+        <p className="text-sm font-bold text-gray-700 text-center">
+          Spoken cues are not supported in this browser
+        </p>
+      ) : (
+        <div className="space-y-3 text-sm text-black font-mono">
+          <label className="flex justify-between items-center">
+            <span>Spoken cues:</span>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) =>
+                onChange({ ...settings, enabled: e.target.checked })
+              }
+              disabled={disabled}
+              className="w-5 h-5"
+            />
+          </label>
+
+          <select
+            value={settings.voiceURI ?? ""}
+            onChange={(e) =>
+              onChange({ ...settings, voiceURI: e.target.value || null })
+            }
+            disabled={disabled || !settings.enabled}
+            className="w-full border-2 border-black px-1 py-1 bg-white"
+          >
+            <option value="">Default voice</option>
+            {voices.map((voice) => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>
+                {voice.label}
+              </option>
+            ))}
+          </select>
+
+          <label className="flex justify-between items-center gap-2">
+            <span>Volume:</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.1}
+              value={settings.volume}
+              onChange={(e) =>
+                onChange({ ...settings, volume: Number(e.target.value) })
+              }
+              disabled={disabled || !settings.enabled}
+              className="flex-1"
+            />
+          </label>
+
+          <select
+            value={settings.verbosity}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                verbosity: e.target.value as CoachVerbosity,
+              })
+            }
+            disabled={disabled || !settings.enabled}
+            className="w-full border-2 border-black px-1 py-1 bg-white"
+          >
+            {(Object.keys(COACH_VERBOSITY_LABELS) as CoachVerbosity[]).map(
+              (verbosity) => (
+                <option key={verbosity} value={verbosity}>
+                  {COACH_VERBOSITY_LABELS[verbosity]}
+                </option>
+              ),
+            )}
+          </select>
+
+          <button
+            onClick={testVoice}
+            disabled={disabled || !settings.enabled}
+            className="w-full abs-btn-primary bg-gray-800 text-white py-2 text-sm disabled:opacity-50"
+          >
+            TEST VOICE
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
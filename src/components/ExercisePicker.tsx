@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { EXERCISE_LIST, type ExerciseId } from "../lib/exercises";
+
+interface ExercisePickerProps {
+  selected: ExerciseId;
+  onSelect: (id: ExerciseId) => void;
+  disabled?: boolean;
+}
+
+export default function ExercisePicker({
+  selected,
+  onSelect,
+  disabled = false,
+}: ExercisePickerProps) {
+  const selectedExercise = EXERCISE_LIST.find((e) => e.id === selected);
+
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        🎯 Exercise
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {EXERCISE_LIST.map((exercise) => (
+          <button
+            key={exercise.id}
+            onClick={() => onSelect(exercise.id)}
+            disabled={disabled}
+            className={`p-2 border-4 border-black font-black uppercase text-sm transition-colors ${
+              exercise.id === selected
+                ? "bg-yellow-400 text-black"
+                : "bg-white text-black hover:bg-gray-100"
+            } disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {exercise.name}
+            {exercise.mode !== "reps" && (
+              <span className="block text-xs font-mono">
+                {exercise.mode === "hold" ? "hold" : "alternating"}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      {selectedExercise && (
+        <p className="text-xs font-bold text-gray-700 text-center mt-3">
+          {selectedExercise.description}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import React from "react";
+import { FATIGUE_FACTOR_LABELS, type FatigueAssessment } from "../lib/fatigue";
+
+interface FatigueCurveProps {
+  fatigue: FatigueAssessment;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+// Quality axis runs from this floor to 100
+const QUALITY_FLOOR = 40;
+
+const qualityColor = (quality: number) =>
+  quality >= 85 ? "#16a34a" : quality >= 70 ? "#eab308" : "#dc2626";
+
+// Per-rep quality relative to the opening reps, as a line with dots
+export default function FatigueCurve({ fatigue }: FatigueCurveProps) {
+  const { curve } = fatigue;
+  if (curve.length < 2) return null;
+
+  const slot = CHART_WIDTH / curve.length;
+  const toY = (quality: number) =>
+    CHART_HEIGHT -
+    ((Math.max(quality, QUALITY_FLOOR) - QUALITY_FLOOR) /
+      (100 - QUALITY_FLOOR)) *
+      (CHART_HEIGHT - 8);
+  const points = curve.map((p, i) => ({
+    x: i * slot + slot / 2,
+    y: toY(p.quality),
+    point: p,
+  }));
+
+  return (
+    <div className="mt-4 border-4 border-black p-4 text-left text-sm !text-black space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-black uppercase">😮‍💨 Fatigue Curve</h4>
+        <span className="font-mono text-xs">
+          {fatigue.drop > 0
+            ? `-${fatigue.drop}% recently${
+                fatigue.factor
+                  ? ` (${FATIGUE_FACTOR_LABELS[fatigue.factor].toLowerCase()})`
+                  : ""
+              }`
+            : "no drop"}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-32 border-4 border-black bg-gray-50"
+        preserveAspectRatio="none"
+      >
+        <polyline
+          points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke="#000"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.map(({ x, y, point }) => (
+          <circle
+            key={point.index}
+            cx={x}
+            cy={y}
+            r={3}
+            fill={qualityColor(point.quality)}
+          >
+            <title>{`Rep ${point.index}: ${point.quality}% quality (ROM ${point.rangeOfMotion}%, form ${point.form}%, speed ${point.speed}%)`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs font-mono">
+        <span>Quality vs. your first reps (100% = fresh)</span>
+        <span>Rep →</span>
+      </div>
+      {fatigue.recommendation && (
+        <p className="text-xs font-bold text-red-700">
+          {fatigue.recommendation}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React from "react";
+import type { FrameSourceKind } from "../lib/frame-sources";
+
+interface FrameSourcePickerProps {
+  kind: FrameSourceKind;
+  files: File[];
+  fps: number;
+  onKindChange: (kind: FrameSourceKind) => void;
+  onFilesChange: (files: File[]) => void;
+  onFpsChange: (fps: number) => void;
+  disabled?: boolean;
+}
+
+const SOURCE_OPTIONS: { kind: FrameSourceKind; label: string }[] = [
+  { kind: "camera", label: "📷 Camera" },
+  { kind: "video-file", label: "🎬 Video" },
+  { kind: "image-sequence", label: "🖼️ Images" },
+];
+
+export default function FrameSourcePicker({
+  kind,
+  files,
+  fps,
+  onKindChange,
+  onFilesChange,
+  onFpsChange,
+  disabled = false,
+}: FrameSourcePickerProps) {
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        🎞️ Source
+      </h3>
+      <div className="grid grid-cols-3 gap-2">
+        {SOURCE_OPTIONS.map((option) => (
+          <button
+            key={option.kind}
+            onClick={() => {
+              onKindChange(option.kind);
+              onFilesChange([]);
+            }}
+            disabled={disabled}
+            className={`p-2 border-4 border-black font-black uppercase text-xs transition-colors ${
+              option.kind === kind
+                ? "bg-yellow-400 text-black"
+                : "bg-white text-black hover:bg-gray-100"
+            } disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {kind !== "camera" && (
+        <div className="mt-3 space-y-2 text-sm text-black">
+          <input
+            type="file"
+            accept={kind === "video-file" ? "video/*" : "image/*"}
+            multiple={kind === "image-sequence"}
+            disabled={disabled}
+            onChange={(e) => onFilesChange(Array.from(e.target.files ?? []))}
+            className="w-full text-xs font-mono"
+          />
+          <div className="flex justify-between items-center font-mono">
+            <span>Frames per second:</span>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={fps}
+              disabled={disabled}
+              onChange={(e) =>
+                onFpsChange(Math.min(60, Math.max(1, Number(e.target.value))))
+              }
+              className="w-16 border-2 border-black px-1 text-right"
+            />
+          </div>
+          <p className="text-xs font-bold text-gray-700">
+            {kind === "video-file"
+              ? "The clip is sampled at this rate and analysed frame by frame."
+              : "Images are analysed in file-name order, spaced at this rate."}{" "}
+            Recorded sessions are not submitted on-chain.
+          </p>
+          {files.length > 0 && (
+            <p className="text-xs font-mono truncate">
+              {files.length === 1
+                ? files[0].name
+                : `${files.length} images selected`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  HISTORY_EXPORT_SCHEMA,
+  downloadFile,
+  exportHistoryJson,
+  exportRepsCsv,
+  exportSessionsCsv,
+  historyFileName,
+} from "../lib/history-export";
+import type { HistoryEntry } from "../lib/workout-history";
+
+interface HistoryExportProps {
+  // Local sessions matching the history filters
+  entries: HistoryEntry[];
+}
+
+// Downloads built from the browser's own history, so exporting works offline
+export default function HistoryExport({ entries }: HistoryExportProps) {
+  const [includeOnChain, setIncludeOnChain] = useState(true);
+  const options = { includeOnChain };
+  const disabled = entries.length === 0;
+
+  return (
+    <div className="border-4 border-black p-3 mt-3 bg-white text-black space-y-2">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="font-black uppercase text-sm">📤 Export</h3>
+        <label className="flex items-center gap-2 text-xs font-mono">
+          <input
+            type="checkbox"
+            checked={includeOnChain}
+            onChange={(e) => setIncludeOnChain(e.target.checked)}
+          />
+          Include wallet and tx hashes
+        </label>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <button
+          onClick={() =>
+            downloadFile(
+              historyFileName("csv", "sessions"),
+              exportSessionsCsv(entries, options),
+              "text/csv",
+            )
+          }
+          disabled={disabled}
+          className="abs-btn-primary text-xs py-1"
+        >
+          SESSIONS CSV
+        </button>
+        <button
+          onClick={() =>
+            downloadFile(
+              historyFileName("csv", "reps"),
+              exportRepsCsv(entries),
+              "text/csv",
+            )
+          }
+          disabled={disabled}
+          className="abs-btn-primary text-xs py-1"
+        >
+          REPS CSV
+        </button>
+        <button
+          onClick={() =>
+            downloadFile(
+              historyFileName("json"),
+              exportHistoryJson(entries, options),
+              "application/json",
+            )
+          }
+          disabled={disabled}
+          className="abs-btn-primary text-xs py-1"
+        >
+          JSON
+        </button>
+        <button
+          onClick={() =>
+            downloadFile(
+              "imperfectabs-history.schema.json",
+              JSON.stringify(HISTORY_EXPORT_SCHEMA, null, 2),
+              "application/schema+json",
+            )
+          }
+          className="abs-btn-primary text-xs py-1"
+        >
+          JSON SCHEMA
+        </button>
+      </div>
+      <p className="text-xs font-mono text-gray-700">
+        {entries.length} session{entries.length === 1 ? "" : "s"} from this
+        browser; each session also downloads as a FIT file for Garmin Connect.
+      </p>
+    </div>
+  );
+}
@@ -2,26 +2,124 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import Image from "next/image";
-import type { Results } from "@mediapipe/pose";
-import { AbsExerciseDetector, ExerciseState } from "../lib/pose-detection";
+import {
+  ExerciseState,
+  createInitialExerciseState,
+} from "../lib/pose-detection";
+import {
+  createPoseEngine,
+  type PoseEngine,
+  type PoseUpdate,
+} from "../lib/pose-engine";
+import {
+  DEFAULT_EXERCISE_ID,
+  getExercise,
+  type ExerciseDefinition,
+  type ExerciseId,
+} from "../lib/exercises";
 import { useWallet } from "../contexts/WalletContext";
 // import { useContract } from "../contexts/ContractContext"; // Temporarily disabled
 import WalletConnectButton from "./WalletConnectButton";
 import WorkoutTips from "./WorkoutTips";
+import {
+  STREAK_FORM_ACCURACY,
+  toSubmissionData,
+  type SessionPause,
+  type SessionStats,
+} from "../lib/workout-session";
+import { calculateRotationBalance } from "../lib/rotation";
+import {
+  applyCalibration,
+  getActiveCameraId,
+  loadCalibrationProfile,
+} from "../lib/calibration";
+import { useCalibration } from "../hooks/useCalibration";
+import { useSetupCheck } from "../hooks/useSetupCheck";
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  loadCameraSettings,
+  saveCameraSettings,
+  type CameraSettings,
+} from "../lib/camera-devices";
+import { getOrientationWarning } from "../lib/orientation";
+import { FORM_FAULT_CUES } from "../lib/form-faults";
+import { getPositioningPrompt } from "../lib/tracking-guard";
+import {
+  LIVENESS_CHALLENGE_PROMPTS,
+  LivenessMonitor,
+  type LivenessChallenge,
+} from "../lib/liveness";
+import {
+  AudioCoach,
+  DEFAULT_COACH_SETTINGS,
+  createSpeechSpeaker,
+  isSpeechSupported,
+  loadCoachSettings,
+  saveCoachSettings,
+  type CoachSettings,
+} from "../lib/speech-coach";
+import {
+  DEFAULT_TEMPO_SETTINGS,
+  TEMPO_PHASE_LABELS,
+  buildTempoReport,
+  getTempoPosition,
+  loadTempoSettings,
+  saveTempoSettings,
+  type TempoPosition,
+  type TempoSettings,
+  type TempoTarget,
+} from "../lib/tempo";
+import { Metronome } from "../lib/metronome";
+import { assessFatigue } from "../lib/fatigue";
+import {
+  createHistoryEntry,
+  isHistorySupported,
+  saveHistoryEntry,
+  toWeatherSnapshot,
+  updateHistoryEntry,
+} from "../lib/workout-history";
+import { weatherXM } from "../lib/weatherXM";
+import {
+  DEFAULT_PROGRAM_OPTIONS,
+  ProgramRunner,
+  announcePhase,
+  buildProgram,
+  formatProgramStatus,
+  loadProgramOptions,
+  programExercises,
+  saveProgramOptions,
+  type ProgramOptions,
+  type ProgramStatus,
+} from "../lib/workout-programs";
+import type { RepEvent } from "../lib/rep-analytics";
+import {
+  PoseStreamRecorder,
+  recordingFileName,
+  serializeRecording,
+  type PoseRecording,
+} from "../lib/pose-recording";
+import {
+  CameraFrameSource,
+  ImageSequenceFrameSource,
+  VideoFileFrameSource,
+  type FrameSource,
+  type FrameSourceKind,
+} from "../lib/frame-sources";
 import WorkoutSummary from "./WorkoutSummary";
+import ExercisePicker from "./ExercisePicker";
+import FrameSourcePicker from "./FrameSourcePicker";
+import CalibrationPanel from "./CalibrationPanel";
+import SetupWizard from "./SetupWizard";
+import CameraSettingsPanel from "./CameraSettingsPanel";
+import CoachSettingsPanel from "./CoachSettingsPanel";
+import TempoPanel from "./TempoPanel";
+import ProgramPanel from "./ProgramPanel";
 import WorkoutSubmission from "./WorkoutSubmission";
 import ChainlinkEnhancement from "./ChainlinkEnhancement";
 import DailyChallenges from "./DailyChallenges";
 import WeatherBonuses from "./WeatherBonuses";
 // import RewardSystem from "./RewardSystem"; // Temporarily disabled
 
-interface SessionStats {
-  totalReps: number;
-  averageFormAccuracy: number;
-  duration: number;
-  bestStreak: number;
-}
-
 interface WorkoutState {
   isActive: boolean;
   isInitializing: boolean;
@@ -29,142 +127,45 @@ interface WorkoutState {
   showSubmission: boolean;
 }
 
-// Type for MediaPipe landmark
-interface PoseLandmark {
-  x: number;
-  y: number;
-  z: number;
-  visibility?: number;
-}
-
-// Pose connections for drawing skeleton (based on MediaPipe POSE_CONNECTIONS)
-const POSE_CONNECTIONS = [
-  // Face
-  [0, 1],
-  [1, 2],
-  [2, 3],
-  [3, 7],
-  [0, 4],
-  [4, 5],
-  [5, 6],
-  [6, 8],
-  // Torso
-  [9, 10],
-  [11, 12],
-  [11, 13],
-  [13, 15],
-  [15, 17],
-  [15, 19],
-  [15, 21],
-  [12, 14],
-  [14, 16],
-  [16, 18],
-  [16, 20],
-  [16, 22],
-  [11, 23],
-  [12, 24],
-  [23, 24],
-  // Left arm
-  [11, 13],
-  [13, 15],
-  [15, 17],
-  [17, 19],
-  [19, 15],
-  [15, 21],
-  // Right arm
-  [12, 14],
-  [14, 16],
-  [16, 18],
-  [18, 20],
-  [20, 16],
-  [16, 22],
-  // Left leg
-  [23, 25],
-  [25, 27],
-  [27, 29],
-  [29, 31],
-  [27, 31],
-  // Right leg
-  [24, 26],
-  [26, 28],
-  [28, 30],
-  [30, 32],
-  [28, 32],
-];
-
-// Draw pose connections
-const drawPoseConnections = (
-  ctx: CanvasRenderingContext2D,
-  landmarks: PoseLandmark[],
-  connections: number[][],
-  width: number,
-  height: number
-) => {
-  ctx.strokeStyle = "#00FF00"; // Green connections
-  ctx.lineWidth = 2;
-
-  connections.forEach(([startIdx, endIdx]) => {
-    const startLandmark = landmarks[startIdx];
-    const endLandmark = landmarks[endIdx];
-
-    if (
-      startLandmark &&
-      endLandmark &&
-      (startLandmark.visibility || 0) > 0.5 &&
-      (endLandmark.visibility || 0) > 0.5
-    ) {
-      const startX = startLandmark.x * width;
-      const startY = startLandmark.y * height;
-      const endX = endLandmark.x * width;
-      const endY = endLandmark.y * height;
-
-      ctx.beginPath();
-      ctx.moveTo(startX, startY);
-      ctx.lineTo(endX, endY);
-      ctx.stroke();
-    }
-  });
-};
-
-// Draw pose landmarks
-const drawPoseLandmarks = (
-  ctx: CanvasRenderingContext2D,
-  landmarks: PoseLandmark[],
-  width: number,
-  height: number
-) => {
-  ctx.fillStyle = "#FF0000"; // Red landmarks
-
-  landmarks.forEach((landmark) => {
-    if ((landmark.visibility || 0) > 0.5) {
-      const x = landmark.x * width;
-      const y = landmark.y * height;
-      ctx.beginPath();
-      ctx.arc(x, y, 4, 0, 2 * Math.PI);
-      ctx.fill();
-    }
-  });
-};
+// How often live stats are pushed to React while frames are processed
+const UI_TICK_MS = 100;
 
 export default function ImprovedWorkoutTracker() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const detectorRef = useRef<AbsExerciseDetector | null>(null);
+  // Hidden player for uploaded clips
+  const fileVideoRef = useRef<HTMLVideoElement>(null);
+  const engineRef = useRef<PoseEngine | null>(null);
+  // A canvas handed to the pose worker cannot be reused, so each session
+  // mounts a fresh one
+  const [canvasKey, setCanvasKey] = useState(0);
   const sessionStartTime = useRef<number | null>(null);
   const poseDataRef = useRef<unknown[]>([]);
+  const poseRecorderRef = useRef<PoseStreamRecorder | null>(null);
+  const [poseRecording, setPoseRecording] = useState<PoseRecording | null>(
+    null
+  );
 
-  // Exercise state
-  const [exerciseState, setExerciseState] = useState<ExerciseState>({
-    counter: 0,
-    status: "down",
-    angle: 0,
-    formAccuracy: 100,
-  });
-  // Add a ref to always have the latest exerciseState
+  // Frame source: live camera or recorded footage
+  const [sourceKind, setSourceKind] = useState<FrameSourceKind>("camera");
+  const [sourceFiles, setSourceFiles] = useState<File[]>([]);
+  const [sourceFps, setSourceFps] = useState(15);
+  const [analysisProgress, setAnalysisProgress] = useState(0);
+  // First and last frame timestamps, used as the duration of recorded footage
+  const frameSpanRef = useRef<{ first: number; last: number } | null>(null);
+
+  // Exercise selection and state
+  const [exerciseId, setExerciseId] = useState<ExerciseId>(DEFAULT_EXERCISE_ID);
+  // Exercise of the current program phase (circuits switch mid-session)
+  const [programExerciseId, setProgramExerciseId] = useState<ExerciseId | null>(
+    null
+  );
+  const exercise = getExercise(programExerciseId ?? exerciseId);
+  const [exerciseState, setExerciseState] = useState<ExerciseState>(
+    createInitialExerciseState()
+  );
+  // Latest state from the pose engine; copied into React on each UI tick
   const exerciseStateRef = useRef(exerciseState);
-  useEffect(() => {
-    exerciseStateRef.current = exerciseState;
-  }, [exerciseState]);
 
   // Session tracking
   const [sessionStats, setSessionStats] = useState<SessionStats>({
@@ -172,6 +173,8 @@ export default function ImprovedWorkoutTracker() {
     averageFormAccuracy: 100,
     duration: 0,
     bestStreak: 0,
+    exerciseId: DEFAULT_EXERCISE_ID,
+    holdTime: 0,
   });
 
   const [currentStreak, setCurrentStreak] = useState(0);
@@ -191,8 +194,19 @@ export default function ImprovedWorkoutTracker() {
   }, [workoutState]);
 
   const [countdown, setCountdown] = useState(120);
+  // Read by the audio coach on each UI tick
+  const countdownRef = useRef(countdown);
+  useEffect(() => {
+    countdownRef.current = countdown;
+  }, [countdown]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
+  // A paused session keeps the camera and model running but stops counting
+  // and every timer; pauses are kept (as timestamps) for the summary
+  const pausedAtRef = useRef<number | null>(null);
+  const pausesRef = useRef<{ start: number; end: number }[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
+
   const [enhancedFormScore, setEnhancedFormScore] = useState<number | null>(
     null
   );
@@ -206,6 +220,110 @@ export default function ImprovedWorkoutTracker() {
     useWallet();
   // const { contractInstance } = useContract(); // Temporarily disabled
 
+  // Camera device, resolution and mirroring (remembered per browser)
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(
+    DEFAULT_CAMERA_SETTINGS
+  );
+  useEffect(() => {
+    setCameraSettings(loadCameraSettings());
+  }, []);
+  const updateCameraSettings = useCallback((settings: CameraSettings) => {
+    setCameraSettings(settings);
+    saveCameraSettings(settings);
+  }, []);
+
+  // Spoken cues for live sessions (remembered per browser)
+  const coachRef = useRef<AudioCoach | null>(null);
+  const [coachSettings, setCoachSettings] = useState<CoachSettings>(
+    DEFAULT_COACH_SETTINGS
+  );
+  useEffect(() => {
+    setCoachSettings(loadCoachSettings());
+  }, []);
+  const updateCoachSettings = useCallback((settings: CoachSettings) => {
+    setCoachSettings(settings);
+    saveCoachSettings(settings);
+  }, []);
+
+  // Target tempo with metronome ticks and phase prompts (rep exercises)
+  const [tempoSettings, setTempoSettings] = useState<TempoSettings>(
+    DEFAULT_TEMPO_SETTINGS
+  );
+  useEffect(() => {
+    setTempoSettings(loadTempoSettings());
+  }, []);
+  const updateTempoSettings = useCallback((settings: TempoSettings) => {
+    setTempoSettings(settings);
+    saveTempoSettings(settings);
+  }, []);
+  // Target and start time of the running session's tempo, if any
+  const tempoRef = useRef<{ target: TempoTarget; startedAt: number } | null>(
+    null
+  );
+  const metronomeRef = useRef<Metronome | null>(null);
+  const [tempoPosition, setTempoPosition] = useState<TempoPosition | null>(
+    null
+  );
+
+  // Sets, intervals and circuits run on top of the detector (live camera
+  // only); the free format keeps the single timed session
+  const [programOptions, setProgramOptions] = useState<ProgramOptions>(
+    DEFAULT_PROGRAM_OPTIONS
+  );
+  useEffect(() => {
+    setProgramOptions(loadProgramOptions());
+  }, []);
+  const updateProgramOptions = useCallback((options: ProgramOptions) => {
+    setProgramOptions(options);
+    saveProgramOptions(options);
+  }, []);
+  // Runner plus each exercise's calibrated definition, applied as phases
+  // switch
+  const programRef = useRef<{
+    runner: ProgramRunner;
+    exercises: Map<ExerciseId, ExerciseDefinition>;
+    exerciseId: ExerciseId;
+    finishing: boolean;
+  } | null>(null);
+  const [programStatus, setProgramStatus] = useState<ProgramStatus | null>(
+    null
+  );
+
+  // Local history entry of the last finished session, updated with its
+  // submission result
+  const historyIdRef = useRef<string | null>(null);
+
+  // Completed reps seen so far, re-assessed for fatigue after each one
+  const repsRef = useRef<RepEvent[]>([]);
+  // Where the current exercise's reps start in repsRef (fatigue is judged
+  // per exercise)
+  const fatigueFromRef = useRef(0);
+  const fatigueWarningRef = useRef<string | null>(null);
+  const [fatigueWarning, setFatigueWarning] = useState<string | null>(null);
+
+  // Per-user calibration (stored per wallet and camera)
+  const [calibration, calibrationActions] = useCalibration(
+    videoRef,
+    exerciseId,
+    walletAddress,
+    cameraSettings
+  );
+
+  // Framing, distance, lighting and angle checks before a live session
+  const [setup, setupActions] = useSetupCheck(
+    videoRef,
+    exerciseId,
+    cameraSettings
+  );
+  const cameraBusy = calibration.isCalibrating || setup.isChecking;
+
+  // Spoof detection on the live landmark stream, with optional hand-raise
+  // prompts
+  const livenessRef = useRef<LivenessMonitor | null>(null);
+  const [livenessPrompts, setLivenessPrompts] = useState(false);
+  const [livenessChallenge, setLivenessChallenge] =
+    useState<LivenessChallenge | null>(null);
+
   // Auto-detect mobile device
   const [isMobile, setIsMobile] = useState(false);
 
@@ -219,12 +337,129 @@ export default function ImprovedWorkoutTracker() {
     return () => window.removeEventListener("resize", checkMobile);
   }, []);
 
+  // Render live stats at a fixed rate rather than once per frame
+  useEffect(() => {
+    if (!workoutState.isActive) return;
+
+    const tick = setInterval(() => {
+      setExerciseState(exerciseStateRef.current);
+      setLivenessChallenge(livenessRef.current?.getActiveChallenge() ?? null);
+      setFatigueWarning(fatigueWarningRef.current);
+      const tempo = tempoRef.current;
+      if (tempo && pausedAtRef.current === null) {
+        setTempoPosition(
+          getTempoPosition(tempo.target, Date.now() - tempo.startedAt)
+        );
+      }
+      const now = Date.now();
+      const program = programRef.current;
+      let programStatus: ProgramStatus | null = null;
+      if (program) {
+        const started = program.runner.update(now, exerciseStateRef.current);
+        if (
+          started?.kind === "work" &&
+          started.exerciseId !== program.exerciseId
+        ) {
+          const definition = program.exercises.get(started.exerciseId);
+          if (definition) {
+            engineRef.current?.setExercise(definition);
+            coachRef.current?.setExercise(definition);
+          }
+          program.exerciseId = started.exerciseId;
+          fatigueFromRef.current = repsRef.current.length;
+          fatigueWarningRef.current = null;
+          setProgramExerciseId(started.exerciseId);
+        }
+        if (started) coachRef.current?.announce(announcePhase(started), now);
+        programStatus = program.runner.getStatus(now);
+        setProgramStatus(programStatus);
+        if (programStatus.finished && !program.finishing) {
+          program.finishing = true;
+          stopWorkoutRef.current();
+        }
+      }
+      coachRef.current?.update(
+        {
+          state: exerciseStateRef.current,
+          // Programs count down each timed phase; otherwise the countdown
+          // only runs once the first rep or hold starts
+          remainingSeconds: programStatus
+            ? programStatus.remainingMs !== null
+              ? Math.ceil(programStatus.remainingMs / 1000)
+              : null
+            : timerRef.current
+              ? countdownRef.current
+              : null,
+          fatigueWarning: fatigueWarningRef.current,
+        },
+        now
+      );
+    }, UI_TICK_MS);
+    return () => clearInterval(tick);
+  }, [workoutState.isActive]);
+
   // Stop workout session
-  const stopWorkout = useCallback(() => {
-    if (detectorRef.current) {
-      detectorRef.current.stop();
-      detectorRef.current = null;
+  const stopWorkout = useCallback(async () => {
+    const engine = engineRef.current;
+    engineRef.current = null;
+    // Counts already reached the page; only the per-rep records are lost
+    // if the engine cannot produce its summary
+    const summary = engine
+      ? await engine.finish().catch((error) => {
+          console.warn("Could not read the session summary:", error);
+          return null;
+        })
+      : null;
+    engine?.stop();
+    const program = programRef.current;
+    programRef.current = null;
+    const programSummary = program?.runner.finish(Date.now()) ?? null;
+    // A session stopped while paused ends its pause now
+    if (pausedAtRef.current !== null) {
+      pausesRef.current.push({ start: pausedAtRef.current, end: Date.now() });
+      pausedAtRef.current = null;
     }
+    setIsPaused(false);
+    const pausedMs = pausesRef.current.reduce(
+      (sum, pause) => sum + pause.end - pause.start,
+      0
+    );
+    setProgramStatus(null);
+    setProgramExerciseId(null);
+    // The engine's summary only covers the program's last exercise
+    const holdSummary = programSummary ? null : (summary?.hold ?? null);
+    const repEvents = programSummary
+      ? repsRef.current.map((rep, i) => ({ ...rep, index: i + 1 }))
+      : (summary?.repEvents ?? []);
+    // Programs are filed under their first exercise
+    const statsExerciseId = program
+      ? (program.exercises.keys().next().value ?? exerciseId)
+      : exerciseId;
+    setPoseRecording(poseRecorderRef.current?.finish() ?? null);
+    poseRecorderRef.current = null;
+    const liveness = livenessRef.current?.getReport() ?? null;
+    livenessRef.current = null;
+    setLivenessChallenge(null);
+    fatigueWarningRef.current = null;
+    setFatigueWarning(null);
+    // Fatigue is not comparable across the exercises of a circuit
+    const fatigue =
+      repEvents.length > 0 && (!program || program.exercises.size === 1)
+        ? assessFatigue(repEvents)
+        : null;
+    coachRef.current?.stop();
+    coachRef.current = null;
+    metronomeRef.current?.stop();
+    metronomeRef.current = null;
+    const tempo = tempoRef.current
+      ? buildTempoReport(repEvents, tempoRef.current.target)
+      : null;
+    tempoRef.current = null;
+    setTempoPosition(null);
+
+    const exerciseState = exerciseStateRef.current;
+    setExerciseState(exerciseState);
+    setCanvasKey((key) => key + 1);
 
     if (timerRef.current) {
       clearInterval(timerRef.current);
@@ -244,9 +479,20 @@ export default function ImprovedWorkoutTracker() {
 
     // Calculate final stats
     const endTime = Date.now();
-    const duration = sessionStartTime.current
-      ? Math.round((endTime - sessionStartTime.current) / 1000)
-      : 0;
+    const isLive = sourceKind === "camera";
+    const frameSpan = frameSpanRef.current;
+    const duration = !isLive
+      ? frameSpan
+        ? Math.round((frameSpan.last - frameSpan.first) / 1000)
+        : 0
+      : sessionStartTime.current
+        ? Math.round((endTime - sessionStartTime.current - pausedMs) / 1000)
+        : 0;
+    const sessionStart = sessionStartTime.current ?? endTime;
+    const pauses: SessionPause[] = pausesRef.current.map((pause) => ({
+      start: Math.round((pause.start - sessionStart) / 1000),
+      end: Math.round((pause.end - sessionStart) / 1000),
+    }));
 
     const avgFormAccuracy =
       formHistory.length > 0
@@ -256,137 +502,369 @@ export default function ImprovedWorkoutTracker() {
         : exerciseState.formAccuracy;
 
     const finalStats: SessionStats = {
-      totalReps: exerciseState.counter,
-      averageFormAccuracy: avgFormAccuracy,
+      totalReps: programSummary?.totalReps ?? exerciseState.counter,
+      averageFormAccuracy: programSummary
+        ? programSummary.formAccuracy
+        : holdSummary
+          ? holdSummary.alignmentQuality
+          : avgFormAccuracy,
       duration,
-      bestStreak: maxStreak,
+      bestStreak: programSummary?.bestStreak ?? maxStreak,
+      exerciseId: statsExerciseId,
+      holdTime:
+        programSummary?.totalHoldTime ??
+        Math.round(
+          (holdSummary?.totalHoldTime ?? exerciseState.holdTime) / 1000
+        ),
+      ...(programSummary && { program: programSummary }),
+      ...(pauses.length > 0 && { pauses }),
+      ...(holdSummary && { hold: holdSummary }),
+      ...(repEvents.length > 0 && { repEvents }),
+      ...(!isLive && { source: sourceKind }),
+      ...(summary && { inference: summary.inference }),
+      ...(liveness && { liveness }),
+      ...(tempo && { tempo }),
+      ...(fatigue && fatigue.curve.length > 0 && { fatigue }),
+      ...(exerciseState.trackingLostTime > 0 && {
+        trackingLostTime: Math.round(exerciseState.trackingLostTime / 1000),
+      }),
+      ...(exerciseState.athleteSwitches > 0 && {
+        athleteSwitches: exerciseState.athleteSwitches,
+      }),
+      ...(getExercise(statsExerciseId).mode === "rotation" && {
+        rotation: calculateRotationBalance(
+          exerciseState.leftCount,
+          exerciseState.rightCount,
+          repEvents
+        ),
+      }),
     };
+    const hasActivity = finalStats.totalReps > 0 || finalStats.holdTime > 0;
+
+    // Keep every finished session locally, whether or not it is submitted.
+    // Weather is looked up afterwards so saving never waits on the network.
+    historyIdRef.current = null;
+    if (hasActivity && isHistorySupported()) {
+      const entry = createHistoryEntry(finalStats, walletAddress ?? null);
+      historyIdRef.current = entry.id;
+      saveHistoryEntry(entry)
+        .then(() => weatherXM.getWeatherData())
+        .then((weather) =>
+          weather
+            ? updateHistoryEntry(entry.id, {
+                weather: toWeatherSnapshot(weather),
+              })
+            : undefined
+        )
+        .catch((error) => console.warn("Could not save session:", error));
+    }
 
     setSessionStats(finalStats);
     setWorkoutState((prev) => ({
       ...prev,
       isActive: false,
-      hasCompletedWorkout: exerciseState.counter > 0,
-      showSubmission: exerciseState.counter > 0 && isWalletConnected,
+      hasCompletedWorkout: hasActivity,
+      // Recorded footage is for analysis only and never goes on-chain
+      showSubmission:
+        isLive && toSubmissionData(finalStats).reps > 0 && isWalletConnected,
     }));
   }, [
-    exerciseState.counter,
-    exerciseState.formAccuracy,
+    exerciseId,
     formHistory,
     maxStreak,
     isWalletConnected,
+    walletAddress,
     isFullScreen,
+    sourceKind,
   ]);
 
+  // Lets frame sources end the session with the latest state
+  const stopWorkoutRef = useRef(stopWorkout);
+  useEffect(() => {
+    stopWorkoutRef.current = stopWorkout;
+  }, [stopWorkout]);
+
+  // Pause without ending the session (live camera only)
+  const pauseWorkout = useCallback(() => {
+    const engine = engineRef.current;
+    if (!engine || pausedAtRef.current !== null) return;
+
+    const now = Date.now();
+    pausedAtRef.current = now;
+    engine.setPaused(true);
+    programRef.current?.runner.pause(now);
+    metronomeRef.current?.stop();
+    coachRef.current?.announce("Paused", now);
+    setIsPaused(true);
+  }, []);
+
+  const resumeWorkout = useCallback(() => {
+    const engine = engineRef.current;
+    const pausedAt = pausedAtRef.current;
+    if (!engine || pausedAt === null) return;
+
+    const now = Date.now();
+    pausedAtRef.current = null;
+    pausesRef.current.push({ start: pausedAt, end: now });
+    engine.setPaused(false);
+    programRef.current?.runner.resume(now);
+    livenessRef.current?.skipPause(now - pausedAt);
+    // The metronome restarts its cycle, so the prompts restart with it
+    if (tempoRef.current) {
+      tempoRef.current = { ...tempoRef.current, startedAt: now };
+    }
+    metronomeRef.current?.start();
+    coachRef.current?.announce("Resumed", now);
+    setIsPaused(false);
+  }, []);
+
   // Initialize workout session
   const startWorkout = useCallback(async () => {
     if (!videoRef.current || !canvasRef.current) return;
 
+    const isLive = sourceKind === "camera";
+    if (!isLive && sourceFiles.length === 0) {
+      setError("Choose a file to analyse first.");
+      return;
+    }
+
     setWorkoutState((prev) => ({ ...prev, isInitializing: true }));
     setError(null);
 
+    // Recorded footage is analysed as a free session
+    const program = isLive ? buildProgram(programOptions, exerciseId) : null;
+    const startExerciseId = program
+      ? (programExercises(program)[0] ?? exerciseId)
+      : exerciseId;
+
     try {
       // Reset session data
-      setExerciseState({
-        counter: 0,
-        status: "down",
-        angle: 0,
-        formAccuracy: 100,
-      });
+      exerciseStateRef.current = createInitialExerciseState();
+      setExerciseState(exerciseStateRef.current);
       setCurrentStreak(0);
       setMaxStreak(0);
       setFormHistory([]);
+      repsRef.current = [];
+      fatigueFromRef.current = 0;
+      pausedAtRef.current = null;
+      pausesRef.current = [];
+      setIsPaused(false);
       poseDataRef.current = [];
       sessionStartTime.current = Date.now();
       setCountdown(120);
+      frameSpanRef.current = null;
+      setAnalysisProgress(0);
+      // Recorded footage never goes on-chain, so only live sessions are
+      // checked
+      livenessRef.current = isLive
+        ? new LivenessMonitor({ challenges: livenessPrompts })
+        : null;
+
+      // Recorded footage is analysed from its first frame without calibration
+      let source: FrameSource = new CameraFrameSource(
+        videoRef.current,
+        cameraSettings
+      );
+      if (!isLive) {
+        const sourceOptions = {
+          fps: sourceFps,
+          onProgress: setAnalysisProgress,
+          onEnded: () => stopWorkoutRef.current(),
+          // Keep what was counted before the failure
+          onError: (error: Error) => {
+            console.error("Footage analysis stopped:", error);
+            setError(`Analysis stopped early: ${error.message}`);
+            stopWorkoutRef.current();
+          },
+        };
+        source =
+          sourceKind === "video-file" && fileVideoRef.current
+            ? new VideoFileFrameSource(
+                fileVideoRef.current,
+                sourceFiles[0],
+                sourceOptions
+              )
+            : new ImageSequenceFrameSource(sourceFiles, sourceOptions);
+        poseRecorderRef.current = new PoseStreamRecorder(exerciseId);
+      }
+
+      // Inference, counting and drawing run in the pose engine (a worker
+      // where supported); the page only keeps session bookkeeping
+      const engine = createPoseEngine(
+        canvasRef.current,
+        getExercise(startExerciseId),
+        // Recorded footage is not shown by the video element and is stepped
+        // frame by frame, so only the live camera needs the governor
+        { drawFrames: !isLive, adaptive: isLive }
+      );
+      engineRef.current = engine;
+
+      await engine.start(
+        source,
+        ({ timestamp, landmarks, state, aspectRatio }: PoseUpdate) => {
+          if (
+            engineRef.current !== engine ||
+            (isLive && !workoutStateRef.current.isActive)
+          ) {
+            return;
+          }
 
-      // Initialize pose detection
-      detectorRef.current = new AbsExerciseDetector();
+          // Paused frames are neither counted nor recorded
+          const paused = pausedAtRef.current !== null;
 
-      await detectorRef.current.initialize(
-        videoRef.current,
-        (results: Results) => {
-          if (!detectorRef.current || !workoutStateRef.current.isActive) return;
-
-          // Draw pose on canvas
-          if (canvasRef.current && results.poseLandmarks) {
-            const canvas = canvasRef.current;
-            const ctx = canvas.getContext("2d");
-            if (ctx) {
-              ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-              // Draw full pose skeleton with connections and landmarks
-              if (results.poseLandmarks) {
-                // First draw connections (skeleton)
-                drawPoseConnections(
-                  ctx,
-                  results.poseLandmarks,
-                  POSE_CONNECTIONS,
-                  canvas.width,
-                  canvas.height
-                );
-
-                // Then draw landmarks (joints)
-                drawPoseLandmarks(
-                  ctx,
-                  results.poseLandmarks,
-                  canvas.width,
-                  canvas.height
-                );
+          // One timestamp per frame, shared by the detector and the recording
+          if (!paused) {
+            poseRecorderRef.current?.setAspectRatio(aspectRatio);
+            poseRecorderRef.current?.addFrame(landmarks, timestamp);
+            livenessRef.current?.update(landmarks, timestamp);
+          }
+          frameSpanRef.current = {
+            first: frameSpanRef.current?.first ?? timestamp,
+            last: timestamp,
+          };
+
+          const currentState = exerciseStateRef.current;
+          exerciseStateRef.current = state;
+          if (!landmarks) return;
+
+          // Start timer on the first rep or once a hold begins
+          const hasStarted = state.counter > 0 || state.holdTime > 0;
+          if (
+            isLive &&
+            hasStarted &&
+            !timerRef.current &&
+            !programRef.current
+          ) {
+            timerRef.current = setInterval(() => {
+              // The countdown is frozen while paused or out of frame
+              if (
+                pausedAtRef.current !== null ||
+                exerciseStateRef.current.tracking !== "tracking"
+              ) {
+                return;
               }
-            }
+              setCountdown((prev) => {
+                if (prev <= 1) {
+                  clearInterval(timerRef.current!);
+                  stopWorkoutRef.current();
+                  return 0;
+                }
+                return prev - 1;
+              });
+            }, 1000);
           }
 
-          // Process exercise detection
-          if (results.poseLandmarks) {
-            // Use the ref for the latest state
-            const currentState = exerciseStateRef.current;
-            const newState = detectorRef.current.processAbsExercise(
-              results.poseLandmarks,
-              currentState
+          // Track rep completion
+          if (state.counter > currentState.counter) {
+            const isGoodForm = state.formAccuracy >= STREAK_FORM_ACCURACY;
+            setCurrentStreak((prev) => (isGoodForm ? prev + 1 : 0));
+            setMaxStreak((prev) =>
+              isGoodForm ? Math.max(prev, prev + 1) : prev
             );
+            setFormHistory((prev) => [...prev, state.formAccuracy]);
+          }
 
-            // Track rep completion
-            if (newState.counter > currentState.counter) {
-              // Start timer on first rep
-              if (newState.counter === 1 && !timerRef.current) {
-                timerRef.current = setInterval(() => {
-                  setCountdown((prev) => {
-                    if (prev <= 1) {
-                      clearInterval(timerRef.current!);
-                      stopWorkout();
-                      return 0;
-                    }
-                    return prev - 1;
-                  });
-                }, 1000);
-              }
+          // Re-assess fatigue on each completed rep (states from the pose
+          // worker are copies, and rep indexes restart when a program
+          // switches exercise, so reps are compared by end time). In a
+          // program only reps made during a work set are kept.
+          const rep = state.lastRep;
+          if (
+            rep &&
+            rep.endTime !== currentState.lastRep?.endTime &&
+            (programRef.current?.runner.isCounting() ?? true)
+          ) {
+            repsRef.current.push(rep);
+            fatigueWarningRef.current = assessFatigue(
+              repsRef.current.slice(fatigueFromRef.current)
+            ).recommendation;
+          }
 
-              const isGoodForm = newState.formAccuracy >= 80;
-              setCurrentStreak((prev) => (isGoodForm ? prev + 1 : 0));
-              setMaxStreak((prev) =>
-                isGoodForm ? Math.max(prev, prev + 1) : prev
-              );
-              setFormHistory((prev) => [...prev, newState.formAccuracy]);
-            }
-
-            setExerciseState(newState);
-
-            // Store pose data for analysis
-            poseDataRef.current.push({
-              landmarks: results.poseLandmarks,
-              timestamp: Date.now(),
-              formAccuracy: newState.formAccuracy,
-              angle: newState.angle,
-            });
-
-            // Keep only recent data for memory management
-            if (poseDataRef.current.length > 200) {
-              poseDataRef.current = poseDataRef.current.slice(-200);
-            }
+          // Store pose data for analysis
+          poseDataRef.current.push({
+            landmarks,
+            timestamp,
+            formAccuracy: state.formAccuracy,
+            angle: state.angle,
+          });
+
+          // Keep only recent data for memory management
+          if (poseDataRef.current.length > 200) {
+            poseDataRef.current = poseDataRef.current.slice(-200);
           }
         }
       );
+
+      // Use this user's calibrated thresholds for the camera that opened
+      if (isLive) {
+        const cameraId = getActiveCameraId(videoRef.current);
+        const calibrationProfile = loadCalibrationProfile(
+          walletAddress,
+          cameraId,
+          startExerciseId
+        );
+        engine.setExercise(
+          applyCalibration(getExercise(startExerciseId), calibrationProfile)
+        );
+        // A recording replays against a single exercise, so circuits that
+        // switch exercise are not recorded
+        poseRecorderRef.current =
+          !program || programExercises(program).length === 1
+            ? new PoseStreamRecorder(startExerciseId, calibrationProfile)
+            : null;
+      }
+
+      coachRef.current =
+        isLive && coachSettings.enabled && isSpeechSupported()
+          ? new AudioCoach(
+              getExercise(startExerciseId),
+              coachSettings.verbosity,
+              createSpeechSpeaker(coachSettings)
+            )
+          : null;
+
+      if (program) {
+        const runner = new ProgramRunner(program);
+        const exercises = new Map(
+          programExercises(program).map((id) => [
+            id,
+            applyCalibration(
+              getExercise(id),
+              loadCalibrationProfile(
+                walletAddress,
+                getActiveCameraId(videoRef.current),
+                id
+              )
+            ),
+          ])
+        );
+        const now = Date.now();
+        const first = runner.start(now, exerciseStateRef.current);
+        programRef.current = {
+          runner,
+          exercises,
+          exerciseId: startExerciseId,
+          finishing: false,
+        };
+        coachRef.current?.announce(announcePhase(first), now);
+        setProgramStatus(runner.getStatus(now));
+        setProgramExerciseId(startExerciseId);
+      }
+
+      // The metronome keeps one tempo, so it is not used across a circuit
+      const useTempo =
+        isLive &&
+        tempoSettings.enabled &&
+        getExercise(startExerciseId).mode === "reps" &&
+        (!program || programExercises(program).length === 1);
+      tempoRef.current = useTempo
+        ? { target: tempoSettings.target, startedAt: Date.now() }
+        : null;
+      if (useTempo && tempoSettings.sound) {
+        metronomeRef.current = new Metronome(tempoSettings.target);
+        metronomeRef.current.start();
+      }
+
       setWorkoutState((prev) => ({
         ...prev,
         isActive: true,
@@ -399,12 +877,45 @@ export default function ImprovedWorkoutTracker() {
       // Users can manually enter fullscreen if desired
     } catch (err) {
       setError(
-        "Failed to start camera. Please check permissions and try again."
+        isLive
+          ? "Failed to start camera. Please check permissions and try again."
+          : `Failed to open the selected file${
+              err instanceof Error ? `: ${err.message}` : "."
+            }`
       );
       console.error("Workout initialization error:", err);
+      engineRef.current?.stop();
+      engineRef.current = null;
+      setCanvasKey((key) => key + 1);
       setWorkoutState((prev) => ({ ...prev, isInitializing: false }));
     }
-  }, [stopWorkout]);
+  }, [
+    exerciseId,
+    walletAddress,
+    sourceKind,
+    sourceFiles,
+    sourceFps,
+    cameraSettings,
+    livenessPrompts,
+    coachSettings,
+    tempoSettings,
+    programOptions,
+  ]);
+
+  // Save the session's landmark stream so it can be replayed offline
+  const downloadPoseRecording = useCallback(() => {
+    if (!poseRecording) return;
+
+    const blob = new Blob([serializeRecording(poseRecording)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = recordingFileName(poseRecording);
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [poseRecording]);
 
   // Handle successful submission
   const handleSubmissionComplete = useCallback(
@@ -416,6 +927,18 @@ export default function ImprovedWorkoutTracker() {
       } else {
         console.log(`❌ Submission failed`);
       }
+
+      const historyId = historyIdRef.current;
+      if (historyId) {
+        updateHistoryEntry(historyId, {
+          submission:
+            success && txHash
+              ? { status: "submitted", txHash, submittedAt: Date.now() }
+              : { status: "failed" },
+        }).catch((error) =>
+          console.warn("Could not update session history:", error)
+        );
+      }
     },
     []
   );
@@ -425,6 +948,22 @@ export default function ImprovedWorkoutTracker() {
     setAiAdvice(advice || null);
   };
 
+  const orientationWarning = getOrientationWarning(
+    exercise,
+    exerciseState.view
+  );
+  // Mirroring is display-only; the model always sees unflipped frames
+  const previewTransform =
+    sourceKind === "camera" && cameraSettings.mirrored
+      ? "scaleX(-1)"
+      : undefined;
+
+  const positioningPrompt = getPositioningPrompt(
+    exercise,
+    exerciseState.tracking,
+    exerciseState.athleteLock
+  );
+
   // Get workout status color
   const getStatusColor = () => {
     if (exerciseState.formAccuracy >= 90) return "text-green-500";
@@ -443,7 +982,24 @@ export default function ImprovedWorkoutTracker() {
     }
 
     if (workoutState.isActive) {
-      return exerciseState.status === "up" ? "CRUNCH UP!" : "LOWER DOWN";
+      if (isPaused) {
+        return "Paused. Resume when you are back in position";
+      }
+      if (positioningPrompt) {
+        return positioningPrompt;
+      }
+      if (exerciseState.faults.length > 0) {
+        return FORM_FAULT_CUES[exerciseState.faults[0]];
+      }
+      if (exercise.mode === "hold") {
+        if (exerciseState.holdStatus === "sagging") {
+          return exercise.alignment.cues.sag;
+        }
+        if (exerciseState.holdStatus === "piking") {
+          return exercise.alignment.cues.pike;
+        }
+      }
+      return exercise.cues[exerciseState.status];
     }
   };
 
@@ -470,6 +1026,12 @@ export default function ImprovedWorkoutTracker() {
             <div className="md:col-span-2 space-y-6">
               {/* Video Card */}
               <div className="abs-card-primary p-4">
+                <video
+                  ref={fileVideoRef}
+                  className="hidden"
+                  muted
+                  playsInline
+                />
                 <div className="relative">
                   {/* Branding image shown post-workout */}
                   {!workoutState.isActive &&
@@ -498,19 +1060,37 @@ export default function ImprovedWorkoutTracker() {
                         style={{
                           maxHeight: isMobile ? "50vh" : "400px",
                           objectFit: "cover",
+                          transform: previewTransform,
                         }}
                       />
+                      {/* Sized to the frame and fitted like the video, so the
+                          skeleton lines up at any resolution or aspect */}
                       <canvas
+                        key={canvasKey}
                         ref={canvasRef}
                         className="absolute top-0 left-0 w-full h-full"
                         style={{
                           maxHeight: isMobile ? "50vh" : "400px",
+                          objectFit: "cover",
+                          transform: previewTransform,
                         }}
                       />
                     </>
                   )}
 
                   {/* Live overlays */}
+                  {workoutState.isActive && isPaused && (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <div className="abs-stats-overlay text-center">
+                        <div className="text-3xl md:text-4xl font-black text-white">
+                          ⏸️ PAUSED
+                        </div>
+                        <div className="text-sm">
+                          Counting and timers are stopped
+                        </div>
+                      </div>
+                    </div>
+                  )}
                   {workoutState.isActive && (
                     <>
                       <div className="absolute top-4 left-4 right-4">
@@ -518,10 +1098,57 @@ export default function ImprovedWorkoutTracker() {
                           <div
                             className={`text-xl md:text-2xl font-black ${getStatusColor()}`}
                           >
-                            {exerciseState.status.toUpperCase()}
+                            {exercise.mode === "hold"
+                              ? exerciseState.holdStatus.toUpperCase()
+                              : exerciseState.status.toUpperCase()}
                           </div>
+                          {programStatus && (
+                            <div className="text-lg font-black text-white mt-1">
+                              📋 {formatProgramStatus(programStatus)}
+                            </div>
+                          )}
+                          {tempoPosition && (
+                            <div className="text-lg font-black text-white mt-1">
+                              ⏱️ {TEMPO_PHASE_LABELS[tempoPosition.phase]}{" "}
+                              {Math.ceil(tempoPosition.remainingMs / 1000)}
+                            </div>
+                          )}
+                          {fatigueWarning && (
+                            <div className="text-xs font-black text-orange-300 mt-1">
+                              😮‍💨 {fatigueWarning}
+                            </div>
+                          )}
+                          {livenessChallenge && (
+                            <div className="text-lg font-black text-cyan-300 mt-1 animate-pulse">
+                              🙋{" "}
+                              {
+                                LIVENESS_CHALLENGE_PROMPTS[
+                                  livenessChallenge.kind
+                                ]
+                              }
+                            </div>
+                          )}
+                          {positioningPrompt && (
+                            <div className="text-xs font-black text-yellow-300 mt-1">
+                              📍 {positioningPrompt}
+                            </div>
+                          )}
+                          {orientationWarning && (
+                            <div className="text-xs font-black text-yellow-300 mt-1">
+                              ⚠️ {orientationWarning}
+                            </div>
+                          )}
+                          {exerciseState.faults.map((fault) => (
+                            <div
+                              key={fault}
+                              className="text-xs font-black text-red-400 mt-1"
+                            >
+                              ❌ {FORM_FAULT_CUES[fault]}
+                            </div>
+                          ))}
                           <div className="text-sm mt-1">
-                            Form: {exerciseState.formAccuracy}% | Angle:{" "}
+                            {exercise.mode === "hold" ? "Alignment" : "Form"}:{" "}
+                            {exerciseState.formAccuracy}% | Angle:{" "}
                             {Math.round(exerciseState.angle)}°
                           </div>
                         </div>
@@ -529,9 +1156,19 @@ export default function ImprovedWorkoutTracker() {
                       <div className="absolute bottom-4 left-4">
                         <div className="abs-stats-overlay">
                           <div className="text-3xl md:text-4xl font-black text-green-400">
-                            {exerciseState.counter}
+                            {exercise.mode === "hold"
+                              ? `${Math.floor(exerciseState.holdTime / 1000)}s`
+                              : exerciseState.counter}
+                          </div>
+                          <div className="text-sm">
+                            {exercise.mode === "hold" ? "HOLD" : "REPS"}
                           </div>
-                          <div className="text-sm">REPS</div>
+                          {exercise.mode === "rotation" && (
+                            <div className="text-xs font-mono">
+                              L {exerciseState.leftCount} | R{" "}
+                              {exerciseState.rightCount}
+                            </div>
+                          )}
                         </div>
                       </div>
                       {currentStreak > 0 && (
@@ -553,21 +1190,46 @@ export default function ImprovedWorkoutTracker() {
                   {!workoutState.isActive ? (
                     <button
                       onClick={startWorkout}
-                      disabled={workoutState.isInitializing}
+                      disabled={
+                        workoutState.isInitializing ||
+                        cameraBusy ||
+                        (sourceKind === "camera"
+                          ? !setup.passed
+                          : sourceFiles.length === 0)
+                      }
                       className="w-full abs-btn-start text-lg py-4"
                     >
                       {workoutState.isInitializing
                         ? "STARTING..."
-                        : "🚀 START WORKOUT"}
+                        : sourceKind === "camera"
+                          ? "🚀 START WORKOUT"
+                          : "🎬 ANALYSE FOOTAGE"}
                     </button>
                   ) : (
-                    <button
-                      onClick={stopWorkout}
-                      className="w-full abs-btn-stop text-lg py-4"
-                    >
-                      ⏹️ STOP WORKOUT
-                    </button>
+                    <div className="flex gap-3">
+                      {sourceKind === "camera" && (
+                        <button
+                          onClick={isPaused ? resumeWorkout : pauseWorkout}
+                          className="flex-1 abs-btn-primary text-lg py-4"
+                        >
+                          {isPaused ? "▶️ RESUME" : "⏸️ PAUSE"}
+                        </button>
+                      )}
+                      <button
+                        onClick={stopWorkout}
+                        className="flex-1 abs-btn-stop text-lg py-4"
+                      >
+                        ⏹️ STOP WORKOUT
+                      </button>
+                    </div>
                   )}
+                  {!workoutState.isActive &&
+                    sourceKind === "camera" &&
+                    !setup.passed && (
+                      <p className="text-sm font-bold text-center text-gray-700">
+                        Pass the camera setup check to start
+                      </p>
+                    )}
                   {!isWalletConnected && (
                     <div className="w-full">
                       <WalletConnectButton
@@ -622,6 +1284,93 @@ export default function ImprovedWorkoutTracker() {
 
             {/* Sidebar (Stats and Actions) */}
             <div className="space-y-6">
+              {/* Exercise selection */}
+              {!workoutState.isActive && (
+                <ExercisePicker
+                  selected={exerciseId}
+                  onSelect={setExerciseId}
+                  disabled={workoutState.isInitializing || cameraBusy}
+                />
+              )}
+
+              {/* Camera or recorded footage */}
+              {!workoutState.isActive && (
+                <FrameSourcePicker
+                  kind={sourceKind}
+                  files={sourceFiles}
+                  fps={sourceFps}
+                  onKindChange={setSourceKind}
+                  onFilesChange={setSourceFiles}
+                  onFpsChange={setSourceFps}
+                  disabled={workoutState.isInitializing || cameraBusy}
+                />
+              )}
+
+              {/* Camera device, resolution and mirroring */}
+              {!workoutState.isActive && sourceKind === "camera" && (
+                <CameraSettingsPanel
+                  settings={cameraSettings}
+                  onChange={updateCameraSettings}
+                  disabled={workoutState.isInitializing || cameraBusy}
+                />
+              )}
+
+              {/* Sets, intervals and circuits */}
+              {!workoutState.isActive && sourceKind === "camera" && (
+                <ProgramPanel
+                  options={programOptions}
+                  exercise={exercise}
+                  onChange={updateProgramOptions}
+                  disabled={workoutState.isInitializing}
+                />
+              )}
+
+              {/* Spoken cues */}
+              {!workoutState.isActive && sourceKind === "camera" && (
+                <CoachSettingsPanel
+                  settings={coachSettings}
+                  onChange={updateCoachSettings}
+                  disabled={workoutState.isInitializing}
+                />
+              )}
+
+              {/* Target tempo (rep exercises) */}
+              {!workoutState.isActive &&
+                sourceKind === "camera" &&
+                exercise.mode === "reps" && (
+                  <TempoPanel
+                    settings={tempoSettings}
+                    onChange={updateTempoSettings}
+                    disabled={workoutState.isInitializing}
+                  />
+                )}
+
+              {/* Required camera setup check */}
+              {!workoutState.isActive && sourceKind === "camera" && (
+                <SetupWizard
+                  exercise={exercise}
+                  setup={setup}
+                  actions={setupActions}
+                  livenessPrompts={livenessPrompts}
+                  onLivenessPromptsChange={setLivenessPrompts}
+                  disabled={
+                    workoutState.isInitializing || calibration.isCalibrating
+                  }
+                />
+              )}
+
+              {/* Optional per-user calibration */}
+              {!workoutState.isActive &&
+                !workoutState.hasCompletedWorkout &&
+                sourceKind === "camera" && (
+                  <CalibrationPanel
+                    exercise={exercise}
+                    calibration={calibration}
+                    actions={calibrationActions}
+                    disabled={workoutState.isInitializing || setup.isChecking}
+                  />
+                )}
+
               {/* Pre-workout Tips */}
               {!workoutState.isActive && !workoutState.hasCompletedWorkout && (
                 <WorkoutTips />
@@ -635,11 +1384,36 @@ export default function ImprovedWorkoutTracker() {
                   </h3>
                   <div className="space-y-3">
                     <div className="flex justify-between">
-                      <span className="font-bold">Reps:</span>
-                      <span className="text-xl font-black text-blue-600">
-                        {exerciseState.counter}
+                      <span className="font-bold">Exercise:</span>
+                      <span className="font-black">{exercise.name}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="font-bold">View:</span>
+                      <span
+                        className={`font-black uppercase ${
+                          orientationWarning
+                            ? "text-yellow-600"
+                            : "text-green-600"
+                        }`}
+                      >
+                        {exerciseState.view.replace("-", " ")}
                       </span>
                     </div>
+                    {exercise.mode === "hold" ? (
+                      <div className="flex justify-between">
+                        <span className="font-bold">Hold:</span>
+                        <span className="text-xl font-black text-blue-600">
+                          {Math.floor(exerciseState.holdTime / 1000)}s
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="flex justify-between">
+                        <span className="font-bold">Reps:</span>
+                        <span className="text-xl font-black text-blue-600">
+                          {exerciseState.counter}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="font-bold">Form:</span>
                       <span
@@ -648,6 +1422,20 @@ export default function ImprovedWorkoutTracker() {
                         {exerciseState.formAccuracy}%
                       </span>
                     </div>
+                    {exerciseState.lastRep && (
+                      <div className="flex justify-between">
+                        <span className="font-bold">Last Rep:</span>
+                        <span className="font-mono font-black">
+                          {exerciseState.lastRep.rangeOfMotion}° ·{" "}
+                          {(
+                            (exerciseState.lastRep.endTime -
+                              exerciseState.lastRep.startTime) /
+                            1000
+                          ).toFixed(1)}
+                          s
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="font-bold">Streak:</span>
                       <span className="text-xl font-black text-orange-600">
@@ -660,13 +1448,31 @@ export default function ImprovedWorkoutTracker() {
                         {maxStreak}
                       </span>
                     </div>
-                    <div className="flex justify-between">
-                      <span className="font-bold">Time Left:</span>
-                      <span className="font-mono text-xl font-black text-red-500">
-                        {Math.floor(countdown / 60)}:
-                        {(countdown % 60).toString().padStart(2, "0")}
-                      </span>
-                    </div>
+                    {programStatus ? (
+                      <div className="flex justify-between">
+                        <span className="font-bold">
+                          {programStatus.phase.label}:
+                        </span>
+                        <span className="font-mono font-black text-red-500">
+                          {formatProgramStatus(programStatus)}
+                        </span>
+                      </div>
+                    ) : sourceKind === "camera" ? (
+                      <div className="flex justify-between">
+                        <span className="font-bold">Time Left:</span>
+                        <span className="font-mono text-xl font-black text-red-500">
+                          {Math.floor(countdown / 60)}:
+                          {(countdown % 60).toString().padStart(2, "0")}
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="flex justify-between">
+                        <span className="font-bold">Analysed:</span>
+                        <span className="font-mono text-xl font-black text-red-500">
+                          {Math.round(analysisProgress * 100)}%
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -679,6 +1485,14 @@ export default function ImprovedWorkoutTracker() {
                     enhancedFormScore={enhancedFormScore}
                     aiAdvice={aiAdvice}
                   />
+                  {poseRecording && poseRecording.frames.length > 0 && (
+                    <button
+                      onClick={downloadPoseRecording}
+                      className="w-full abs-btn-primary bg-gray-800 text-white py-2 text-sm"
+                    >
+                      💾 SAVE POSE RECORDING
+                    </button>
+                  )}
                   {isWalletConnected && poseDataRef.current.length > 0 && (
                     <ChainlinkEnhancement
                       isConnected={isWalletConnected}
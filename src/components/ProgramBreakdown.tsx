@@ -0,0 +1,75 @@
+"use client";
+
+import React from "react";
+import { getExercise } from "../lib/exercises";
+import type { ProgramSummary } from "../lib/workout-programs";
+
+interface ProgramBreakdownProps {
+  program: ProgramSummary;
+}
+
+const formColor = (accuracy: number) =>
+  accuracy >= 80
+    ? "text-green-700"
+    : accuracy >= 60
+      ? "text-yellow-600"
+      : "text-red-600";
+
+// One row per worked set with its result against the target
+export default function ProgramBreakdown({ program }: ProgramBreakdownProps) {
+  const completed = program.sets.filter((set) => set.completed).length;
+  // Circuits name each station's exercise
+  const showExercise = new Set(program.sets.map((s) => s.exerciseId)).size > 1;
+
+  return (
+    <div className="mt-4 border-4 border-black p-4 text-left text-sm !text-black space-y-3">
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-black uppercase">📋 {program.name}</h4>
+        <span className="font-mono text-xs">
+          {completed}/{program.sets.length} sets
+          {program.finished ? "" : " · stopped early"}
+        </span>
+      </div>
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="border-b-2 border-black text-left">
+            <th className="py-1">Set</th>
+            <th>Result</th>
+            <th>Form</th>
+            <th>Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {program.sets.map((set) => {
+            const isHold = getExercise(set.exerciseId).mode === "hold";
+            const result = isHold ? `${set.holdTime}s` : `${set.reps}`;
+            const target = isHold ? set.targetHoldSec : set.targetReps;
+            return (
+              <tr key={set.index} className="border-b border-gray-300">
+                <td className="py-1">
+                  {set.label}
+                  {showExercise && ` · ${getExercise(set.exerciseId).name}`}
+                </td>
+                <td className="font-black">
+                  {set.completed ? "✅" : "❌"} {result}
+                  {target !== null && ` / ${target}${isHold ? "s" : ""}`}
+                </td>
+                <td className={`font-black ${formColor(set.formAccuracy)}`}>
+                  {set.formAccuracy}%
+                </td>
+                <td>{set.duration}s</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="flex justify-between text-xs font-mono">
+        <span>
+          Total: {program.totalReps} reps
+          {program.totalHoldTime > 0 && ` · ${program.totalHoldTime}s hold`}
+        </span>
+        <span>Form {program.formAccuracy}%</span>
+      </div>
+    </div>
+  );
+}
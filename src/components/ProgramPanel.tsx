@@ -0,0 +1,128 @@
+"use client";
+
+import React from "react";
+import type { ExerciseDefinition } from "../lib/exercises";
+import {
+  CORE_CIRCUIT,
+  PROGRAM_FORMAT_LABELS,
+  type ProgramFormat,
+  type ProgramOptions,
+} from "../lib/workout-programs";
+import { getExercise } from "../lib/exercises";
+
+interface ProgramPanelProps {
+  options: ProgramOptions;
+  exercise: ExerciseDefinition;
+  onChange: (options: ProgramOptions) => void;
+  disabled?: boolean;
+}
+
+type NumericOption = Exclude<keyof ProgramOptions, "format">;
+
+// Fields shown for each format
+const FORMAT_FIELDS: Record<ProgramFormat, NumericOption[]> = {
+  free: [],
+  sets: ["sets", "reps", "restSec"],
+  emom: ["minutes", "reps"],
+  tabata: ["rounds"],
+  amrap: ["minutes"],
+  circuit: ["sets", "restSec"],
+};
+
+const FIELD_LIMITS: Record<NumericOption, { min: number; max: number }> = {
+  sets: { min: 1, max: 10 },
+  reps: { min: 1, max: 100 },
+  holdSec: { min: 5, max: 300 },
+  restSec: { min: 0, max: 300 },
+  minutes: { min: 1, max: 30 },
+  rounds: { min: 1, max: 16 },
+};
+
+export default function ProgramPanel({
+  options,
+  exercise,
+  onChange,
+  disabled = false,
+}: ProgramPanelProps) {
+  const isHold = exercise.mode === "hold";
+  const fieldLabels: Record<NumericOption, string> = {
+    sets: options.format === "circuit" ? "Rounds" : "Sets",
+    reps: "Reps per set",
+    holdSec: "Hold per set (s)",
+    restSec: options.format === "circuit" ? "Round rest (s)" : "Rest (s)",
+    minutes: "Minutes",
+    rounds: "Rounds",
+  };
+  // Hold exercises set seconds instead of reps
+  const fields = FORMAT_FIELDS[options.format].map((field) =>
+    field === "reps" && isHold ? "holdSec" : field,
+  );
+
+  const setField = (field: NumericOption, value: string) => {
+    const { min, max } = FIELD_LIMITS[field];
+    onChange({
+      ...options,
+      [field]: Math.max(min, Math.min(max, Math.round(Number(value) || min))),
+    });
+  };
+
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        📋 Program
+      </h3>
+      <div className="space-y-3 text-sm text-black font-mono">
+        <select
+          value={options.format}
+          onChange={(e) =>
+            onChange({ ...options, format: e.target.value as ProgramFormat })
+          }
+          disabled={disabled}
+          className="w-full border-2 border-black px-1 py-1 bg-white"
+        >
+          {(Object.keys(PROGRAM_FORMAT_LABELS) as ProgramFormat[]).map(
+            (format) => (
+              <option key={format} value={format}>
+                {PROGRAM_FORMAT_LABELS[format]}
+              </option>
+            ),
+          )}
+        </select>
+
+        {fields.map((field) => (
+          <label key={field} className="flex justify-between items-center">
+            <span>{fieldLabels[field]}:</span>
+            <input
+              type="number"
+              min={FIELD_LIMITS[field].min}
+              max={FIELD_LIMITS[field].max}
+              value={options[field]}
+              onChange={(e) => setField(field, e.target.value)}
+              disabled={disabled}
+              className="w-20 border-2 border-black px-1 py-1 bg-white text-center"
+            />
+          </label>
+        ))}
+
+        {options.format === "circuit" && (
+          <ol className="list-decimal list-inside text-xs">
+            {CORE_CIRCUIT.map((station) => (
+              <li key={station.exerciseId}>
+                {getExercise(station.exerciseId).name} ·{" "}
+                {station.holdSec
+                  ? `${station.holdSec}s`
+                  : `${station.reps} reps`}
+              </li>
+            ))}
+          </ol>
+        )}
+        {options.format === "tabata" && (
+          <p className="text-xs">20s work / 10s rest per round</p>
+        )}
+        {options.format === "amrap" && (
+          <p className="text-xs">Count as many reps as you can</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useWallet } from "../contexts/WalletContext";
+import { useWorkoutHistory } from "../hooks/useWorkoutHistory";
+import {
+  RANGE_PRESET_LABELS,
+  RECORD_LABELS,
+  compareRanges,
+  personalRecords,
+  presetRange,
+  previousRange,
+  streakProgression,
+  summarizeRange,
+  weeklyStats,
+  type DateRange,
+  type RangePreset,
+  type SummaryMetric,
+} from "../lib/progress-analytics";
+import ProgressChart from "./ProgressChart";
+
+type RangeChoice = RangePreset | "custom";
+type CompareChoice = "previous" | "custom" | "none";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const METRIC_LABELS: Record<SummaryMetric, string> = {
+  sessions: "Sessions",
+  reps: "Total reps",
+  formAccuracy: "Avg form",
+  averageDuration: "Avg session length",
+  bestStreak: "Best streak",
+  activeDaysPerWeek: "Active days / week",
+};
+
+const METRIC_UNITS: Partial<Record<SummaryMetric, string>> = {
+  formAccuracy: "%",
+  averageDuration: "s",
+};
+
+const shortDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+// <input type="date"> values, as local midnight; the end date is inclusive
+const toInputDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+const fromInputDates = (start: string, end: string): DateRange | null => {
+  const from = new Date(`${start}T00:00`).getTime();
+  const to = new Date(`${end}T00:00`).getTime();
+  return Number.isNaN(from) || Number.isNaN(to) || to < from
+    ? null
+    : { start: from, end: to + DAY_MS };
+};
+
+function RangeInputs({
+  start,
+  end,
+  onChange,
+}: {
+  start: string;
+  end: string;
+  onChange: (start: string, end: string) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <input
+        type="date"
+        value={start}
+        onChange={(e) => onChange(e.target.value, end)}
+        className="border-2 border-black px-1 py-1 bg-white"
+      />
+      <input
+        type="date"
+        value={end}
+        onChange={(e) => onChange(start, e.target.value)}
+        className="border-2 border-black px-1 py-1 bg-white"
+      />
+    </div>
+  );
+}
+
+export default function ProgressAnalytics() {
+  const { address: walletAddress } = useWallet();
+  const [history] = useWorkoutHistory(walletAddress);
+  const items = history.items;
+
+  const [rangeChoice, setRangeChoice] = useState<RangeChoice>("12w");
+  const [compareChoice, setCompareChoice] = useState<CompareChoice>("previous");
+  const today = toInputDate(Date.now());
+  const [customRange, setCustomRange] = useState({ start: today, end: today });
+  const [customCompare, setCustomCompare] = useState({
+    start: today,
+    end: today,
+  });
+
+  const range = useMemo(
+    () =>
+      rangeChoice === "custom"
+        ? fromInputDates(customRange.start, customRange.end)
+        : presetRange(rangeChoice, items),
+    [rangeChoice, customRange, items],
+  );
+  const comparison = useMemo(() => {
+    if (!range || compareChoice === "none") return null;
+    return compareChoice === "previous"
+      ? previousRange(range)
+      : fromInputDates(customCompare.start, customCompare.end);
+  }, [range, compareChoice, customCompare]);
+
+  const weeks = useMemo(
+    () => (range ? weeklyStats(items, range) : []),
+    [items, range],
+  );
+  const streaks = useMemo(
+    () => (range ? streakProgression(items, range) : []),
+    [items, range],
+  );
+  const metrics = useMemo(() => {
+    if (!range) return [];
+    const current = summarizeRange(items, range);
+    return compareRanges(
+      current,
+      comparison ? summarizeRange(items, comparison) : current,
+    );
+  }, [items, range, comparison]);
+  const records = useMemo(() => personalRecords(items), [items]);
+
+  const weekLabel = (weekStart: number) => shortDate(weekStart);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4">
+      <div className="abs-card-brutal p-4 text-black">
+        <h2 className="text-xl font-black uppercase mb-3">📈 Progress</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm font-mono">
+          <div className="space-y-2">
+            <span className="block text-xs font-bold uppercase">Range</span>
+            <select
+              value={rangeChoice}
+              onChange={(e) => setRangeChoice(e.target.value as RangeChoice)}
+              className="w-full border-2 border-black px-1 py-1 bg-white"
+            >
+              {(Object.keys(RANGE_PRESET_LABELS) as RangePreset[]).map(
+                (preset) => (
+                  <option key={preset} value={preset}>
+                    {RANGE_PRESET_LABELS[preset]}
+                  </option>
+                ),
+              )}
+              <option value="custom">Custom dates</option>
+            </select>
+            {rangeChoice === "custom" && (
+              <RangeInputs
+                start={customRange.start}
+                end={customRange.end}
+                onChange={(start, end) => setCustomRange({ start, end })}
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <span className="block text-xs font-bold uppercase">
+              Compare with
+            </span>
+            <select
+              value={compareChoice}
+              onChange={(e) =>
+                setCompareChoice(e.target.value as CompareChoice)
+              }
+              className="w-full border-2 border-black px-1 py-1 bg-white"
+            >
+              <option value="previous">Previous period</option>
+              <option value="custom">Custom dates</option>
+              <option value="none">No comparison</option>
+            </select>
+            {compareChoice === "custom" && (
+              <RangeInputs
+                start={customCompare.start}
+                end={customCompare.end}
+                onChange={(start, end) => setCustomCompare({ start, end })}
+              />
+            )}
+          </div>
+        </div>
+        <p className="text-xs font-mono text-gray-700 mt-2">
+          {history.isLoading
+            ? "Loading sessions..."
+            : `${items.length} sessions from this browser${
+                history.includesChain ? " and your wallet" : ""
+              }`}
+        </p>
+        {!range && (
+          <p className="text-xs font-bold text-red-700 mt-2">
+            Choose a start date on or before the end date
+          </p>
+        )}
+      </div>
+
+      {range && (
+        <>
+          {/* Range summary and comparison */}
+          <div className="abs-card-brutal p-4 text-black">
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="border-b-2 border-black text-left">
+                  <th className="py-1">Metric</th>
+                  <th>Range</th>
+                  {comparison && <th>Compared</th>}
+                  {comparison && <th>Change</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.map(({ metric, current, previous, change }) => {
+                  const unit = METRIC_UNITS[metric] ?? "";
+                  return (
+                    <tr key={metric} className="border-b border-gray-300">
+                      <td className="py-1">{METRIC_LABELS[metric]}</td>
+                      <td className="font-black">
+                        {current === null ? "–" : `${current}${unit}`}
+                      </td>
+                      {comparison && (
+                        <td>
+                          {previous === null ? "–" : `${previous}${unit}`}
+                        </td>
+                      )}
+                      {comparison && (
+                        <td
+                          className={`font-black ${
+                            change === null
+                              ? ""
+                              : change >= 0
+                                ? "text-green-700"
+                                : "text-red-600"
+                          }`}
+                        >
+                          {change === null
+                            ? "–"
+                            : `${change > 0 ? "+" : ""}${change}%`}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <ProgressChart
+              title="Weekly volume"
+              kind="bar"
+              unit=" reps"
+              points={weeks.map((w) => ({
+                label: weekLabel(w.weekStart),
+                value: w.reps,
+              }))}
+            />
+            <ProgressChart
+              title="Form accuracy trend"
+              kind="line"
+              unit="%"
+              max={100}
+              color="#16a34a"
+              points={weeks.map((w) => ({
+                label: weekLabel(w.weekStart),
+                value: w.formAccuracy,
+              }))}
+            />
+            <ProgressChart
+              title="Best streak progression"
+              kind="line"
+              unit=" reps"
+              color="#ea580c"
+              points={streaks.map((s) => ({
+                label: weekLabel(s.weekStart),
+                value: s.bestStreak,
+              }))}
+            />
+            <ProgressChart
+              title="Average session length"
+              kind="line"
+              unit="s"
+              color="#000"
+              points={weeks.map((w) => ({
+                label: weekLabel(w.weekStart),
+                value:
+                  w.sessions > 0 ? Math.round(w.duration / w.sessions) : null,
+              }))}
+            />
+            <ProgressChart
+              title="Consistency (active days per week)"
+              kind="bar"
+              unit=" days"
+              max={7}
+              color="#9333ea"
+              points={weeks.map((w) => ({
+                label: weekLabel(w.weekStart),
+                value: w.activeDays,
+              }))}
+            />
+          </div>
+        </>
+      )}
+
+      {/* All-time bests */}
+      <div className="abs-card-brutal p-4 text-black">
+        <h3 className="font-black uppercase mb-2">🏅 Personal Records</h3>
+        {records.length === 0 ? (
+          <p className="text-sm font-mono">Finish a session to set records</p>
+        ) : (
+          <div className="space-y-1 text-sm font-mono">
+            {records.map((record) => (
+              <div key={record.kind} className="flex justify-between">
+                <span>{RECORD_LABELS[record.kind]}</span>
+                <span className="font-black">
+                  {record.value}
+                  {record.unit === "%" || record.unit === "s"
+                    ? record.unit
+                    : ` ${record.unit}`}{" "}
+                  <span className="font-normal text-xs">
+                    ({shortDate(record.timestamp)})
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Contract totals for the connected wallet */}
+      {history.score && (
+        <div className="abs-card-brutal p-4 text-black">
+          <h3 className="font-black uppercase mb-2">⛓️ On-chain Totals</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center font-mono text-sm">
+            <div>
+              <div className="font-black text-lg">
+                {history.score.totalReps}
+              </div>
+              <div className="text-xs">Reps</div>
+            </div>
+            <div>
+              <div className="font-black text-lg">
+                {history.score.averageFormAccuracy}%
+              </div>
+              <div className="text-xs">Avg form</div>
+            </div>
+            <div>
+              <div className="font-black text-lg">
+                {history.score.bestStreak}
+              </div>
+              <div className="text-xs">Best streak</div>
+            </div>
+            <div>
+              <div className="font-black text-lg">
+                {history.score.sessionsCompleted}
+              </div>
+              <div className="text-xs">Sessions</div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import React from "react";
+
+export interface ChartPoint {
+  label: string;
+  // Null leaves a gap (e.g. a week without sessions)
+  value: number | null;
+}
+
+interface ProgressChartProps {
+  title: string;
+  points: ChartPoint[];
+  kind: "bar" | "line";
+  unit?: string;
+  color?: string;
+  // Fixed axis maximum (e.g. 100 for percentages); defaults to the data
+  max?: number;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+// Bars or a line over evenly spaced points, labelled at both ends
+export default function ProgressChart({
+  title,
+  points,
+  kind,
+  unit = "",
+  color = "#2563eb",
+  max,
+}: ProgressChartProps) {
+  const values = points
+    .map((p) => p.value)
+    .filter((v): v is number => v !== null);
+  const top = max ?? Math.max(1, ...values);
+  const slot = CHART_WIDTH / Math.max(1, points.length);
+  const toY = (value: number) =>
+    CHART_HEIGHT - (value / top) * (CHART_HEIGHT - 8);
+
+  // Line segments break at gaps
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((point, i) => {
+    if (point.value === null) {
+      if (current.length > 0) segments.push(current.join(" "));
+      current = [];
+      return;
+    }
+    current.push(`${i * slot + slot / 2},${toY(point.value)}`);
+  });
+  if (current.length > 0) segments.push(current.join(" "));
+
+  return (
+    <div className="border-4 border-black p-4 text-left text-sm !text-black space-y-2 bg-white">
+      <h4 className="font-black uppercase">{title}</h4>
+      {values.length === 0 ? (
+        <p className="text-xs font-mono">No sessions in this range</p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-32 border-4 border-black bg-gray-50"
+          preserveAspectRatio="none"
+        >
+          {kind === "bar"
+            ? points.map((point, i) =>
+                point.value === null ? null : (
+                  <rect
+                    key={i}
+                    x={i * slot + slot * 0.15}
+                    y={toY(point.value)}
+                    width={Math.max(2, slot * 0.7)}
+                    height={CHART_HEIGHT - toY(point.value)}
+                    fill={color}
+                  >
+                    <title>{`${point.label}: ${point.value}${unit}`}</title>
+                  </rect>
+                ),
+              )
+            : segments.map((segment, i) => (
+                <polyline
+                  key={i}
+                  points={segment}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+          {kind === "line" &&
+            points.map((point, i) =>
+              point.value === null ? null : (
+                <circle
+                  key={i}
+                  cx={i * slot + slot / 2}
+                  cy={toY(point.value)}
+                  r={3}
+                  fill={color}
+                >
+                  <title>{`${point.label}: ${point.value}${unit}`}</title>
+                </circle>
+              ),
+            )}
+        </svg>
+      )}
+      {points.length > 0 && (
+        <div className="flex justify-between text-xs font-mono">
+          <span>{points[0].label}</span>
+          <span>
+            max {Math.round(Math.max(0, ...values))}
+            {unit}
+          </span>
+          <span>{points[points.length - 1].label}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React from "react";
+import { REP_FAULT_LABELS, type RepEvent } from "../lib/rep-analytics";
+
+interface RepBreakdownProps {
+  reps: RepEvent[];
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+const formColor = (accuracy: number) =>
+  accuracy >= 80 ? "#16a34a" : accuracy >= 60 ? "#eab308" : "#dc2626";
+
+const toSeconds = (ms: number) => (ms / 1000).toFixed(1);
+
+// Range of motion per rep as bars (coloured by form), smoothness as a line
+function RepChart({ reps }: RepBreakdownProps) {
+  const maxRom = Math.max(...reps.map((r) => r.rangeOfMotion), 1);
+  const slot = CHART_WIDTH / reps.length;
+  const barWidth = Math.max(2, slot * 0.7);
+  const smoothPoints = reps
+    .map((rep, i) =>
+      rep.smoothness === null
+        ? null
+        : `${i * slot + slot / 2},${
+            CHART_HEIGHT - (rep.smoothness / 100) * CHART_HEIGHT
+          }`,
+    )
+    .filter((point): point is string => point !== null)
+    .join(" ");
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-32 border-4 border-black bg-gray-50"
+        preserveAspectRatio="none"
+      >
+        {reps.map((rep, i) => {
+          const height = (rep.rangeOfMotion / maxRom) * (CHART_HEIGHT - 8);
+          return (
+            <rect
+              key={rep.index}
+              x={i * slot + (slot - barWidth) / 2}
+              y={CHART_HEIGHT - height}
+              width={barWidth}
+              height={height}
+              fill={formColor(rep.formAccuracy)}
+            >
+              <title>{`Rep ${rep.index}: ${rep.rangeOfMotion}° ROM, ${rep.formAccuracy}% form`}</title>
+            </rect>
+          );
+        })}
+        {smoothPoints && (
+          <polyline
+            points={smoothPoints}
+            fill="none"
+            stroke="#000"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div className="flex justify-between text-xs font-mono mt-1">
+        <span>Bars: range of motion (colour = form)</span>
+        <span>Line: smoothness</span>
+      </div>
+    </div>
+  );
+}
+
+export default function RepBreakdown({ reps }: RepBreakdownProps) {
+  if (reps.length === 0) return null;
+
+  const showSide = reps.some((rep) => rep.side !== null);
+
+  return (
+    <div className="mt-4 border-4 border-black p-4 text-left text-sm !text-black space-y-3">
+      <h4 className="font-black uppercase">📈 Rep Breakdown</h4>
+      <RepChart reps={reps} />
+      <div className="overflow-x-auto max-h-64 overflow-y-auto">
+        <table className="w-full font-mono text-xs">
+          <thead>
+            <tr className="border-b-2 border-black text-left">
+              <th className="pr-2">#</th>
+              {showSide && <th className="pr-2">Side</th>}
+              <th className="pr-2">ROM</th>
+              <th className="pr-2">Peak</th>
+              <th className="pr-2">Up/Down</th>
+              <th className="pr-2">Smooth</th>
+              <th className="pr-2">Form</th>
+              <th>Faults</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reps.map((rep) => (
+              <tr key={rep.index} className="border-b border-gray-300">
+                <td className="pr-2 font-black">{rep.index}</td>
+                {showSide && (
+                  <td className="pr-2 uppercase">{rep.side ?? "-"}</td>
+                )}
+                <td className="pr-2">{rep.rangeOfMotion}°</td>
+                <td className="pr-2">
+                  {rep.minAngle}°–{rep.maxAngle}°
+                </td>
+                <td className="pr-2">
+                  {toSeconds(rep.concentricDuration)}/
+                  {toSeconds(rep.eccentricDuration)}s
+                </td>
+                <td className="pr-2">
+                  {rep.smoothness === null ? "-" : `${rep.smoothness}`}
+                </td>
+                <td
+                  className="pr-2 font-black"
+                  style={{ color: formColor(rep.formAccuracy) }}
+                >
+                  {rep.formAccuracy}%
+                </td>
+                <td className={rep.faults.length ? "text-red-600" : ""}>
+                  {rep.faults.length
+                    ? rep.faults.map((f) => REP_FAULT_LABELS[f]).join(", ")
+                    : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import React from "react";
+import type { ExerciseDefinition } from "../lib/exercises";
+import type {
+  SetupCheckActions,
+  SetupCheckState,
+} from "../hooks/useSetupCheck";
+
+interface SetupWizardProps {
+  exercise: ExerciseDefinition;
+  setup: SetupCheckState;
+  actions: SetupCheckActions;
+  disabled?: boolean;
+  // Randomized hand-raise prompts during the session
+  livenessPrompts: boolean;
+  onLivenessPromptsChange: (enabled: boolean) => void;
+}
+
+export default function SetupWizard({
+  exercise,
+  setup,
+  actions,
+  disabled = false,
+  livenessPrompts,
+  onLivenessPromptsChange,
+}: SetupWizardProps) {
+  const { isChecking, results, passed, error } = setup;
+
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        📐 Camera Setup
+      </h3>
+
+      <div className="space-y-3 text-sm text-black">
+        {!isChecking && !passed && (
+          <p className="font-bold text-gray-700 text-center">
+            Get into your {exercise.name.toLowerCase()} starting position and
+            run the check before starting
+          </p>
+        )}
+
+        {isChecking && results.length === 0 && (
+          <p className="font-bold text-center">Starting camera...</p>
+        )}
+
+        {results.length > 0 && (
+          <ul className="font-mono space-y-2">
+            {results.map((check) => (
+              <li key={check.id}>
+                <div className="flex justify-between">
+                  <span>{check.label}:</span>
+                  <span className="font-black">
+                    {check.passed ? "✅" : "❌"}
+                  </span>
+                </div>
+                {check.fix && (
+                  <div className="text-xs font-bold text-red-600">
+                    {check.fix}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {passed && (
+          <p className="font-black text-green-700 text-center">
+            Setup looks good. Press start!
+          </p>
+        )}
+
+        <label className="flex justify-between items-center font-mono">
+          <span>Random hand-raise prompts:</span>
+          <input
+            type="checkbox"
+            checked={livenessPrompts}
+            onChange={(e) => onLivenessPromptsChange(e.target.checked)}
+            disabled={disabled || isChecking}
+            className="w-5 h-5"
+          />
+        </label>
+
+        {isChecking ? (
+          <button
+            onClick={actions.cancel}
+            className="w-full abs-btn-primary bg-gray-600 text-white py-2 text-sm"
+          >
+            CANCEL
+          </button>
+        ) : (
+          <button
+            onClick={actions.start}
+            disabled={disabled}
+            className="w-full abs-btn-primary bg-purple-600 text-white py-2 text-sm disabled:opacity-50"
+          >
+            {passed ? "CHECK AGAIN" : "RUN SETUP CHECK"}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm font-bold text-red-600 text-center">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
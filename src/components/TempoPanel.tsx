@@ -0,0 +1,116 @@
+"use client";
+
+import React from "react";
+import {
+  TEMPO_PRESETS,
+  formatTempo,
+  type TempoSettings,
+  type TempoTarget,
+} from "../lib/tempo";
+
+interface TempoPanelProps {
+  settings: TempoSettings;
+  onChange: (settings: TempoSettings) => void;
+  disabled?: boolean;
+}
+
+const PHASE_INPUTS: { key: keyof TempoTarget; label: string }[] = [
+  { key: "up", label: "Up" },
+  { key: "hold", label: "Hold" },
+  { key: "down", label: "Down" },
+  { key: "rest", label: "Rest" },
+];
+
+export default function TempoPanel({
+  settings,
+  onChange,
+  disabled = false,
+}: TempoPanelProps) {
+  const { target } = settings;
+  const presetId =
+    TEMPO_PRESETS.find((p) => formatTempo(p.target) === formatTempo(target))
+      ?.id ?? "";
+
+  const setPhase = (key: keyof TempoTarget, value: string) => {
+    const seconds = Math.max(0, Math.min(10, Number(value) || 0));
+    onChange({ ...settings, target: { ...target, [key]: seconds } });
+  };
+
+  return (
+    <div className="abs-card-brutal p-4">
+      <h3 className="font-black uppercase text-center mb-3 text-black">
+        ⏱️ Tempo
+      </h3>
+      <div className="space-y-3 text-sm text-black font-mono">
+        <label className="flex justify-between items-center">
+          <span>Metronome mode:</span>
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) =>
+              onChange({ ...settings, enabled: e.target.checked })
+            }
+            disabled={disabled}
+            className="w-5 h-5"
+          />
+        </label>
+
+        {settings.enabled && (
+          <>
+            <select
+              value={presetId}
+              onChange={(e) => {
+                const preset = TEMPO_PRESETS.find(
+                  (p) => p.id === e.target.value,
+                );
+                if (preset) onChange({ ...settings, target: preset.target });
+              }}
+              disabled={disabled}
+              className="w-full border-2 border-black px-1 py-1 bg-white"
+            >
+              <option value="" disabled>
+                Custom {formatTempo(target)}
+              </option>
+              {TEMPO_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+
+            <div className="grid grid-cols-4 gap-2">
+              {PHASE_INPUTS.map(({ key, label }) => (
+                <label key={key} className="text-center">
+                  <span className="block text-xs font-bold">{label} (s)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.5}
+                    value={target[key]}
+                    onChange={(e) => setPhase(key, e.target.value)}
+                    disabled={disabled}
+                    className="w-full border-2 border-black px-1 py-1 bg-white text-center"
+                  />
+                </label>
+              ))}
+            </div>
+
+            <label className="flex justify-between items-center">
+              <span>Audio ticks:</span>
+              <input
+                type="checkbox"
+                checked={settings.sound}
+                onChange={(e) =>
+                  onChange({ ...settings, sound: e.target.checked })
+                }
+                disabled={disabled}
+                className="w-5 h-5"
+              />
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { EXERCISE_LIST, getExercise, type ExerciseId } from "../lib/exercises";
+import { CONTRACT_CONFIG } from "../lib/contractIntegration";
+import {
+  SUBMISSION_STATUS_LABELS,
+  type HistoryItem,
+} from "../lib/workout-history";
+import { useWallet } from "../contexts/WalletContext";
+import { useWorkoutHistory } from "../hooks/useWorkoutHistory";
+import { downloadFile, fitFileName } from "../lib/history-export";
+import { exportSessionFit } from "../lib/fit-activity";
+import WorkoutSummary from "./WorkoutSummary";
+import HistoryExport from "./HistoryExport";
+
+type StatusFilter = "all" | "on-chain" | "local";
+
+const STATUS_FILTER_LABELS: Record<StatusFilter, string> = {
+  all: "All sessions",
+  "on-chain": "On-chain",
+  local: "Not on-chain",
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// On-chain sessions are matched to local ones; sessions only found on-chain
+// have no exercise or per-rep data
+const statusOf = (item: HistoryItem) => {
+  if (item.onChain) {
+    return item.local
+      ? { label: "On-chain", className: "bg-green-500" }
+      : { label: "On-chain only", className: "bg-blue-500" };
+  }
+  const status = item.local?.submission.status ?? "unsubmitted";
+  return {
+    label: SUBMISSION_STATUS_LABELS[status],
+    className: status === "failed" ? "bg-red-500" : "bg-gray-400",
+  };
+};
+
+export default function WorkoutHistory() {
+  const { address: walletAddress } = useWallet();
+  const [history, actions] = useWorkoutHistory(walletAddress);
+  const [exerciseFilter, setExerciseFilter] = useState<ExerciseId | "all">(
+    "all",
+  );
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const items = useMemo(
+    () =>
+      history.items.filter(
+        (item) =>
+          (exerciseFilter === "all" || item.exerciseId === exerciseFilter) &&
+          (statusFilter === "all" ||
+            (statusFilter === "on-chain") === (item.onChain !== null)),
+      ),
+    [history.items, exerciseFilter, statusFilter],
+  );
+
+  const handleDelete = (item: HistoryItem) => {
+    if (!item.local) return;
+    const message = item.onChain
+      ? "Delete the local copy? The on-chain record stays."
+      : "Delete this session? It was never submitted and cannot be recovered.";
+    if (window.confirm(message)) actions.remove(item.local.id);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-4">
+      <div className="abs-card-brutal p-4">
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-xl font-black uppercase text-black">
+            📚 Workout History
+          </h2>
+          <button
+            onClick={actions.refresh}
+            disabled={history.isLoading}
+            className="abs-btn-primary text-sm px-3 py-1"
+          >
+            {history.isLoading ? "LOADING..." : "🔄 REFRESH"}
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm font-mono text-black">
+          <select
+            value={exerciseFilter}
+            onChange={(e) =>
+              setExerciseFilter(e.target.value as ExerciseId | "all")
+            }
+            className="border-2 border-black px-1 py-1 bg-white"
+          >
+            <option value="all">All exercises</option>
+            {EXERCISE_LIST.map((exercise) => (
+              <option key={exercise.id} value={exercise.id}>
+                {exercise.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="border-2 border-black px-1 py-1 bg-white"
+          >
+            {(Object.keys(STATUS_FILTER_LABELS) as StatusFilter[]).map(
+              (filter) => (
+                <option key={filter} value={filter}>
+                  {STATUS_FILTER_LABELS[filter]}
+                </option>
+              ),
+            )}
+          </select>
+        </div>
+        <p className="text-xs font-mono text-gray-700 mt-2">
+          Sessions are saved in this browser
+          {history.includesChain
+            ? " and merged with your wallet's on-chain sessions"
+            : walletAddress
+              ? "; on-chain sessions could not be loaded"
+              : "; connect a wallet to include on-chain sessions"}
+        </p>
+        {history.error && (
+          <p className="text-xs font-bold text-red-700 mt-2">{history.error}</p>
+        )}
+        <HistoryExport
+          entries={items.flatMap((item) => (item.local ? [item.local] : []))}
+        />
+      </div>
+
+      {!history.isLoading && items.length === 0 && (
+        <div className="abs-card-brutal p-6 text-center font-bold text-black">
+          No sessions yet
+        </div>
+      )}
+
+      {items.map((item) => {
+        const status = statusOf(item);
+        const local = item.local;
+        const txHash = local?.submission.txHash;
+        const isExpanded = expanded === item.key;
+        return (
+          <div key={item.key} className="abs-card-brutal p-4 text-black">
+            <div className="flex flex-wrap justify-between items-start gap-2">
+              <div>
+                <div className="font-black uppercase">
+                  {item.exerciseId
+                    ? (local?.stats.program?.name ??
+                      getExercise(item.exerciseId).name)
+                    : "On-chain session"}
+                </div>
+                <div className="text-xs font-mono">
+                  {formatDate(item.timestamp)}
+                  {local?.stats.source && " · recorded footage"}
+                </div>
+              </div>
+              <span
+                className={`${status.className} text-white text-xs font-black uppercase px-2 py-1 border-2 border-black`}
+              >
+                {status.label}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2 mt-3 text-center font-mono text-sm">
+              <div>
+                <div className="font-black text-lg">{item.reps}</div>
+                <div className="text-xs">Reps</div>
+              </div>
+              <div>
+                <div className="font-black text-lg">{item.formAccuracy}%</div>
+                <div className="text-xs">Form</div>
+              </div>
+              <div>
+                <div className="font-black text-lg">{item.streak}</div>
+                <div className="text-xs">Streak</div>
+              </div>
+              <div>
+                <div className="font-black text-lg">{item.duration}s</div>
+                <div className="text-xs">Duration</div>
+              </div>
+            </div>
+
+            {local?.weather && (
+              <p className="text-xs font-mono mt-2">
+                🌤️ {local.weather.location}: {local.weather.temperature}°C,{" "}
+                {local.weather.condition}
+                {local.weather.bonus > 0 && ` · +${local.weather.bonus}% bonus`}
+              </p>
+            )}
+            {txHash && (
+              <a
+                href={`${CONTRACT_CONFIG.explorerUrl}/tx/${txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-xs font-mono text-blue-700 underline mt-1 break-all"
+              >
+                {txHash}
+              </a>
+            )}
+
+            {local && (
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : item.key)}
+                  className="flex-1 abs-btn-primary text-xs py-1"
+                >
+                  {isExpanded ? "HIDE DETAILS" : "DETAILS"}
+                </button>
+                <button
+                  onClick={() =>
+                    downloadFile(
+                      fitFileName(local),
+                      exportSessionFit(local),
+                      "application/vnd.ant.fit",
+                    )
+                  }
+                  className="abs-btn-primary text-xs py-1 px-3"
+                >
+                  ⌚ FIT
+                </button>
+                <button
+                  onClick={() => handleDelete(item)}
+                  className="abs-btn-stop text-xs py-1 px-3"
+                >
+                  🗑️ DELETE
+                </button>
+              </div>
+            )}
+            {local && isExpanded && (
+              <div className="mt-3">
+                <WorkoutSummary
+                  sessionStats={local.stats}
+                  enhancedFormScore={null}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
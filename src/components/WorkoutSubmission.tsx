@@ -12,14 +12,10 @@ import { ENSDisplay } from "./ENSDisplay";
 import NetworkCheck from "./NetworkCheck";
 import { useWallet } from "../contexts/WalletContext";
 import { CONTRACT_CONFIG } from "../lib/contractIntegration";
+import { toSubmissionData, type SessionStats } from "../lib/workout-session";
 
 interface WorkoutSubmissionProps {
-  sessionStats: {
-    totalReps: number;
-    averageFormAccuracy: number;
-    bestStreak: number;
-    duration: number;
-  };
+  sessionStats: SessionStats;
   isConnected: boolean;
   walletAddress?: string;
   onSubmissionComplete?: (success: boolean, txHash?: string) => void;
@@ -56,6 +52,16 @@ export default function WorkoutSubmission({
 
   const [showDetails, setShowDetails] = useState(false);
   const [txHash, setTxHash] = useState<string>("");
+  // Spoofed sessions cannot be submitted; suspicious ones need confirming
+  const liveness = sessionStats.liveness;
+  const livenessBlocked = liveness?.verdict === "spoof";
+  const [livenessConfirmed, setLivenessConfirmed] = useState(false);
+  const livenessPending =
+    liveness?.verdict === "suspicious" && !livenessConfirmed;
+  // Counting that resumed on someone else needs confirming the same way
+  const athleteSwitches = sessionStats.athleteSwitches ?? 0;
+  const [athleteConfirmed, setAthleteConfirmed] = useState(false);
+  const athletePending = athleteSwitches > 0 && !athleteConfirmed;
   const [lastSubmissionResult, setLastSubmissionResult] = useState<{
     success: boolean;
     message: string;
@@ -80,6 +86,8 @@ export default function WorkoutSubmission({
 
       await imperfectAbsContract.initialize(provider);
 
+      const submission = toSubmissionData(sessionStats);
+
       // Get contract config and user status
       const [userScore, cooldownCheck, estimatedScore] = await Promise.all([
         walletAddress ? imperfectAbsContract.getUserScore(walletAddress) : null,
@@ -87,9 +95,9 @@ export default function WorkoutSubmission({
           ? imperfectAbsContract.checkCooldown(walletAddress)
           : { canSubmit: true, remainingTime: 0 },
         imperfectAbsContract.calculateScore(
-          sessionStats.totalReps,
-          sessionStats.averageFormAccuracy,
-          sessionStats.bestStreak
+          submission.reps,
+          submission.formAccuracy,
+          submission.streak
         ),
       ]);
 
@@ -135,16 +143,12 @@ export default function WorkoutSubmission({
 
   const handleSubmission = async () => {
     if (!isConnected || !walletAddress || state.isSubmitting) return;
+    if (livenessBlocked || livenessPending || athletePending) return;
 
     setState((prev) => ({ ...prev, isSubmitting: true }));
     setLastSubmissionResult(null);
 
-    const submissionData: SubmissionData = {
-      reps: sessionStats.totalReps,
-      formAccuracy: sessionStats.averageFormAccuracy,
-      streak: sessionStats.bestStreak,
-      duration: sessionStats.duration,
-    };
+    const submissionData: SubmissionData = toSubmissionData(sessionStats);
 
     try {
       const result = await imperfectAbsContract.submitWorkoutSession(
@@ -212,6 +216,7 @@ export default function WorkoutSubmission({
 
   const getSubmissionButtonText = (): string => {
     if (state.isSubmitting) return "SUBMITTING...";
+    if (livenessBlocked) return "LIVENESS CHECK FAILED";
     if (state.cooldownRemaining > 0)
       return `COOLDOWN ${formatCooldownTime(state.cooldownRemaining)}`;
     if (!isConnected) return "CONNECT WALLET";
@@ -227,6 +232,8 @@ export default function WorkoutSubmission({
       return `${baseClass} bg-purple-600 text-white border-purple-800`;
     if (!isCorrectNetwork)
       return `${baseClass} bg-gray-500 text-white cursor-not-allowed border-gray-700`;
+    if (livenessBlocked || livenessPending || athletePending)
+      return `${baseClass} bg-red-600 text-white cursor-not-allowed border-red-800`;
     if (state.isSubmitting)
       return `${baseClass} bg-blue-500 text-white cursor-not-allowed border-blue-700`;
     if (state.cooldownRemaining > 0)
@@ -331,11 +338,78 @@ export default function WorkoutSubmission({
         </div>
       )}
 
+      {/* Liveness Verdict */}
+      {liveness && liveness.verdict !== "live" && (
+        <div
+          className={`p-4 border-2 rounded ${
+            livenessBlocked
+              ? "bg-red-50 border-red-500"
+              : "bg-yellow-50 border-yellow-500"
+          }`}
+        >
+          <div
+            className={`font-black mb-2 ${
+              livenessBlocked ? "text-red-700" : "text-yellow-800"
+            }`}
+          >
+            {livenessBlocked
+              ? "🚫 This session looks replayed or staged"
+              : "⚠️ This session could not be fully verified"}
+          </div>
+          <ul className="text-sm text-gray-800 list-disc list-inside">
+            {liveness.reasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+          {livenessBlocked ? (
+            <p className="text-xs font-bold text-red-700 mt-2">
+              Only workouts performed live in front of the camera can be
+              submitted.
+            </p>
+          ) : (
+            <label className="flex items-center gap-2 mt-3 text-sm font-bold text-gray-900">
+              <input
+                type="checkbox"
+                checked={livenessConfirmed}
+                onChange={(e) => setLivenessConfirmed(e.target.checked)}
+                className="w-4 h-4"
+              />
+              I performed this workout live and want to submit it anyway
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Athlete Switches */}
+      {athleteSwitches > 0 && (
+        <div className="p-4 border-2 rounded bg-yellow-50 border-yellow-500">
+          <div className="font-black mb-2 text-yellow-800">
+            ⚠️ Tracking may have switched to someone else
+          </div>
+          <p className="text-sm text-gray-800">
+            Counting resumed {athleteSwitches}× on a person who only roughly
+            matched you, after tracking jumped away. Their reps may be included.
+          </p>
+          <label className="flex items-center gap-2 mt-3 text-sm font-bold text-gray-900">
+            <input
+              type="checkbox"
+              checked={athleteConfirmed}
+              onChange={(e) => setAthleteConfirmed(e.target.checked)}
+              className="w-4 h-4"
+            />
+            Every counted rep was mine and I want to submit it anyway
+          </label>
+        </div>
+      )}
+
       {/* Submission Button */}
       <button
         onClick={handleSubmission}
         disabled={
           state.isSubmitting ||
+          livenessBlocked ||
+          livenessPending ||
+          athletePending ||
           state.cooldownRemaining > 0 ||
           !isConnected ||
           chainId !== CONTRACT_CONFIG.chainId
@@ -1,13 +1,18 @@
 "use client";
 
 import React from "react";
-
-interface SessionStats {
-  totalReps: number;
-  averageFormAccuracy: number;
-  duration: number;
-  bestStreak: number;
-}
+import { getExercise } from "../lib/exercises";
+import {
+  HOLD_SECONDS_PER_REP,
+  toSubmissionData,
+  totalPausedTime,
+  type SessionStats,
+} from "../lib/workout-session";
+import { MODEL_COMPLEXITY_LABELS } from "../lib/inference-governor";
+import { formatTempo } from "../lib/tempo";
+import RepBreakdown from "./RepBreakdown";
+import FatigueCurve from "./FatigueCurve";
+import ProgramBreakdown from "./ProgramBreakdown";
 
 interface WorkoutSummaryProps {
   sessionStats: SessionStats;
@@ -20,24 +25,56 @@ export default function WorkoutSummary({
   enhancedFormScore,
   aiAdvice,
 }: WorkoutSummaryProps) {
+  const exercise = getExercise(sessionStats.exerciseId);
+  const hold = exercise.mode === "hold" ? sessionStats.hold : undefined;
+  const toSeconds = (ms: number) => Math.round(ms / 1000);
+  const inference = sessionStats.inference;
+  const tempo = sessionStats.tempo;
+  // Sessions saved before per-side rotation was recorded only have counts
+  const formatSide = (reps: number, rotation: number | null | undefined) =>
+    rotation == null ? `${reps}` : `${reps} (${rotation}° avg peak)`;
+  const averagePhase = (phase: "up" | "hold" | "down") =>
+    tempo
+      ? (
+          tempo.reps.reduce((sum, rep) => sum + rep[phase], 0) /
+          tempo.reps.length
+        ).toFixed(1)
+      : "0";
+
   return (
     <div className="abs-card-brutal !bg-white !text-black p-6 text-center border-8 border-black">
       <h3 className="text-2xl font-black uppercase mb-4 !text-black">
         🏆 Session Complete
       </h3>
+      <p className="text-sm font-mono uppercase font-bold mb-4 !text-black">
+        {exercise.name}
+        {sessionStats.source &&
+          ` · ${sessionStats.source === "video-file" ? "video clip" : "image sequence"}`}
+      </p>
+      {sessionStats.source && (
+        <p className="text-xs font-bold text-gray-700 mb-4">
+          Analysed from recorded footage; not eligible for on-chain submission
+        </p>
+      )}
       <div className="grid grid-cols-2 gap-4">
         <div className="abs-card-brutal !bg-blue-600 !text-white p-4 !border-black border-4">
           <div className="text-3xl font-black !text-white">
-            {sessionStats.totalReps}
+            {exercise.mode === "hold"
+              ? `${sessionStats.holdTime}s`
+              : sessionStats.totalReps}
+          </div>
+          <div className="text-sm font-mono uppercase !text-white">
+            {exercise.mode === "hold" ? "Hold Time" : "Reps"}
           </div>
-          <div className="text-sm font-mono uppercase !text-white">Reps</div>
         </div>
         <div className="abs-card-brutal !bg-orange-500 !text-white p-4 !border-black border-4">
           <div className="text-3xl font-black !text-white">
-            {sessionStats.bestStreak}
+            {hold
+              ? `${toSeconds(hold.longestSegment)}s`
+              : sessionStats.bestStreak}
           </div>
           <div className="text-sm font-mono uppercase !text-white">
-            Best Streak
+            {hold ? "Longest Hold" : "Best Streak"}
           </div>
         </div>
         <div className="abs-card-brutal !bg-green-500 !text-white p-4 !border-black border-4">
@@ -45,7 +82,7 @@ export default function WorkoutSummary({
             {sessionStats.averageFormAccuracy}%
           </div>
           <div className="text-sm font-mono uppercase !text-white">
-            Avg Form
+            {hold ? "Alignment" : "Avg Form"}
           </div>
         </div>
         <div className="abs-card-brutal !bg-black !text-white p-4 !border-white border-4">
@@ -56,8 +93,123 @@ export default function WorkoutSummary({
             Duration
           </div>
         </div>
+        {tempo && (
+          <div className="col-span-2 abs-card-brutal !bg-purple-600 !text-white p-4 !border-black border-4">
+            <div className="text-3xl font-black !text-white">
+              {tempo.adherence}%
+            </div>
+            <div className="text-sm font-mono uppercase !text-white">
+              Tempo {formatTempo(tempo.target)} · avg {averagePhase("up")}-
+              {averagePhase("hold")}-{averagePhase("down")}s
+            </div>
+          </div>
+        )}
       </div>
 
+      {hold && (
+        <div className="mt-4 border-4 border-black p-4 text-left text-sm font-mono !text-black space-y-1">
+          <div className="flex justify-between">
+            <span>Hold segments:</span>
+            <span className="font-black">{hold.segments.length}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Hips sagging:</span>
+            <span className="font-black">{toSeconds(hold.sagTime)}s</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Hips piking:</span>
+            <span className="font-black">{toSeconds(hold.pikeTime)}s</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Submits as:</span>
+            <span className="font-black">
+              {toSubmissionData(sessionStats).reps} reps (1 per{" "}
+              {HOLD_SECONDS_PER_REP}s)
+            </span>
+          </div>
+        </div>
+      )}
+
+      {sessionStats.rotation && (
+        <div className="mt-4 border-4 border-black p-4 text-left text-sm font-mono !text-black space-y-1">
+          <div className="flex justify-between">
+            <span>Left side:</span>
+            <span className="font-black">
+              {formatSide(
+                sessionStats.rotation.leftReps,
+                sessionStats.rotation.leftRotation,
+              )}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Right side:</span>
+            <span className="font-black">
+              {formatSide(
+                sessionStats.rotation.rightReps,
+                sessionStats.rotation.rightRotation,
+              )}
+            </span>
+          </div>
+          {sessionStats.rotation.asymmetry != null && (
+            <div className="flex justify-between">
+              <span>Rotation asymmetry:</span>
+              <span
+                className={`font-black ${
+                  sessionStats.rotation.asymmetry > 20
+                    ? "text-red-600"
+                    : "text-green-700"
+                }`}
+              >
+                {sessionStats.rotation.asymmetry}%
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {sessionStats.program && (
+        <ProgramBreakdown program={sessionStats.program} />
+      )}
+
+      {sessionStats.repEvents && <RepBreakdown reps={sessionStats.repEvents} />}
+
+      {sessionStats.fatigue && <FatigueCurve fatigue={sessionStats.fatigue} />}
+
+      {(sessionStats.trackingLostTime ?? 0) > 0 && (
+        <p className="mt-4 text-xs font-bold text-yellow-700">
+          📍 Out of frame for {sessionStats.trackingLostTime}s; counting and the
+          timer were paused meanwhile
+        </p>
+      )}
+
+      {sessionStats.pauses && sessionStats.pauses.length > 0 && (
+        <p className="mt-4 text-xs font-bold text-gray-700">
+          ⏸️ Paused {sessionStats.pauses.length}× for{" "}
+          {totalPausedTime(sessionStats.pauses)}s (
+          {sessionStats.pauses
+            .map((pause) => `${pause.start}s–${pause.end}s`)
+            .join(", ")}
+          ); not counted in the duration
+        </p>
+      )}
+
+      {sessionStats.liveness && sessionStats.liveness.verdict !== "live" && (
+        <p className="mt-4 text-xs font-bold text-red-700">
+          🛡️ Liveness check: {sessionStats.liveness.verdict.toUpperCase()}
+          {sessionStats.liveness.reasons.length > 0 &&
+            ` · ${sessionStats.liveness.reasons.join("; ")}`}
+        </p>
+      )}
+
+      {inference && (
+        <p className="mt-4 text-xs font-mono text-gray-700">
+          Model: {MODEL_COMPLEXITY_LABELS[inference.settings.modelComplexity]} ·{" "}
+          {inference.settings.inputWidth}px · {inference.averageFps} fps
+          {inference.adjustments.length > 0 &&
+            ` (adjusted ${inference.adjustments.length}× to keep up)`}
+        </p>
+      )}
+
       {enhancedFormScore && (
         <div className="mt-6 abs-card-brutal !bg-gradient-to-r !from-purple-600 !to-pink-600 !text-white p-6 !border-black border-4 relative overflow-hidden">
           <div className="absolute top-2 right-2 text-2xl">🤖</div>
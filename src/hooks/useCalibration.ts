@@ -0,0 +1,173 @@
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+  type RefObject,
+} from "react";
+import type { Results } from "@mediapipe/pose";
+import {
+  AbsExerciseDetector,
+  createInitialExerciseState,
+} from "../lib/pose-detection";
+import { getExercise, type ExerciseId } from "../lib/exercises";
+import {
+  CalibrationRecorder,
+  clearCalibrationProfile,
+  getActiveCameraId,
+  getLastCameraId,
+  loadCalibrationProfile,
+  saveCalibrationProfile,
+  type CalibrationProfile,
+  type CalibrationProgress,
+} from "../lib/calibration";
+import { CameraFrameSource } from "../lib/frame-sources";
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  type CameraSettings,
+} from "../lib/camera-devices";
+
+export interface CalibrationState {
+  profile: CalibrationProfile | null;
+  isCalibrating: boolean;
+  progress: CalibrationProgress | null;
+  error: string | null;
+}
+
+export interface CalibrationActions {
+  start: () => Promise<void>;
+  finish: () => void;
+  cancel: () => void;
+  clear: () => void;
+}
+
+export function useCalibration(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  exerciseId: ExerciseId,
+  walletAddress?: string,
+  camera: CameraSettings = DEFAULT_CAMERA_SETTINGS,
+): [CalibrationState, CalibrationActions] {
+  const [state, setState] = useState<CalibrationState>({
+    profile: null,
+    isCalibrating: false,
+    progress: null,
+    error: null,
+  });
+  const detectorRef = useRef<AbsExerciseDetector | null>(null);
+  const recorderRef = useRef<CalibrationRecorder | null>(null);
+  const cameraIdRef = useRef<string>("default");
+
+  // Show the stored profile for the last used camera
+  useEffect(() => {
+    const cameraId = getLastCameraId();
+    cameraIdRef.current = cameraId;
+    setState((prev) => ({
+      ...prev,
+      profile: loadCalibrationProfile(walletAddress, cameraId, exerciseId),
+      error: null,
+    }));
+  }, [walletAddress, exerciseId]);
+
+  const stopCamera = useCallback(() => {
+    detectorRef.current?.stop();
+    detectorRef.current = null;
+  }, []);
+
+  const finish = useCallback(() => {
+    const recorder = recorderRef.current;
+    stopCamera();
+    recorderRef.current = null;
+    if (!recorder) return;
+
+    try {
+      const profile = recorder.buildProfile(
+        getExercise(exerciseId),
+        walletAddress || "guest",
+        cameraIdRef.current,
+      );
+      saveCalibrationProfile(profile);
+      setState({
+        profile,
+        isCalibrating: false,
+        progress: null,
+        error: null,
+      });
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        isCalibrating: false,
+        progress: null,
+        error: error instanceof Error ? error.message : "Calibration failed",
+      }));
+    }
+  }, [exerciseId, walletAddress, stopCamera]);
+
+  const finishRef = useRef(finish);
+  useEffect(() => {
+    finishRef.current = finish;
+  }, [finish]);
+
+  const start = useCallback(async () => {
+    if (!videoRef.current) return;
+
+    const detector = new AbsExerciseDetector(getExercise(exerciseId));
+    const recorder = new CalibrationRecorder();
+    detectorRef.current = detector;
+    recorderRef.current = recorder;
+    setState((prev) => ({
+      ...prev,
+      isCalibrating: true,
+      progress: recorder.getProgress(),
+      error: null,
+    }));
+
+    // Run frames through the detector so the angle is orientation-aware
+    let frameState = createInitialExerciseState();
+
+    try {
+      const source = new CameraFrameSource(videoRef.current, camera);
+      await detector.initialize(source, (results: Results) => {
+        if (!results.poseLandmarks || recorderRef.current !== recorder) return;
+        if (!detector.isValidPose(results.poseLandmarks)) return;
+
+        frameState = detector.processAbsExercise(
+          results.poseLandmarks,
+          frameState,
+        );
+        const progress = recorder.addSample(frameState.angle);
+        setState((prev) => ({ ...prev, progress }));
+
+        if (recorder.isComplete()) {
+          finishRef.current();
+        }
+      });
+      cameraIdRef.current = getActiveCameraId(videoRef.current);
+    } catch (error) {
+      console.error("Calibration camera error:", error);
+      stopCamera();
+      recorderRef.current = null;
+      setState((prev) => ({
+        ...prev,
+        isCalibrating: false,
+        progress: null,
+        error: "Failed to start camera for calibration.",
+      }));
+    }
+  }, [videoRef, exerciseId, camera, stopCamera]);
+
+  const cancel = useCallback(() => {
+    stopCamera();
+    recorderRef.current = null;
+    setState((prev) => ({ ...prev, isCalibrating: false, progress: null }));
+  }, [stopCamera]);
+
+  const clear = useCallback(() => {
+    clearCalibrationProfile(walletAddress, cameraIdRef.current, exerciseId);
+    setState((prev) => ({ ...prev, profile: null }));
+  }, [walletAddress, exerciseId]);
+
+  // Release the camera if the component unmounts mid-calibration
+  useEffect(() => stopCamera, [stopCamera]);
+
+  return [state, { start, finish, cancel, clear }];
+}
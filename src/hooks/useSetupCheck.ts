@@ -0,0 +1,156 @@
+import {
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+  type RefObject,
+} from "react";
+import type { Results } from "@mediapipe/pose";
+import {
+  AbsExerciseDetector,
+  createInitialExerciseState,
+} from "../lib/pose-detection";
+import { getExercise, type ExerciseId } from "../lib/exercises";
+import {
+  measureLighting,
+  runSetupChecks,
+  type LightingSample,
+  type SetupCheckResult,
+} from "../lib/setup-checks";
+import { CameraFrameSource } from "../lib/frame-sources";
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  type CameraSettings,
+} from "../lib/camera-devices";
+
+export interface SetupCheckState {
+  isChecking: boolean;
+  results: SetupCheckResult[];
+  // Every check has held long enough for the selected exercise
+  passed: boolean;
+  error: string | null;
+}
+
+export interface SetupCheckActions {
+  start: () => Promise<void>;
+  cancel: () => void;
+}
+
+// All checks must pass continuously for this long
+const SETUP_STABLE_MS = 1500;
+// Lighting is sampled from a small copy of the frame at this interval
+const LIGHTING_SAMPLE_MS = 500;
+const LIGHTING_SAMPLE_SIZE = { width: 64, height: 48 };
+// How often check results are pushed to React
+const RESULTS_TICK_MS = 250;
+
+export function useSetupCheck(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  exerciseId: ExerciseId,
+  camera: CameraSettings = DEFAULT_CAMERA_SETTINGS,
+): [SetupCheckState, SetupCheckActions] {
+  const [state, setState] = useState<SetupCheckState>({
+    isChecking: false,
+    results: [],
+    passed: false,
+    error: null,
+  });
+  const detectorRef = useRef<AbsExerciseDetector | null>(null);
+
+  // A new exercise has different landmark and view requirements, and a new
+  // camera or resolution a different framing (mirroring changes nothing)
+  useEffect(() => {
+    setState({ isChecking: false, results: [], passed: false, error: null });
+  }, [exerciseId, camera.deviceId, camera.resolution]);
+
+  const stopCamera = useCallback(() => {
+    detectorRef.current?.stop();
+    detectorRef.current = null;
+  }, []);
+
+  const start = useCallback(async () => {
+    if (!videoRef.current) return;
+
+    const exercise = getExercise(exerciseId);
+    const detector = new AbsExerciseDetector(exercise);
+    detectorRef.current = detector;
+    setState({ isChecking: true, results: [], passed: false, error: null });
+
+    const sampler = document.createElement("canvas");
+    sampler.width = LIGHTING_SAMPLE_SIZE.width;
+    sampler.height = LIGHTING_SAMPLE_SIZE.height;
+    const samplerCtx = sampler.getContext("2d", { willReadFrequently: true });
+
+    let frameState = createInitialExerciseState();
+    let lighting: LightingSample | null = null;
+    let lastLightingAt = 0;
+    let lastTickAt = 0;
+    let passingSince: number | null = null;
+
+    try {
+      const source = new CameraFrameSource(videoRef.current, camera);
+      await detector.initialize(source, (results: Results) => {
+        const video = videoRef.current;
+        if (detectorRef.current !== detector || !video) return;
+
+        const now = Date.now();
+        if (samplerCtx && now - lastLightingAt >= LIGHTING_SAMPLE_MS) {
+          lastLightingAt = now;
+          samplerCtx.drawImage(video, 0, 0, sampler.width, sampler.height);
+          lighting = measureLighting(
+            samplerCtx.getImageData(0, 0, sampler.width, sampler.height).data,
+          );
+        }
+
+        // Run frames through the detector so the view estimate is smoothed
+        const landmarks = results.poseLandmarks ?? null;
+        if (landmarks) {
+          frameState = detector.processAbsExercise(landmarks, frameState, now);
+        }
+
+        const checks = runSetupChecks({
+          exercise,
+          landmarks,
+          view: landmarks ? frameState.view : "unknown",
+          lighting,
+        });
+        const allPassed = checks.every((check) => check.passed);
+        passingSince = allPassed ? (passingSince ?? now) : null;
+        const passed =
+          passingSince !== null && now - passingSince >= SETUP_STABLE_MS;
+
+        if (passed) {
+          stopCamera();
+          setState({
+            isChecking: false,
+            results: checks,
+            passed: true,
+            error: null,
+          });
+        } else if (now - lastTickAt >= RESULTS_TICK_MS) {
+          lastTickAt = now;
+          setState((prev) => ({ ...prev, results: checks }));
+        }
+      });
+    } catch (error) {
+      console.error("Setup check camera error:", error);
+      stopCamera();
+      setState({
+        isChecking: false,
+        results: [],
+        passed: false,
+        error: "Failed to start camera for the setup check.",
+      });
+    }
+  }, [videoRef, exerciseId, camera, stopCamera]);
+
+  const cancel = useCallback(() => {
+    stopCamera();
+    setState((prev) => ({ ...prev, isChecking: false }));
+  }, [stopCamera]);
+
+  // Release the camera if the component unmounts mid-check
+  useEffect(() => stopCamera, [stopCamera]);
+
+  return [state, { start, cancel }];
+}
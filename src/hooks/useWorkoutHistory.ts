@@ -0,0 +1,118 @@
+import { useState, useCallback, useEffect } from "react";
+import { ethers } from "ethers";
+import {
+  imperfectAbsContract,
+  type AbsScore,
+  type WorkoutSession,
+} from "../lib/contractIntegration";
+import {
+  deleteHistoryEntry,
+  isHistorySupported,
+  listHistoryEntries,
+  mergeHistory,
+  type HistoryEntry,
+  type HistoryItem,
+} from "../lib/workout-history";
+
+export interface WorkoutHistoryState {
+  items: HistoryItem[];
+  isLoading: boolean;
+  // Whether the wallet's on-chain sessions were merged in
+  includesChain: boolean;
+  // The wallet's on-chain totals, if it has any
+  score: AbsScore | null;
+  error: string | null;
+}
+
+export interface WorkoutHistoryActions {
+  refresh: () => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// The wallet's sessions and totals, read through the injected provider; null
+// when there is no wallet or the contract cannot be reached
+async function loadOnChain(
+  walletAddress: string,
+): Promise<{ sessions: WorkoutSession[]; score: AbsScore | null } | null> {
+  if (!window.ethereum) return null;
+  try {
+    const provider = new ethers.providers.Web3Provider(window.ethereum, "any");
+    await imperfectAbsContract.initialize(provider);
+    const [sessions, score] = await Promise.all([
+      imperfectAbsContract.getUserSessions(walletAddress),
+      imperfectAbsContract.getUserScore(walletAddress),
+    ]);
+    return { sessions, score };
+  } catch (error) {
+    console.warn("Could not load on-chain sessions:", error);
+    return null;
+  }
+}
+
+// Local sessions merged with the connected wallet's on-chain sessions
+export function useWorkoutHistory(
+  walletAddress?: string,
+): [WorkoutHistoryState, WorkoutHistoryActions] {
+  const [state, setState] = useState<WorkoutHistoryState>({
+    items: [],
+    isLoading: true,
+    includesChain: false,
+    score: null,
+    error: null,
+  });
+
+  const refresh = useCallback(async () => {
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    let local: HistoryEntry[] = [];
+    let error: string | null = null;
+    if (isHistorySupported()) {
+      try {
+        local = await listHistoryEntries();
+      } catch (err) {
+        console.warn("Could not read workout history:", err);
+        error = "Could not read the local workout history.";
+      }
+    } else {
+      error = "This browser cannot store a local workout history.";
+    }
+
+    const onChain = walletAddress ? await loadOnChain(walletAddress) : null;
+
+    setState({
+      items: mergeHistory(
+        local,
+        onChain?.sessions ?? [],
+        walletAddress ?? null,
+      ),
+      isLoading: false,
+      includesChain: onChain !== null,
+      score: onChain?.score ?? null,
+      error,
+    });
+  }, [walletAddress]);
+
+  // On-chain sessions stay; only the local copy is removed
+  const remove = useCallback(
+    async (id: string) => {
+      try {
+        await deleteHistoryEntry(id);
+      } catch (err) {
+        console.warn("Could not delete history entry:", err);
+        setState((prev) => ({
+          ...prev,
+          error: "Could not delete the entry.",
+        }));
+        return;
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return [state, { refresh, remove }];
+}
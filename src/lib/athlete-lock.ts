@@ -0,0 +1,305 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import { POSE_LANDMARKS } from "./pose-landmarks";
+
+// Whether the skeleton being tracked is the athlete the session started with
+export type AthleteLockStatus = "enrolling" | "athlete" | "other";
+
+export interface AthleteLockConfig {
+  // Valid frames used to learn the athlete's proportions
+  enrolFrames: number;
+  // Consecutive frames further apart than this are not compared directly
+  maxFrameGapMs: number;
+  // Largest torso-centre move between consecutive frames, in torso lengths
+  maxCenterJump: number;
+  // Largest relative torso-length change between consecutive frames
+  maxScaleJump: number;
+  // Largest mean relative change of limb proportions between frames
+  maxProportionJump: number;
+  // How far limb proportions may differ from the athlete's to reacquire
+  proportionTolerance: number;
+  // How far from where the athlete was last seen a skeleton may reappear,
+  // in torso lengths, growing with the time the athlete was away
+  reacquireRadius: number;
+  reacquireRadiusPerSecond: number;
+  // The athlete must match for this long before counting resumes
+  reacquireMs: number;
+  // A single skeleton followed without a hop for this long while counting
+  // is locked out is taken back as the athlete, wherever it is, if its limb
+  // proportions are within the wider `reenrolTolerance` of theirs. One false
+  // hop then cannot stop counting for the rest of the session, while a
+  // bystander who stays in frame is still rejected.
+  reenrolAfterMs: number;
+  reenrolTolerance: number;
+}
+
+export const DEFAULT_ATHLETE_LOCK: AthleteLockConfig = {
+  enrolFrames: 10,
+  maxFrameGapMs: 250,
+  maxCenterJump: 0.5,
+  maxScaleJump: 0.35,
+  maxProportionJump: 0.35,
+  proportionTolerance: 0.3,
+  reacquireRadius: 1.5,
+  reacquireRadiusPerSecond: 1,
+  reacquireMs: 500,
+  reenrolAfterMs: 5000,
+  reenrolTolerance: 0.45,
+};
+
+interface BodyMeasure {
+  center: { x: number; y: number };
+  torsoLength: number;
+  // Limb lengths over torso length (NaN where the limb is hidden)
+  proportions: number[];
+}
+
+const { LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP } = POSE_LANDMARKS;
+
+// Upper arm, forearm, thigh and shin on each side
+const LIMBS: [number, number][][] = [
+  [
+    [POSE_LANDMARKS.LEFT_SHOULDER, POSE_LANDMARKS.LEFT_ELBOW],
+    [POSE_LANDMARKS.RIGHT_SHOULDER, POSE_LANDMARKS.RIGHT_ELBOW],
+  ],
+  [
+    [POSE_LANDMARKS.LEFT_ELBOW, POSE_LANDMARKS.LEFT_WRIST],
+    [POSE_LANDMARKS.RIGHT_ELBOW, POSE_LANDMARKS.RIGHT_WRIST],
+  ],
+  [
+    [POSE_LANDMARKS.LEFT_HIP, POSE_LANDMARKS.LEFT_KNEE],
+    [POSE_LANDMARKS.RIGHT_HIP, POSE_LANDMARKS.RIGHT_KNEE],
+  ],
+  [
+    [POSE_LANDMARKS.LEFT_KNEE, POSE_LANDMARKS.LEFT_ANKLE],
+    [POSE_LANDMARKS.RIGHT_KNEE, POSE_LANDMARKS.RIGHT_ANKLE],
+  ],
+];
+
+const MIN_VISIBILITY = 0.5;
+
+const median = (values: number[]) => {
+  const sorted = values.filter((v) => !Number.isNaN(v)).sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : NaN;
+};
+
+// Mean relative difference over the limbs visible in both
+const proportionDifference = (a: number[], b: number[]): number => {
+  const diffs = a
+    .map((value, i) => Math.abs(value - b[i]) / Math.max(value, b[i]))
+    .filter((d) => !Number.isNaN(d));
+  return diffs.length > 0
+    ? diffs.reduce((sum, d) => sum + d, 0) / diffs.length
+    : 0;
+};
+
+// Torso box and proportions in aspect-corrected coordinates (x scaled by
+// `xScale`). Foreshortening only ever shortens a limb, so each limb takes the
+// longer of its two sides.
+function measureBody(
+  landmarks: PoseLandmark[],
+  xScale: number,
+): BodyMeasure | null {
+  const point = (index: number) => {
+    const landmark = landmarks[index];
+    return landmark && landmark.visibility > MIN_VISIBILITY
+      ? { x: landmark.x * xScale, y: landmark.y }
+      : null;
+  };
+  const average = (indices: number[]) => {
+    const points = indices.map(point).filter((p) => p !== null);
+    if (points.length === 0) return null;
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    };
+  };
+
+  const shoulders = average([LEFT_SHOULDER, RIGHT_SHOULDER]);
+  const hips = average([LEFT_HIP, RIGHT_HIP]);
+  if (!shoulders || !hips) return null;
+  const torsoLength = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y);
+  if (torsoLength === 0) return null;
+
+  const proportions = LIMBS.map((sides) => {
+    const lengths = sides.map(([from, to]) => {
+      const a = point(from);
+      const b = point(to);
+      return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : NaN;
+    });
+    const visible = lengths.filter((length) => !Number.isNaN(length));
+    return visible.length > 0 ? Math.max(...visible) / torsoLength : NaN;
+  });
+
+  return {
+    center: { x: (shoulders.x + hips.x) / 2, y: (shoulders.y + hips.y) / 2 },
+    torsoLength,
+    proportions,
+  };
+}
+
+// Keeps counting on the person the session started with. MediaPipe Pose
+// follows a single skeleton and can hop to a bystander between frames; such
+// a hop shows up as a jump in torso position, size or limb proportions that
+// no body makes in one frame. After a hop, frames are rejected until a
+// skeleton with the athlete's proportions is back near where they were, or
+// a skeleton roughly matching them has been followed steadily for long
+// enough. The latter is counted as a switch, since it may be someone else.
+export class AthleteLock {
+  private config: AthleteLockConfig;
+  private status: AthleteLockStatus = "enrolling";
+  private enrolment: BodyMeasure[] = [];
+  private profile: number[] = [];
+  private previous: BodyMeasure | null = null;
+  private previousAt: number | null = null;
+  // Where and when the athlete was last seen
+  private lastAthlete: BodyMeasure | null = null;
+  private lastAthleteAt: number | null = null;
+  private matchingSince: number | null = null;
+  private steadySince: number | null = null;
+  private switches = 0;
+
+  constructor(config: AthleteLockConfig = DEFAULT_ATHLETE_LOCK) {
+    this.config = config;
+  }
+
+  // Classify a frame whose required landmarks are visible
+  public update(
+    landmarks: PoseLandmark[],
+    timestamp: number,
+    xScale = 1,
+  ): AthleteLockStatus {
+    const body = measureBody(landmarks, xScale);
+    if (!body) return this.status;
+
+    const continuous =
+      this.previous !== null &&
+      this.previousAt !== null &&
+      timestamp - this.previousAt <= this.config.maxFrameGapMs;
+    const jumped = continuous && this.isJump(this.previous!, body);
+    this.previous = body;
+    this.previousAt = timestamp;
+
+    if (this.status === "enrolling") {
+      // Start over if the skeleton hops while the profile is being learnt
+      if (jumped) this.enrolment = [];
+      this.enrolment.push(body);
+      if (this.enrolment.length >= this.config.enrolFrames) {
+        this.profile = LIMBS.map((_, i) =>
+          median(this.enrolment.map((m) => m.proportions[i])),
+        );
+        this.enrolment = [];
+        this.status = "athlete";
+        this.seenAthlete(body, timestamp);
+      }
+      return this.status;
+    }
+
+    if (this.status === "athlete") {
+      // Frames after a gap have nothing to be compared with but the athlete
+      const lost =
+        jumped || (!continuous && !this.matchesAthlete(body, timestamp));
+      if (!lost) {
+        this.seenAthlete(body, timestamp);
+        return this.status;
+      }
+      this.status = "other";
+      this.matchingSince = null;
+      this.steadySince = timestamp;
+      return this.status;
+    }
+
+    const steady =
+      continuous &&
+      !jumped &&
+      proportionDifference(this.profile, body.proportions) <=
+        this.config.reenrolTolerance;
+    this.steadySince = steady ? (this.steadySince ?? timestamp) : null;
+    if (
+      this.steadySince !== null &&
+      timestamp - this.steadySince >= this.config.reenrolAfterMs
+    ) {
+      this.status = "athlete";
+      this.switches += 1;
+      this.matchingSince = null;
+      this.steadySince = null;
+      this.seenAthlete(body, timestamp);
+      return this.status;
+    }
+
+    if (!this.matchesAthlete(body, timestamp)) {
+      this.matchingSince = null;
+      return this.status;
+    }
+    this.matchingSince ??= timestamp;
+    if (timestamp - this.matchingSince >= this.config.reacquireMs) {
+      this.status = "athlete";
+      this.matchingSince = null;
+      this.seenAthlete(body, timestamp);
+    }
+    return this.status;
+  }
+
+  public getStatus(): AthleteLockStatus {
+    return this.status;
+  }
+
+  // Times counting resumed on a skeleton that only roughly matched the
+  // athlete, away from where they were last seen
+  public getSwitches(): number {
+    return this.switches;
+  }
+
+  public reset(): void {
+    this.status = "enrolling";
+    this.enrolment = [];
+    this.profile = [];
+    this.previous = null;
+    this.previousAt = null;
+    this.lastAthlete = null;
+    this.lastAthleteAt = null;
+    this.matchingSince = null;
+    this.steadySince = null;
+    this.switches = 0;
+  }
+
+  private seenAthlete(body: BodyMeasure, timestamp: number): void {
+    this.lastAthlete = body;
+    this.lastAthleteAt = timestamp;
+  }
+
+  private isJump(previous: BodyMeasure, body: BodyMeasure): boolean {
+    const scale = Math.max(previous.torsoLength, body.torsoLength);
+    const centerMove = Math.hypot(
+      body.center.x - previous.center.x,
+      body.center.y - previous.center.y,
+    );
+    return (
+      centerMove / scale > this.config.maxCenterJump ||
+      Math.abs(body.torsoLength - previous.torsoLength) / scale >
+        this.config.maxScaleJump ||
+      proportionDifference(previous.proportions, body.proportions) >
+        this.config.maxProportionJump
+    );
+  }
+
+  // The athlete's proportions, close to where they were last seen
+  private matchesAthlete(body: BodyMeasure, timestamp: number): boolean {
+    const last = this.lastAthlete;
+    if (!last || this.lastAthleteAt === null) return true;
+
+    const awaySeconds = (timestamp - this.lastAthleteAt) / 1000;
+    const radius =
+      (this.config.reacquireRadius +
+        this.config.reacquireRadiusPerSecond * awaySeconds) *
+      last.torsoLength;
+    const distance = Math.hypot(
+      body.center.x - last.center.x,
+      body.center.y - last.center.y,
+    );
+    return (
+      distance <= radius &&
+      proportionDifference(this.profile, body.proportions) <=
+        this.config.proportionTolerance
+    );
+  }
+}
@@ -0,0 +1,213 @@
+import type { ExerciseDefinition, ExerciseId, FormRule } from "./exercises";
+
+// Number of slow reps the user is asked to perform
+export const CALIBRATION_REPS = 3;
+// Smallest usable range of motion; anything less is treated as noise
+export const MIN_CALIBRATION_RANGE = 20;
+
+const STORAGE_PREFIX = "imperfectabs:calibration";
+const LAST_CAMERA_KEY = "imperfectabs:lastCameraId";
+
+export interface CalibrationProfile {
+  exerciseId: ExerciseId;
+  walletAddress: string;
+  cameraId: string;
+  // Observed angle extremes (5th and 95th percentile)
+  minAngle: number;
+  maxAngle: number;
+  thresholds: {
+    up: number;
+    down: number;
+  };
+  formRules: FormRule[];
+  reps: number;
+  createdAt: number;
+}
+
+export interface CalibrationProgress {
+  reps: number;
+  minAngle: number;
+  maxAngle: number;
+}
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * p))];
+
+// Records the angle stream while the user performs slow calibration reps
+export class CalibrationRecorder {
+  private samples: number[] = [];
+  private min = Infinity;
+  private max = -Infinity;
+  private reps = 0;
+  private atTop = false;
+
+  public addSample(angle: number): CalibrationProgress {
+    if (Number.isFinite(angle)) {
+      this.samples.push(angle);
+      this.min = Math.min(this.min, angle);
+      this.max = Math.max(this.max, angle);
+
+      const range = this.max - this.min;
+      if (range >= MIN_CALIBRATION_RANGE) {
+        // 30% hysteresis on the running range before a turn counts
+        if (!this.atTop && angle < this.min + range * 0.3) {
+          this.atTop = true;
+          this.reps += 1;
+        } else if (this.atTop && angle > this.max - range * 0.3) {
+          this.atTop = false;
+        }
+      }
+    }
+
+    return this.getProgress();
+  }
+
+  public getProgress(): CalibrationProgress {
+    return {
+      reps: this.reps,
+      minAngle: Number.isFinite(this.min) ? this.min : 0,
+      maxAngle: Number.isFinite(this.max) ? this.max : 0,
+    };
+  }
+
+  public isComplete(): boolean {
+    return this.reps >= CALIBRATION_REPS;
+  }
+
+  // Derive per-user thresholds and a form-accuracy band from the samples
+  public buildProfile(
+    exercise: ExerciseDefinition,
+    walletAddress: string,
+    cameraId: string,
+  ): CalibrationProfile {
+    if (exercise.mode !== "reps") {
+      throw new Error(`${exercise.name} does not support calibration`);
+    }
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const minAngle = sorted.length > 0 ? percentile(sorted, 0.05) : 0;
+    const maxAngle = sorted.length > 0 ? percentile(sorted, 0.95) : 0;
+    const range = maxAngle - minAngle;
+
+    if (this.reps < 2 || range < MIN_CALIBRATION_RANGE) {
+      throw new Error(
+        "Not enough movement recorded. Do at least 2 slow, full reps.",
+      );
+    }
+
+    const penaltyFor = (phase: FormRule["phase"]) =>
+      exercise.formRules.find((r) => r.phase === phase)?.penaltyPerDegree ?? 2;
+
+    return {
+      exerciseId: exercise.id,
+      walletAddress: walletAddress.toLowerCase(),
+      cameraId,
+      minAngle: Math.round(minAngle),
+      maxAngle: Math.round(maxAngle),
+      thresholds: {
+        up: Math.round(minAngle + range * 0.25),
+        down: Math.round(maxAngle - range * 0.25),
+      },
+      formRules: [
+        {
+          phase: "up",
+          target: Math.round(minAngle + range * 0.1),
+          tolerance: Math.round(range * 0.15),
+          penaltyPerDegree: penaltyFor("up"),
+        },
+        {
+          phase: "down",
+          target: Math.round(maxAngle - range * 0.1),
+          tolerance: Math.round(range * 0.15),
+          penaltyPerDegree: penaltyFor("down"),
+        },
+      ],
+      reps: this.reps,
+      createdAt: Date.now(),
+    };
+  }
+}
+
+// Replace the default thresholds and form rules with calibrated ones
+export function applyCalibration(
+  exercise: ExerciseDefinition,
+  profile: CalibrationProfile | null,
+): ExerciseDefinition {
+  if (
+    !profile ||
+    exercise.mode !== "reps" ||
+    profile.exerciseId !== exercise.id
+  ) {
+    return exercise;
+  }
+
+  return {
+    ...exercise,
+    thresholds: profile.thresholds,
+    formRules: profile.formRules,
+  };
+}
+
+// Device id of the camera currently streaming into the video element
+export function getActiveCameraId(video: HTMLVideoElement | null): string {
+  const stream = video?.srcObject;
+  if (stream instanceof MediaStream) {
+    const [track] = stream.getVideoTracks();
+    const deviceId = track?.getSettings().deviceId;
+    if (deviceId) return deviceId;
+  }
+  return "default";
+}
+
+const storageKey = (
+  walletAddress: string | undefined,
+  cameraId: string,
+  exerciseId: ExerciseId,
+) =>
+  `${STORAGE_PREFIX}:${(walletAddress || "guest").toLowerCase()}:${cameraId}:${exerciseId}`;
+
+export function saveCalibrationProfile(profile: CalibrationProfile): void {
+  try {
+    localStorage.setItem(
+      storageKey(profile.walletAddress, profile.cameraId, profile.exerciseId),
+      JSON.stringify(profile),
+    );
+    localStorage.setItem(LAST_CAMERA_KEY, profile.cameraId);
+  } catch (error) {
+    console.warn("Could not save calibration profile:", error);
+  }
+}
+
+export function loadCalibrationProfile(
+  walletAddress: string | undefined,
+  cameraId: string,
+  exerciseId: ExerciseId,
+): CalibrationProfile | null {
+  try {
+    const stored = localStorage.getItem(
+      storageKey(walletAddress, cameraId, exerciseId),
+    );
+    return stored ? (JSON.parse(stored) as CalibrationProfile) : null;
+  } catch (error) {
+    console.warn("Could not load calibration profile:", error);
+    return null;
+  }
+}
+
+export function clearCalibrationProfile(
+  walletAddress: string | undefined,
+  cameraId: string,
+  exerciseId: ExerciseId,
+): void {
+  localStorage.removeItem(storageKey(walletAddress, cameraId, exerciseId));
+}
+
+// Camera used for the most recent calibration, so the profile can be shown
+// before the camera is opened again
+export function getLastCameraId(): string {
+  try {
+    return localStorage.getItem(LAST_CAMERA_KEY) || "default";
+  } catch {
+    return "default";
+  }
+}
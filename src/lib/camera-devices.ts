@@ -0,0 +1,101 @@
+export type CameraResolutionId = "480p" | "720p" | "1080p";
+
+export interface CameraResolution {
+  id: CameraResolutionId;
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Requested as ideal constraints; the camera may deliver something close
+export const CAMERA_RESOLUTIONS: CameraResolution[] = [
+  { id: "480p", label: "640×480", width: 640, height: 480 },
+  { id: "720p", label: "1280×720", width: 1280, height: 720 },
+  { id: "1080p", label: "1920×1080", width: 1920, height: 1080 },
+];
+
+export type CameraFacing = "front" | "rear" | "external" | "unknown";
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+  facing: CameraFacing;
+}
+
+export interface CameraSettings {
+  // null opens the default front camera
+  deviceId: string | null;
+  resolution: CameraResolutionId;
+  // Mirrors the preview and overlay only; frames reach the model unflipped,
+  // so landmark sides and orientation-dependent angles are unaffected
+  mirrored: boolean;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: "480p",
+  mirrored: true,
+};
+
+const CAMERA_SETTINGS_KEY = "imperfectabs:cameraSettings";
+
+export function getCameraResolution(id: CameraResolutionId): CameraResolution {
+  return CAMERA_RESOLUTIONS.find((r) => r.id === id) ?? CAMERA_RESOLUTIONS[0];
+}
+
+// Best guess from the device label; browsers do not expose facing directly
+// until a stream is open
+export function guessCameraFacing(label: string): CameraFacing {
+  const text = label.toLowerCase();
+  if (/front|user|facetime|selfie/.test(text)) return "front";
+  if (/back|rear|environment/.test(text)) return "rear";
+  if (/usb|external|webcam|logitech|obs|virtual/.test(text)) return "external";
+  return "unknown";
+}
+
+// Video inputs on this device. Labels are empty until camera permission has
+// been granted, so callers should list again after the first stream opens.
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === "videoinput")
+    .map((device, i) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Camera ${i + 1}`,
+      facing: guessCameraFacing(device.label),
+    }));
+}
+
+export function getCameraConstraints(
+  settings: CameraSettings,
+): MediaTrackConstraints {
+  const { width, height } = getCameraResolution(settings.resolution);
+  return {
+    ...(settings.deviceId
+      ? { deviceId: { exact: settings.deviceId } }
+      : { facingMode: "user" }),
+    width: { ideal: width },
+    height: { ideal: height },
+  };
+}
+
+export function loadCameraSettings(): CameraSettings {
+  try {
+    const raw = localStorage.getItem(CAMERA_SETTINGS_KEY);
+    return raw
+      ? { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(raw) }
+      : DEFAULT_CAMERA_SETTINGS;
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+}
+
+export function saveCameraSettings(settings: CameraSettings): void {
+  try {
+    localStorage.setItem(CAMERA_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save camera settings:", error);
+  }
+}
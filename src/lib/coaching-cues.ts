@@ -0,0 +1,255 @@
+import type { ExerciseDefinition } from "./exercises";
+import type { ExerciseState } from "./pose-detection";
+import { FORM_FAULT_CUES } from "./form-faults";
+import { getPositioningPrompt } from "./tracking-guard";
+
+export type CueKind =
+  | "program"
+  | "tracking"
+  | "fault"
+  | "fatigue"
+  | "time"
+  | "rep"
+  | "hold"
+  | "tempo";
+
+export type CoachVerbosity = "minimal" | "normal" | "detailed";
+
+export const COACH_VERBOSITY_LABELS: Record<CoachVerbosity, string> = {
+  minimal: "Minimal (counts every 5, time)",
+  normal: "Normal (every rep, form)",
+  detailed: "Detailed (plus tempo)",
+};
+
+export interface CoachingCue {
+  kind: CueKind;
+  text: string;
+  // Higher is spoken first
+  priority: number;
+  createdAt: number;
+}
+
+export const CUE_PRIORITY: Record<CueKind, number> = {
+  program: 6,
+  tracking: 5,
+  fault: 4,
+  fatigue: 3,
+  time: 3,
+  rep: 2,
+  hold: 2,
+  tempo: 1,
+};
+
+// Cue kinds spoken at each verbosity
+const VERBOSITY_CUES: Record<CoachVerbosity, CueKind[]> = {
+  minimal: ["program", "tracking", "fatigue", "time", "rep", "hold"],
+  normal: ["program", "tracking", "fault", "fatigue", "time", "rep", "hold"],
+  detailed: [
+    "program",
+    "tracking",
+    "fault",
+    "fatigue",
+    "time",
+    "rep",
+    "hold",
+    "tempo",
+  ],
+};
+
+// What the coach compares from one tick to the next
+export interface CueSnapshot {
+  state: ExerciseState;
+  // Seconds left on the session timer, or null before it starts
+  remainingSeconds: number | null;
+  // Suggestion to end the set once quality has dropped, if any
+  fatigueWarning: string | null;
+}
+
+// Remaining-time announcements, in seconds
+const TIME_CALLOUTS = [90, 60, 30, 10];
+// Hold time announced every this many seconds
+const HOLD_CALLOUT_SECONDS = 10;
+// Reps announced every this many at minimal verbosity
+const MINIMAL_REP_STEP = 5;
+// A concentric phase slower than this gets a pace cue
+const SLOW_CONCENTRIC_MS = 3000;
+
+// Display cues are upper case; speech reads better in sentence case
+const spoken = (text: string) =>
+  text.charAt(0) + text.slice(1).toLowerCase().replace(/!$/, "");
+
+// Cues triggered by the change from `previous` to `current`. Pure, so cue
+// selection can be checked without any audio output.
+export function selectCues(
+  previous: CueSnapshot,
+  current: CueSnapshot,
+  exercise: ExerciseDefinition,
+  verbosity: CoachVerbosity,
+  now: number,
+): CoachingCue[] {
+  const cues: CoachingCue[] = [];
+  const add = (kind: CueKind, text: string) => {
+    if (VERBOSITY_CUES[verbosity].includes(kind)) {
+      cues.push({ kind, text, priority: CUE_PRIORITY[kind], createdAt: now });
+    }
+  };
+  const prev = previous.state;
+  const state = current.state;
+
+  // Out of frame or tracking someone else
+  const prompt = getPositioningPrompt(
+    exercise,
+    state.tracking,
+    state.athleteLock,
+  );
+  const previousPrompt = getPositioningPrompt(
+    exercise,
+    prev.tracking,
+    prev.athleteLock,
+  );
+  if (prompt && prompt !== previousPrompt && state.tracking !== "recovering") {
+    add("tracking", prompt);
+  }
+
+  for (const fault of state.faults) {
+    if (!prev.faults.includes(fault))
+      add("fault", spoken(FORM_FAULT_CUES[fault]));
+  }
+
+  if (exercise.mode === "hold") {
+    if (state.holdStatus !== prev.holdStatus) {
+      if (state.holdStatus === "sagging") {
+        add("fault", spoken(exercise.alignment.cues.sag));
+      } else if (state.holdStatus === "piking") {
+        add("fault", spoken(exercise.alignment.cues.pike));
+      }
+    }
+    const seconds = Math.floor(state.holdTime / 1000);
+    const previousSeconds = Math.floor(prev.holdTime / 1000);
+    if (
+      seconds > previousSeconds &&
+      seconds % HOLD_CALLOUT_SECONDS === 0 &&
+      seconds > 0
+    ) {
+      add("hold", `${seconds} seconds`);
+    }
+  } else if (state.counter > prev.counter) {
+    const step = verbosity === "minimal" ? MINIMAL_REP_STEP : 1;
+    if (state.counter % step === 0) add("rep", String(state.counter));
+  }
+
+  // Pace feedback on each newly completed rep (states from the pose worker
+  // are copies, and rep indexes restart when a program switches exercise,
+  // so reps are compared by end time)
+  const rep = state.lastRep;
+  if (rep && rep.endTime !== prev.lastRep?.endTime) {
+    if (rep.faults.includes("rushed")) {
+      add("tempo", "Slow down, control the way up");
+    } else if (rep.concentricDuration > SLOW_CONCENTRIC_MS) {
+      add("tempo", "Keep a steady pace");
+    }
+  }
+
+  if (current.fatigueWarning && !previous.fatigueWarning) {
+    add("fatigue", current.fatigueWarning);
+  }
+
+  const left = current.remainingSeconds;
+  const before = previous.remainingSeconds;
+  if (left !== null && before !== null && left < before) {
+    const callout = TIME_CALLOUTS.find((t) => left <= t && before > t);
+    if (callout !== undefined) {
+      add(
+        "time",
+        callout >= 60 && callout % 60 === 0
+          ? `${callout / 60} minute${callout === 60 ? "" : "s"} left`
+          : `${callout} seconds left`,
+      );
+    }
+  }
+
+  return cues;
+}
+
+export interface CueSchedulerConfig {
+  // Silence kept between the end of one cue and the start of the next
+  minGapMs: number;
+  // Queued cues older than this are dropped as no longer relevant
+  maxAgeMs: number;
+  // The same cue (or, for counts, the same kind) is not repeated within
+  // this long of being spoken
+  kindCooldownMs: Partial<Record<CueKind, number>>;
+}
+
+export const DEFAULT_CUE_SCHEDULER: CueSchedulerConfig = {
+  minGapMs: 400,
+  maxAgeMs: 3000,
+  kindCooldownMs: { fault: 4000, tempo: 8000, tracking: 3000 },
+};
+
+// Counts and times, where only the latest value is worth saying
+const SUPERSEDING_KINDS: CueKind[] = ["rep", "hold", "time"];
+
+// A newer count supersedes a queued one of its kind (rep 5 replaces rep 4
+// if that was never spoken); other cues, such as two faults starting on the
+// same frame, are told apart by their text. Cooldowns use the same key, so
+// one fault does not silence another.
+const cueKey = (cue: CoachingCue): string =>
+  SUPERSEDING_KINDS.includes(cue.kind) ? cue.kind : `${cue.kind}:${cue.text}`;
+
+// Orders cues by priority and spaces them out so they never overlap. Time
+// is passed in, so scheduling can be exercised without a clock or speaker.
+export class CueScheduler {
+  private config: CueSchedulerConfig;
+  private queue: CoachingCue[] = [];
+  private lastSpokenAt = new Map<string, number>();
+  private lastFinishedAt = -Infinity;
+
+  constructor(config: CueSchedulerConfig = DEFAULT_CUE_SCHEDULER) {
+    this.config = config;
+  }
+
+  public enqueue(cues: CoachingCue[]): void {
+    for (const cue of cues) {
+      const key = cueKey(cue);
+      this.queue = this.queue.filter((queued) => cueKey(queued) !== key);
+      this.queue.push(cue);
+    }
+  }
+
+  // The cue to speak now, if any. `speaking` is whether the previous cue is
+  // still being read out.
+  public next(now: number, speaking: boolean): CoachingCue | null {
+    this.queue = this.queue.filter(
+      (cue) => now - cue.createdAt <= this.config.maxAgeMs,
+    );
+    if (speaking || now - this.lastFinishedAt < this.config.minGapMs) {
+      return null;
+    }
+
+    const ready = this.queue
+      .filter((cue) => {
+        const cooldown = this.config.kindCooldownMs[cue.kind] ?? 0;
+        const last = this.lastSpokenAt.get(cueKey(cue));
+        return last === undefined || now - last >= cooldown;
+      })
+      .sort((a, b) => b.priority - a.priority || a.createdAt - b.createdAt);
+    const cue = ready[0];
+    if (!cue) return null;
+
+    this.queue = this.queue.filter((queued) => queued !== cue);
+    this.lastSpokenAt.set(cueKey(cue), now);
+    return cue;
+  }
+
+  // Called when the speaker finishes a cue
+  public finished(now: number): void {
+    this.lastFinishedAt = now;
+  }
+
+  public clear(): void {
+    this.queue = [];
+    this.lastSpokenAt.clear();
+    this.lastFinishedAt = -Infinity;
+  }
+}
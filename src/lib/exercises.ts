@@ -0,0 +1,267 @@
+import { POSE_LANDMARKS } from "./pose-landmarks";
+import type { PreferredView } from "./orientation";
+import type { FormFault } from "./form-faults";
+
+export type ExerciseId =
+  | "crunch"
+  | "situp"
+  | "leg-raise"
+  | "v-up"
+  | "plank"
+  | "hollow-hold"
+  | "russian-twist"
+  | "bicycle-crunch";
+
+export type ExercisePhase = "up" | "down";
+
+// A landmark measured on both sides of the body (left/right indices)
+export interface LandmarkPair {
+  left: number;
+  right: number;
+}
+
+// Three joints forming the measured angle, with the vertex at `b`
+export interface AngleJoints {
+  a: LandmarkPair;
+  b: LandmarkPair;
+  c: LandmarkPair;
+}
+
+// Accuracy drops by `penaltyPerDegree` once the angle leaves target ± tolerance
+export interface FormRule {
+  phase: ExercisePhase;
+  target: number;
+  tolerance: number;
+  penaltyPerDegree: number;
+}
+
+interface BaseExerciseDefinition {
+  id: ExerciseId;
+  name: string;
+  description: string;
+  joints: AngleJoints;
+  requiredLandmarks: number[];
+  // Camera angle the joints are measured best from
+  preferredView: PreferredView;
+  // Named faults watched for on every frame
+  faults: FormFault[];
+  // On-screen prompts for each phase
+  cues: Record<ExercisePhase, string>;
+}
+
+// Counted movement: a rep is scored each time the angle drops below `up`,
+// and the user must return above `down` before the next one counts
+export interface RepExerciseDefinition extends BaseExerciseDefinition {
+  mode: "reps";
+  thresholds: {
+    up: number;
+    down: number;
+  };
+  formRules: FormRule[];
+}
+
+// Shoulder–hip–ankle alignment for isometric holds. The bend is measured in
+// degrees away from a straight line, positive when the hips drop toward the
+// floor ("sag") and negative when they rise above the line ("pike").
+export interface HoldAlignment {
+  target: number;
+  sagTolerance: number;
+  pikeTolerance: number;
+  penaltyPerDegree: number;
+  // Steepest shoulder–ankle incline (degrees from horizontal) still counted
+  maxIncline: number;
+  cues: {
+    sag: string;
+    pike: string;
+  };
+}
+
+// Isometric movement: time is accumulated while the body stays aligned
+export interface HoldExerciseDefinition extends BaseExerciseDefinition {
+  mode: "hold";
+  alignment: HoldAlignment;
+}
+
+// Alternating movement: a side is counted when the torso turns at least
+// `minRotation` degrees toward it (and, if set, the opposite elbow comes
+// within `maxReach` torso lengths of that knee). Sides must alternate.
+// Form rules are applied to the absolute rotation.
+export interface RotationExerciseDefinition extends BaseExerciseDefinition {
+  mode: "rotation";
+  rotation: {
+    minRotation: number;
+    maxReach?: number;
+  };
+  formRules: FormRule[];
+}
+
+export type ExerciseDefinition =
+  RepExerciseDefinition | HoldExerciseDefinition | RotationExerciseDefinition;
+
+const SHOULDERS: LandmarkPair = {
+  left: POSE_LANDMARKS.LEFT_SHOULDER,
+  right: POSE_LANDMARKS.RIGHT_SHOULDER,
+};
+const HIPS: LandmarkPair = {
+  left: POSE_LANDMARKS.LEFT_HIP,
+  right: POSE_LANDMARKS.RIGHT_HIP,
+};
+const KNEES: LandmarkPair = {
+  left: POSE_LANDMARKS.LEFT_KNEE,
+  right: POSE_LANDMARKS.RIGHT_KNEE,
+};
+const ANKLES: LandmarkPair = {
+  left: POSE_LANDMARKS.LEFT_ANKLE,
+  right: POSE_LANDMARKS.RIGHT_ANKLE,
+};
+const ELBOWS: LandmarkPair = {
+  left: POSE_LANDMARKS.LEFT_ELBOW,
+  right: POSE_LANDMARKS.RIGHT_ELBOW,
+};
+
+const pairIndices = (...pairs: LandmarkPair[]): number[] =>
+  pairs.flatMap((pair) => [pair.left, pair.right]);
+
+export const EXERCISES: Record<ExerciseId, ExerciseDefinition> = {
+  crunch: {
+    id: "crunch",
+    name: "Crunch",
+    description: "Knees bent, lift your shoulder blades off the floor",
+    mode: "reps",
+    joints: { a: SHOULDERS, b: HIPS, c: KNEES },
+    preferredView: "side",
+    faults: ["neck-pull", "hip-lift", "feet-lift", "momentum"],
+    requiredLandmarks: pairIndices(SHOULDERS, HIPS, KNEES),
+    thresholds: { up: 110, down: 125 },
+    formRules: [
+      { phase: "up", target: 100, tolerance: 10, penaltyPerDegree: 2 },
+      { phase: "down", target: 130, tolerance: 10, penaltyPerDegree: 2 },
+    ],
+    cues: { up: "CRUNCH UP!", down: "LOWER DOWN" },
+  },
+  situp: {
+    id: "situp",
+    name: "Sit-Up",
+    description: "Full range: chest to knees, then back to the floor",
+    mode: "reps",
+    joints: { a: SHOULDERS, b: HIPS, c: KNEES },
+    preferredView: "side",
+    faults: ["neck-pull", "hip-lift", "feet-lift", "momentum"],
+    requiredLandmarks: pairIndices(SHOULDERS, HIPS, KNEES),
+    thresholds: { up: 55, down: 105 },
+    formRules: [
+      { phase: "up", target: 55, tolerance: 10, penaltyPerDegree: 2 },
+      { phase: "down", target: 105, tolerance: 10, penaltyPerDegree: 2 },
+    ],
+    cues: { up: "SIT UP!", down: "LOWER DOWN" },
+  },
+  "leg-raise": {
+    id: "leg-raise",
+    name: "Lying Leg Raise",
+    description: "Legs straight, raise them to vertical and lower slowly",
+    mode: "reps",
+    joints: { a: SHOULDERS, b: HIPS, c: ANKLES },
+    preferredView: "side",
+    faults: ["hip-lift", "momentum"],
+    requiredLandmarks: pairIndices(SHOULDERS, HIPS, ANKLES),
+    thresholds: { up: 100, down: 160 },
+    formRules: [
+      { phase: "up", target: 90, tolerance: 10, penaltyPerDegree: 2 },
+      { phase: "down", target: 170, tolerance: 10, penaltyPerDegree: 2 },
+    ],
+    cues: { up: "LEGS UP!", down: "LOWER SLOWLY" },
+  },
+  "v-up": {
+    id: "v-up",
+    name: "V-Up",
+    description: "Lift chest and straight legs together into a V",
+    mode: "reps",
+    joints: { a: SHOULDERS, b: HIPS, c: ANKLES },
+    preferredView: "side",
+    faults: ["momentum"],
+    requiredLandmarks: pairIndices(SHOULDERS, HIPS, ANKLES),
+    thresholds: { up: 70, down: 150 },
+    formRules: [
+      { phase: "up", target: 60, tolerance: 10, penaltyPerDegree: 2 },
+      { phase: "down", target: 165, tolerance: 15, penaltyPerDegree: 2 },
+    ],
+    cues: { up: "V UP!", down: "STRETCH OUT" },
+  },
+  plank: {
+    id: "plank",
+    name: "Plank",
+    description: "Forearms down, body in a straight line from head to heels",
+    mode: "hold",
+    joints: { a: SHOULDERS, b: HIPS, c: ANKLES },
+    preferredView: "side",
+    faults: [],
+    requiredLandmarks: pairIndices(SHOULDERS, HIPS, ANKLES),
+    alignment: {
+      target: 0,
+      sagTolerance: 12,
+      pikeTolerance: 15,
+      penaltyPerDegree: 3,
+      maxIncline: 35,
+      cues: { sag: "LIFT YOUR HIPS", pike: "LOWER YOUR HIPS" },
+    },
+    cues: { up: "HOLD IT!", down: "GET INTO POSITION" },
+  },
+  "hollow-hold": {
+    id: "hollow-hold",
+    name: "Hollow Hold",
+    description:
+      "On your back, lower back pressed down, arms and legs hovering",
+    mode: "hold",
+    joints: { a: SHOULDERS, b: HIPS, c: ANKLES },
+    preferredView: "side",
+    faults: [],
+    requiredLandmarks: pairIndices(SHOULDERS, HIPS, ANKLES),
+    alignment: {
+      target: 25,
+      sagTolerance: 15,
+      pikeTolerance: 15,
+      penaltyPerDegree: 2,
+      maxIncline: 30,
+      cues: { sag: "LOWER ARMS AND LEGS", pike: "LIFT ARMS AND LEGS" },
+    },
+    cues: { up: "HOLD IT!", down: "GET INTO POSITION" },
+  },
+  "russian-twist": {
+    id: "russian-twist",
+    name: "Russian Twist",
+    description: "Lean back, feet light, rotate your chest side to side",
+    mode: "rotation",
+    joints: { a: SHOULDERS, b: HIPS, c: KNEES },
+    preferredView: "front",
+    faults: ["momentum"],
+    requiredLandmarks: pairIndices(SHOULDERS, HIPS, KNEES),
+    rotation: { minRotation: 35 },
+    formRules: [
+      { phase: "up", target: 50, tolerance: 15, penaltyPerDegree: 2 },
+    ],
+    cues: { up: "TWIST!", down: "OTHER SIDE" },
+  },
+  "bicycle-crunch": {
+    id: "bicycle-crunch",
+    name: "Bicycle Crunch",
+    description: "Bring each elbow across to the opposite knee, alternating",
+    mode: "rotation",
+    joints: { a: SHOULDERS, b: HIPS, c: KNEES },
+    preferredView: "front",
+    faults: ["neck-pull", "hip-lift", "momentum"],
+    requiredLandmarks: pairIndices(SHOULDERS, ELBOWS, HIPS, KNEES),
+    rotation: { minRotation: 15, maxReach: 0.6 },
+    formRules: [
+      { phase: "up", target: 35, tolerance: 15, penaltyPerDegree: 2 },
+    ],
+    cues: { up: "ELBOW TO KNEE!", down: "SWITCH SIDES" },
+  },
+};
+
+export const DEFAULT_EXERCISE_ID: ExerciseId = "situp";
+
+export const EXERCISE_LIST: ExerciseDefinition[] = Object.values(EXERCISES);
+
+export function getExercise(id: ExerciseId): ExerciseDefinition {
+  return EXERCISES[id] ?? EXERCISES[DEFAULT_EXERCISE_ID];
+}
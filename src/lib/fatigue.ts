@@ -0,0 +1,129 @@
+import type { RepEvent } from "./rep-analytics";
+
+// Per-rep quality relative to the athlete's opening reps (100 = as fresh)
+export interface FatiguePoint {
+  index: number;
+  quality: number;
+  // Components, each as a percentage of the baseline
+  rangeOfMotion: number;
+  form: number;
+  speed: number;
+}
+
+export type FatigueFactor = "rangeOfMotion" | "form" | "speed";
+
+export const FATIGUE_FACTOR_LABELS: Record<FatigueFactor, string> = {
+  rangeOfMotion: "Range of motion",
+  form: "Form",
+  speed: "Rep speed",
+};
+
+export interface FatigueAssessment {
+  curve: FatiguePoint[];
+  // Quality lost over the recent window, in percent of the baseline
+  drop: number;
+  // The component that fell furthest over the recent window
+  factor: FatigueFactor | null;
+  // Set once the drop crosses the threshold
+  recommendation: string | null;
+}
+
+export interface FatigueConfig {
+  // Opening reps that define fresh quality
+  baselineReps: number;
+  // Most recent reps compared against the baseline
+  windowReps: number;
+  // Fewest post-baseline reps before a recommendation is made
+  minWindowReps: number;
+  // Drop (percent) at which stopping is suggested
+  stopThreshold: number;
+  weights: Record<FatigueFactor, number>;
+}
+
+export const DEFAULT_FATIGUE: FatigueConfig = {
+  baselineReps: 3,
+  windowReps: 5,
+  minWindowReps: 3,
+  stopThreshold: 25,
+  weights: { rangeOfMotion: 0.4, form: 0.3, speed: 0.3 },
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+const mean = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+const percent = (value: number, baseline: number) =>
+  baseline > 0 ? Math.min(120, (100 * value) / baseline) : 100;
+
+// Fatigue shows as shorter range, worse form and slower concentric phases.
+// Each rep is scored against the median of the opening reps; the recent
+// window's average drop decides whether to suggest ending the set.
+export function assessFatigue(
+  reps: RepEvent[],
+  config: FatigueConfig = DEFAULT_FATIGUE,
+): FatigueAssessment {
+  if (reps.length < config.baselineReps) {
+    return { curve: [], drop: 0, factor: null, recommendation: null };
+  }
+
+  const opening = reps.slice(0, config.baselineReps);
+  const baseline = {
+    rangeOfMotion: median(opening.map((r) => r.rangeOfMotion)),
+    form: median(opening.map((r) => r.formAccuracy)),
+    concentric: median(opening.map((r) => r.concentricDuration)),
+  };
+
+  const curve = reps.map((rep) => {
+    const components: Record<FatigueFactor, number> = {
+      rangeOfMotion: percent(rep.rangeOfMotion, baseline.rangeOfMotion),
+      form: percent(rep.formAccuracy, baseline.form),
+      // A slower concentric phase than when fresh lowers the score
+      speed: percent(baseline.concentric, rep.concentricDuration),
+    };
+    const quality = (Object.keys(components) as FatigueFactor[]).reduce(
+      (sum, factor) => sum + components[factor] * config.weights[factor],
+      0,
+    );
+    return {
+      index: rep.index,
+      quality: Math.round(Math.min(100, quality)),
+      rangeOfMotion: Math.round(components.rangeOfMotion),
+      form: Math.round(components.form),
+      speed: Math.round(components.speed),
+    };
+  });
+
+  const recent = curve.slice(config.baselineReps).slice(-config.windowReps);
+  if (recent.length === 0) {
+    return { curve, drop: 0, factor: null, recommendation: null };
+  }
+
+  const drop = Math.max(
+    0,
+    Math.round(100 - mean(recent.map((p) => p.quality))),
+  );
+  const factor = (Object.keys(config.weights) as FatigueFactor[]).reduce(
+    (worst, f) =>
+      mean(recent.map((p) => p[f])) < mean(recent.map((p) => p[worst]))
+        ? f
+        : worst,
+  );
+  const factorDrop = Math.max(
+    0,
+    Math.round(100 - mean(recent.map((p) => p[factor]))),
+  );
+
+  const recommendation =
+    recent.length >= config.minWindowReps && drop >= config.stopThreshold
+      ? `${FATIGUE_FACTOR_LABELS[factor]} dropped ${factorDrop}% over the last ${recent.length} reps. Consider stopping`
+      : null;
+
+  return {
+    curve,
+    drop,
+    factor: factorDrop > 0 ? factor : null,
+    recommendation,
+  };
+}
@@ -0,0 +1,155 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+
+// One-Euro filter: low lag while moving, heavy smoothing while still.
+// minCutoff is in Hz; beta scales the cutoff with speed (units per second).
+export interface OneEuroParams {
+  type: "one-euro";
+  minCutoff: number;
+  beta: number;
+  derivativeCutoff: number;
+}
+
+// Fixed-weight exponential moving average (alpha 1 = no smoothing)
+export interface EmaParams {
+  type: "ema";
+  alpha: number;
+}
+
+export type FilterParams = OneEuroParams | EmaParams;
+
+export interface SmoothingConfig {
+  // null disables the stage
+  landmarks: FilterParams | null;
+  angle: FilterParams | null;
+  // Minimum time (ms) a rep phase must last before it can change
+  minPhaseDwell: number;
+  // A phase change is rejected while the angle moves away from the new phase
+  // faster than this (degrees per second)
+  maxOpposingVelocity: number;
+  // Faster angle changes are treated as tracking glitches (degrees per second)
+  maxAngularVelocity: number;
+  // Gaps longer than this (ms) restart the filters instead of smoothing across
+  maxFrameGap: number;
+}
+
+export const DEFAULT_SMOOTHING: SmoothingConfig = {
+  landmarks: {
+    type: "one-euro",
+    minCutoff: 1.5,
+    beta: 0.8,
+    derivativeCutoff: 1,
+  },
+  angle: { type: "one-euro", minCutoff: 2, beta: 0.01, derivativeCutoff: 1 },
+  minPhaseDwell: 150,
+  maxOpposingVelocity: 40,
+  maxAngularVelocity: 900,
+  maxFrameGap: 1000,
+};
+
+export interface ScalarFilter {
+  // timestamp in ms
+  filter(value: number, timestamp: number): number;
+  reset(): void;
+}
+
+const smoothingFactor = (cutoff: number, dt: number): number => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export class OneEuroFilter implements ScalarFilter {
+  private params: OneEuroParams;
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTimestamp = 0;
+
+  constructor(params: OneEuroParams) {
+    this.params = params;
+  }
+
+  public filter(value: number, timestamp: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+    // Duplicate or out-of-order frames carry no new timing information
+    if (dt <= 0) return this.value;
+    this.lastTimestamp = timestamp;
+
+    const rawDerivative = (value - this.value) / dt;
+    this.derivative +=
+      smoothingFactor(this.params.derivativeCutoff, dt) *
+      (rawDerivative - this.derivative);
+
+    const cutoff =
+      this.params.minCutoff + this.params.beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+
+  public reset(): void {
+    this.value = null;
+    this.derivative = 0;
+  }
+}
+
+export class EmaFilter implements ScalarFilter {
+  private alpha: number;
+  private value: number | null = null;
+
+  constructor(params: EmaParams) {
+    this.alpha = params.alpha;
+  }
+
+  public filter(value: number): number {
+    this.value =
+      this.value === null
+        ? value
+        : this.value + this.alpha * (value - this.value);
+    return this.value;
+  }
+
+  public reset(): void {
+    this.value = null;
+  }
+}
+
+export function createFilter(params: FilterParams): ScalarFilter {
+  return params.type === "ema"
+    ? new EmaFilter(params)
+    : new OneEuroFilter(params);
+}
+
+// Filters x, y and z of every landmark independently; visibility is passed
+// through untouched so pose validity checks still see the raw confidence
+export class LandmarkFilter {
+  private params: FilterParams;
+  private filters: ScalarFilter[][] = [];
+
+  constructor(params: FilterParams) {
+    this.params = params;
+  }
+
+  public filter(landmarks: PoseLandmark[], timestamp: number): PoseLandmark[] {
+    return landmarks.map((landmark, i) => {
+      if (!this.filters[i]) {
+        this.filters[i] = [0, 1, 2].map(() => createFilter(this.params));
+      }
+      const [fx, fy, fz] = this.filters[i];
+
+      return {
+        ...landmark,
+        x: fx.filter(landmark.x, timestamp),
+        y: fy.filter(landmark.y, timestamp),
+        z: fz.filter(landmark.z, timestamp),
+      };
+    });
+  }
+
+  public reset(): void {
+    this.filters = [];
+  }
+}
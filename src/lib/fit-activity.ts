@@ -0,0 +1,282 @@
+import { getExercise, type ExerciseId } from "./exercises";
+import type { HistoryEntry } from "./workout-history";
+import { sessionStartTime } from "./history-export";
+
+// FIT activity files that Garmin Connect and similar platforms import. Only
+// the messages a strength activity needs are written; field numbers and enum
+// values follow the FIT SDK profile.
+
+// Seconds between the Unix and FIT epochs (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+const FIT_PROFILE_VERSION = 2132;
+
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_LAP = 19;
+const MESG_EVENT = 21;
+const MESG_ACTIVITY = 34;
+const MESG_SET = 225;
+
+const SPORT_TRAINING = 10;
+const SUB_SPORT_STRENGTH_TRAINING = 20;
+const FILE_TYPE_ACTIVITY = 4;
+const MANUFACTURER_DEVELOPMENT = 255;
+const EVENT_TIMER = 0;
+const EVENT_SESSION = 8;
+const EVENT_LAP = 9;
+const EVENT_ACTIVITY = 26;
+const EVENT_TYPE_START = 0;
+const EVENT_TYPE_STOP = 1;
+const EVENT_TYPE_STOP_ALL = 4;
+const SET_TYPE_REST = 0;
+const SET_TYPE_ACTIVE = 1;
+
+// FIT exercise_category values
+const FIT_EXERCISE_CATEGORIES: Record<ExerciseId, number> = {
+  crunch: 6,
+  situp: 27,
+  "leg-raise": 16,
+  "v-up": 27,
+  plank: 19,
+  "hollow-hold": 5,
+  "russian-twist": 5,
+  "bicycle-crunch": 6,
+};
+
+type FitBaseType = "enum" | "uint8" | "uint16" | "uint32" | "uint32z";
+
+const FIT_BASE_TYPES: Record<
+  FitBaseType,
+  { id: number; size: number; invalid: number }
+> = {
+  enum: { id: 0x00, size: 1, invalid: 0xff },
+  uint8: { id: 0x02, size: 1, invalid: 0xff },
+  uint16: { id: 0x84, size: 2, invalid: 0xffff },
+  uint32: { id: 0x86, size: 4, invalid: 0xffffffff },
+  uint32z: { id: 0x8c, size: 4, invalid: 0 },
+};
+
+interface FitField {
+  num: number;
+  type: FitBaseType;
+  // null writes the type's invalid value
+  value: number | null | (number | null)[];
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001,
+  0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+function fitCrc(bytes: ArrayLike<number>, start = 0, end = bytes.length) {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    for (const nibble of [bytes[i] & 0xf, (bytes[i] >> 4) & 0xf]) {
+      const tmp = CRC_TABLE[crc & 0xf];
+      crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[nibble];
+    }
+  }
+  return crc;
+}
+
+const toFitTime = (timestamp: number) =>
+  Math.round(timestamp / 1000) - FIT_EPOCH_OFFSET;
+
+// Little-endian records, each layout defined once under its own local type
+class FitWriter {
+  private bytes: number[] = [];
+  private localTypes = new Map<string, number>();
+
+  public write(globalNum: number, fields: FitField[]): void {
+    const layout = `${globalNum}:${fields
+      .map(
+        (f) =>
+          `${f.num}/${f.type}/${Array.isArray(f.value) ? f.value.length : 1}`,
+      )
+      .join(",")}`;
+    let local = this.localTypes.get(layout);
+    if (local === undefined) {
+      // FIT allows 16 local types; one activity needs far fewer
+      local = this.localTypes.size;
+      if (local > 15) throw new Error("Too many FIT message layouts");
+      this.localTypes.set(layout, local);
+      this.bytes.push(0x40 | local, 0, 0);
+      this.pushInt(globalNum, 2);
+      this.bytes.push(fields.length);
+      for (const field of fields) {
+        const base = FIT_BASE_TYPES[field.type];
+        const count = Array.isArray(field.value) ? field.value.length : 1;
+        this.bytes.push(field.num, base.size * count, base.id);
+      }
+    }
+
+    this.bytes.push(local);
+    for (const field of fields) {
+      const base = FIT_BASE_TYPES[field.type];
+      const values = Array.isArray(field.value) ? field.value : [field.value];
+      for (const value of values) {
+        this.pushInt(value ?? base.invalid, base.size);
+      }
+    }
+  }
+
+  public finish(): Uint8Array<ArrayBuffer> {
+    const header = [14, 0x20];
+    const out = new Uint8Array(14 + this.bytes.length + 2);
+    const view = new DataView(out.buffer);
+    out.set(header);
+    view.setUint16(2, FIT_PROFILE_VERSION, true);
+    view.setUint32(4, this.bytes.length, true);
+    out.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, fitCrc(out, 0, 12), true);
+    out.set(this.bytes, 14);
+    view.setUint16(out.length - 2, fitCrc(out, 0, out.length - 2), true);
+    return out;
+  }
+
+  private pushInt(value: number, size: number) {
+    for (let i = 0; i < size; i++) {
+      this.bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xff);
+    }
+  }
+}
+
+interface FitSet {
+  // Milliseconds since the epoch
+  start: number;
+  // Milliseconds
+  duration: number;
+  reps: number | null;
+  exerciseId: ExerciseId | null;
+}
+
+// A program's results carry no start times, so the rest between its sets
+// is spread evenly over the time not spent working
+function fitSets(entry: HistoryEntry, startedAt: number): FitSet[] {
+  const { stats } = entry;
+  const isHold = (id: ExerciseId) => getExercise(id).mode === "hold";
+  if (!stats.program || stats.program.sets.length === 0) {
+    return [
+      {
+        start: startedAt,
+        duration: stats.duration * 1000,
+        reps: isHold(entry.exerciseId) ? null : stats.totalReps,
+        exerciseId: entry.exerciseId,
+      },
+    ];
+  }
+
+  const { sets } = stats.program;
+  const worked = sets.reduce((sum, set) => sum + set.duration, 0);
+  const rest = (Math.max(0, stats.duration - worked) * 1000) / sets.length;
+  const result: FitSet[] = [];
+  let cursor = startedAt;
+  sets.forEach((set, i) => {
+    if (i > 0 && rest >= 1000) {
+      result.push({
+        start: cursor,
+        duration: rest,
+        reps: null,
+        exerciseId: null,
+      });
+    }
+    cursor += rest;
+    result.push({
+      start: cursor,
+      duration: set.duration * 1000,
+      reps: isHold(set.exerciseId) ? null : set.reps,
+      exerciseId: set.exerciseId,
+    });
+    cursor += set.duration * 1000;
+  });
+  return result;
+}
+
+// One strength-training activity with a set per program set (or a single
+// set for a free session)
+export function exportSessionFit(entry: HistoryEntry): Uint8Array<ArrayBuffer> {
+  const startedAt = sessionStartTime(entry);
+  const start = toFitTime(startedAt);
+  const end = toFitTime(entry.completedAt);
+  const timerTime = entry.stats.duration * 1000;
+  const elapsedTime = entry.completedAt - startedAt;
+  const fit = new FitWriter();
+
+  fit.write(MESG_FILE_ID, [
+    { num: 0, type: "enum", value: FILE_TYPE_ACTIVITY },
+    { num: 1, type: "uint16", value: MANUFACTURER_DEVELOPMENT },
+    { num: 2, type: "uint16", value: 0 },
+    { num: 3, type: "uint32z", value: 1 },
+    { num: 4, type: "uint32", value: start },
+  ]);
+  fit.write(MESG_EVENT, [
+    { num: 253, type: "uint32", value: start },
+    { num: 0, type: "enum", value: EVENT_TIMER },
+    { num: 1, type: "enum", value: EVENT_TYPE_START },
+  ]);
+
+  fitSets(entry, startedAt).forEach((set, i) => {
+    fit.write(MESG_SET, [
+      { num: 254, type: "uint32", value: toFitTime(set.start + set.duration) },
+      { num: 0, type: "uint32", value: Math.round(set.duration) },
+      { num: 3, type: "uint16", value: set.reps },
+      {
+        num: 5,
+        type: "uint8",
+        value: set.exerciseId ? SET_TYPE_ACTIVE : SET_TYPE_REST,
+      },
+      { num: 6, type: "uint32", value: toFitTime(set.start) },
+      {
+        num: 7,
+        type: "uint16",
+        value: [set.exerciseId && FIT_EXERCISE_CATEGORIES[set.exerciseId]],
+      },
+      { num: 10, type: "uint16", value: i },
+    ]);
+  });
+
+  fit.write(MESG_EVENT, [
+    { num: 253, type: "uint32", value: end },
+    { num: 0, type: "enum", value: EVENT_TIMER },
+    { num: 1, type: "enum", value: EVENT_TYPE_STOP_ALL },
+  ]);
+  fit.write(MESG_LAP, [
+    { num: 254, type: "uint16", value: 0 },
+    { num: 253, type: "uint32", value: end },
+    { num: 0, type: "enum", value: EVENT_LAP },
+    { num: 1, type: "enum", value: EVENT_TYPE_STOP },
+    { num: 2, type: "uint32", value: start },
+    { num: 7, type: "uint32", value: elapsedTime },
+    { num: 8, type: "uint32", value: timerTime },
+    { num: 25, type: "enum", value: SPORT_TRAINING },
+    { num: 39, type: "enum", value: SUB_SPORT_STRENGTH_TRAINING },
+  ]);
+  fit.write(MESG_SESSION, [
+    { num: 254, type: "uint16", value: 0 },
+    { num: 253, type: "uint32", value: end },
+    { num: 0, type: "enum", value: EVENT_SESSION },
+    { num: 1, type: "enum", value: EVENT_TYPE_STOP },
+    { num: 2, type: "uint32", value: start },
+    { num: 5, type: "enum", value: SPORT_TRAINING },
+    { num: 6, type: "enum", value: SUB_SPORT_STRENGTH_TRAINING },
+    { num: 7, type: "uint32", value: elapsedTime },
+    { num: 8, type: "uint32", value: timerTime },
+    { num: 25, type: "uint16", value: 0 },
+    { num: 26, type: "uint16", value: 1 },
+  ]);
+  fit.write(MESG_ACTIVITY, [
+    { num: 253, type: "uint32", value: end },
+    { num: 0, type: "uint32", value: timerTime },
+    { num: 1, type: "uint16", value: 1 },
+    { num: 2, type: "enum", value: 0 },
+    { num: 3, type: "enum", value: EVENT_ACTIVITY },
+    { num: 4, type: "enum", value: EVENT_TYPE_STOP },
+    {
+      num: 5,
+      type: "uint32",
+      value: end - new Date(entry.completedAt).getTimezoneOffset() * 60,
+    },
+  ]);
+
+  return fit.finish();
+}
@@ -0,0 +1,216 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import { POSE_LANDMARKS } from "./pose-landmarks";
+
+export type FormFault = "neck-pull" | "hip-lift" | "feet-lift" | "momentum";
+
+export const FORM_FAULT_CUES: Record<FormFault, string> = {
+  "neck-pull": "DON'T PULL ON YOUR NECK",
+  "hip-lift": "KEEP YOUR HIPS DOWN",
+  "feet-lift": "KEEP YOUR FEET DOWN",
+  momentum: "SLOW DOWN, NO SWINGING",
+};
+
+// Form accuracy lost for each fault active on a frame
+export const FAULT_PENALTY = 15;
+
+// Nose-to-shoulder distance below this share of the resting distance means
+// the chin is being pulled into the chest
+const NECK_COLLAPSE_RATIO = 0.6;
+// Wrists closer than this (in torso lengths) to the ears count as on the head
+const HANDS_ON_HEAD_DISTANCE = 0.45;
+// Rise above the resting height, in torso lengths
+const HIP_LIFT_RATIO = 0.15;
+const FEET_LIFT_RATIO = 0.12;
+// Angular speed (degrees per second) treated as a momentum swing
+const MOMENTUM_VELOCITY = 360;
+// Faults stay active this long after the last detection so cues are readable
+const FAULT_HOLD_MS = 800;
+// Weight given to each resting frame when updating the baseline
+const BASELINE_SMOOTHING = 0.1;
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Baseline {
+  torsoLength: number;
+  neckDistance: number;
+  hipY: number;
+  ankleY: number;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Visibility-weighted midpoint of a left/right landmark pair
+function midpoint(landmarks: PoseLandmark[], left: number, right: number) {
+  const l = landmarks[left];
+  const r = landmarks[right];
+  const lw = Math.max(l?.visibility ?? 0, 0.01);
+  const rw = Math.max(r?.visibility ?? 0, 0.01);
+  const total = lw + rw;
+
+  return {
+    x: ((l?.x ?? 0) * lw + (r?.x ?? 0) * rw) / total,
+    y: ((l?.y ?? 0) * lw + (r?.y ?? 0) * rw) / total,
+    z: ((l?.z ?? 0) * lw + (r?.z ?? 0) * rw) / total,
+  };
+}
+
+// A wrist is behind the head when it is close to the ear and on the opposite
+// side of the ear from the nose
+function isWristBehindHead(
+  wrist: PoseLandmark | undefined,
+  ear: Point,
+  nose: Point,
+  torsoLength: number,
+): boolean {
+  if (!wrist || wrist.visibility < 0.3) return false;
+  if (distance(wrist, ear) > HANDS_ON_HEAD_DISTANCE * torsoLength) return false;
+
+  const facing = { x: nose.x - ear.x, y: nose.y - ear.y };
+  const toWrist = { x: wrist.x - ear.x, y: wrist.y - ear.y };
+  return facing.x * toWrist.x + facing.y * toWrist.y < 0;
+}
+
+// Named form faults measured against a resting baseline that is learned while
+// the user is in the start position
+export class FormFaultDetector {
+  private enabled: Set<FormFault>;
+  private baseline: Baseline | null = null;
+  private lastSeen = new Map<FormFault, number>();
+  private lastAngle: number | null = null;
+  private lastTimestamp = 0;
+
+  constructor(enabled: FormFault[]) {
+    this.enabled = new Set(enabled);
+  }
+
+  // Returns the faults active on this frame. `resting` should be true while
+  // the user is in the start position so the baseline can adapt.
+  public update(
+    landmarks: PoseLandmark[],
+    angle: number,
+    resting: boolean,
+    timestamp: number,
+  ): FormFault[] {
+    const nose = landmarks[POSE_LANDMARKS.NOSE];
+    const shoulders = midpoint(
+      landmarks,
+      POSE_LANDMARKS.LEFT_SHOULDER,
+      POSE_LANDMARKS.RIGHT_SHOULDER,
+    );
+    const hips = midpoint(
+      landmarks,
+      POSE_LANDMARKS.LEFT_HIP,
+      POSE_LANDMARKS.RIGHT_HIP,
+    );
+    const ankles = midpoint(
+      landmarks,
+      POSE_LANDMARKS.LEFT_ANKLE,
+      POSE_LANDMARKS.RIGHT_ANKLE,
+    );
+    const ears = midpoint(
+      landmarks,
+      POSE_LANDMARKS.LEFT_EAR,
+      POSE_LANDMARKS.RIGHT_EAR,
+    );
+    const torsoLength = distance(shoulders, hips);
+    const neckDistance = nose ? distance(nose, shoulders) : 0;
+
+    if (resting && torsoLength > 0) {
+      this.updateBaseline({
+        torsoLength,
+        neckDistance,
+        hipY: hips.y,
+        ankleY: ankles.y,
+      });
+    }
+
+    const detected: FormFault[] = [];
+    const base = this.baseline;
+
+    if (base && nose && this.enabled.has("neck-pull")) {
+      const handsOnHead =
+        isWristBehindHead(
+          landmarks[POSE_LANDMARKS.LEFT_WRIST],
+          ears,
+          nose,
+          base.torsoLength,
+        ) ||
+        isWristBehindHead(
+          landmarks[POSE_LANDMARKS.RIGHT_WRIST],
+          ears,
+          nose,
+          base.torsoLength,
+        );
+      if (
+        handsOnHead &&
+        neckDistance < base.neckDistance * NECK_COLLAPSE_RATIO
+      ) {
+        detected.push("neck-pull");
+      }
+    }
+
+    // Image y grows downward, so lifting shows as a smaller y
+    if (
+      base &&
+      this.enabled.has("hip-lift") &&
+      base.hipY - hips.y > HIP_LIFT_RATIO * base.torsoLength
+    ) {
+      detected.push("hip-lift");
+    }
+    if (
+      base &&
+      this.enabled.has("feet-lift") &&
+      base.ankleY - ankles.y > FEET_LIFT_RATIO * base.torsoLength
+    ) {
+      detected.push("feet-lift");
+    }
+
+    if (this.enabled.has("momentum") && this.lastAngle !== null) {
+      const dt = (timestamp - this.lastTimestamp) / 1000;
+      if (dt > 0 && Math.abs(angle - this.lastAngle) / dt > MOMENTUM_VELOCITY) {
+        detected.push("momentum");
+      }
+    }
+    this.lastAngle = angle;
+    this.lastTimestamp = timestamp;
+
+    detected.forEach((fault) => this.lastSeen.set(fault, timestamp));
+    return [...this.lastSeen.entries()]
+      .filter(([, seenAt]) => timestamp - seenAt <= FAULT_HOLD_MS)
+      .map(([fault]) => fault);
+  }
+
+  public reset(): void {
+    this.baseline = null;
+    this.lastSeen.clear();
+    this.lastAngle = null;
+  }
+
+  private updateBaseline(frame: Baseline): void {
+    if (!this.baseline) {
+      this.baseline = frame;
+      return;
+    }
+
+    const a = BASELINE_SMOOTHING;
+    const base = this.baseline;
+    this.baseline = {
+      torsoLength:
+        base.torsoLength + a * (frame.torsoLength - base.torsoLength),
+      neckDistance:
+        base.neckDistance + a * (frame.neckDistance - base.neckDistance),
+      hipY: base.hipY + a * (frame.hipY - base.hipY),
+      ankleY: base.ankleY + a * (frame.ankleY - base.ankleY),
+    };
+  }
+}
+
+// Reduce a frame's form accuracy for each active fault
+export const applyFaultPenalty = (
+  formAccuracy: number,
+  faults: FormFault[],
+): number => Math.max(0, formAccuracy - faults.length * FAULT_PENALTY);
@@ -0,0 +1,261 @@
+import {
+  DEFAULT_CAMERA_SETTINGS,
+  getCameraConstraints,
+  type CameraSettings,
+} from "./camera-devices";
+
+export type FrameSourceKind = "camera" | "video-file" | "image-sequence";
+
+export type FrameImage =
+  HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+// One frame handed to pose detection. Timestamps are ms: wall-clock time for
+// the camera, position in the clip for files.
+export interface SourceFrame {
+  image: FrameImage;
+  timestamp: number;
+}
+
+// Pixel size of a frame image (videos report their stream size separately)
+export const getFrameSize = (image: FrameImage) =>
+  image instanceof HTMLVideoElement
+    ? { width: image.videoWidth, height: image.videoHeight }
+    : { width: image.width, height: image.height };
+
+export type FrameHandler = (frame: SourceFrame) => Promise<void>;
+
+// Anything that can feed frames to the detector
+export interface FrameSource {
+  readonly kind: FrameSourceKind;
+  // Resolves once frames have started flowing
+  start(onFrame: FrameHandler): Promise<void>;
+  stop(): void;
+}
+
+export interface FileSourceOptions {
+  // Frames analysed per second of footage
+  fps?: number;
+  // Called after the last frame has been processed
+  onEnded?: () => void;
+  // Called with 0-1 as the file is worked through
+  onProgress?: (progress: number) => void;
+  // Called instead of onEnded when a frame cannot be read or processed
+  onError?: (error: Error) => void;
+}
+
+const DEFAULT_FILE_FPS = 15;
+// A seek that has not landed by then means the decoder has stalled
+const SEEK_TIMEOUT_MS = 5000;
+
+// Live webcam. Opens the chosen device at the chosen resolution and hands
+// over one frame per animation frame, skipping frames while the previous
+// one is still being processed.
+export class CameraFrameSource implements FrameSource {
+  public readonly kind = "camera";
+  private video: HTMLVideoElement;
+  private settings: CameraSettings;
+  private stream: MediaStream | null = null;
+  private animationFrame: number | null = null;
+
+  constructor(
+    video: HTMLVideoElement,
+    settings: CameraSettings = DEFAULT_CAMERA_SETTINGS,
+  ) {
+    this.video = video;
+    this.settings = settings;
+  }
+
+  public async start(onFrame: FrameHandler): Promise<void> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: getCameraConstraints(this.settings),
+      audio: false,
+    });
+    this.stream = stream;
+    this.video.srcObject = stream;
+    this.video.muted = true;
+    this.video.playsInline = true;
+    await this.video.play();
+
+    const loop = async () => {
+      if (this.stream !== stream) return;
+      if (this.video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        await onFrame({ image: this.video, timestamp: Date.now() });
+      }
+      if (this.stream === stream) {
+        this.animationFrame = requestAnimationFrame(loop);
+      }
+    };
+    this.animationFrame = requestAnimationFrame(loop);
+  }
+
+  public stop(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+  }
+}
+
+// A recorded clip played into a (usually hidden) video element. The clip is
+// stepped by seeking rather than played in real time, so every sampled frame
+// is analysed no matter how slow inference is on the device.
+export class VideoFileFrameSource implements FrameSource {
+  public readonly kind = "video-file";
+  private video: HTMLVideoElement;
+  private file: Blob;
+  private options: FileSourceOptions;
+  private url: string | null = null;
+  private duration = 0;
+  private stopped = false;
+
+  constructor(
+    video: HTMLVideoElement,
+    file: Blob,
+    options: FileSourceOptions = {},
+  ) {
+    this.video = video;
+    this.file = file;
+    this.options = options;
+  }
+
+  public async start(onFrame: FrameHandler): Promise<void> {
+    this.stopped = false;
+    this.url = URL.createObjectURL(this.file);
+    this.video.srcObject = null;
+    this.video.muted = true;
+    this.video.src = this.url;
+
+    await new Promise<void>((resolve, reject) => {
+      this.video.onloadeddata = () => resolve();
+      this.video.onerror = () =>
+        reject(new Error("This video format cannot be played"));
+    });
+    this.duration = await this.readDuration();
+
+    // Frames are processed in the background; start() returns once loaded
+    void this.run(onFrame);
+  }
+
+  private async run(onFrame: FrameHandler): Promise<void> {
+    const step = 1 / (this.options.fps ?? DEFAULT_FILE_FPS);
+    const duration = this.duration;
+
+    try {
+      for (let time = 0; time <= duration && !this.stopped; time += step) {
+        await this.seek(time);
+        if (this.stopped) return;
+        await onFrame({
+          image: this.video,
+          timestamp: Math.round(time * 1000),
+        });
+        this.options.onProgress?.(Math.min(1, time / duration));
+      }
+    } catch (error) {
+      if (!this.stopped) this.options.onError?.(toError(error));
+      return;
+    }
+
+    if (!this.stopped) this.options.onEnded?.();
+  }
+
+  // Clips from MediaRecorder often report an Infinity duration until the
+  // browser has been made to seek to their end
+  private async readDuration(): Promise<number> {
+    if (this.video.duration === Infinity) {
+      await this.seek(Number.MAX_SAFE_INTEGER);
+    }
+    const duration = this.video.duration;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      throw new Error("The length of this video could not be read");
+    }
+    return duration;
+  }
+
+  private seek(time: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.video.onseeked = null;
+        reject(new Error("The video stopped responding while seeking"));
+      }, SEEK_TIMEOUT_MS);
+      this.video.onseeked = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      this.video.currentTime = time;
+    });
+  }
+
+  public stop(): void {
+    this.stopped = true;
+    this.video.removeAttribute("src");
+    this.video.load();
+    if (this.url) {
+      URL.revokeObjectURL(this.url);
+      this.url = null;
+    }
+  }
+}
+
+// Still images analysed in name order at a fixed frame rate
+export class ImageSequenceFrameSource implements FrameSource {
+  public readonly kind = "image-sequence";
+  private files: File[];
+  private options: FileSourceOptions;
+  private stopped = false;
+
+  constructor(files: File[], options: FileSourceOptions = {}) {
+    this.files = [...files].sort((a, b) =>
+      a.name.localeCompare(b.name, undefined, { numeric: true }),
+    );
+    this.options = options;
+  }
+
+  public async start(onFrame: FrameHandler): Promise<void> {
+    this.stopped = false;
+    if (this.files.length === 0) {
+      throw new Error("No images selected");
+    }
+    void this.run(onFrame);
+  }
+
+  private async run(onFrame: FrameHandler): Promise<void> {
+    const frameMs = 1000 / (this.options.fps ?? DEFAULT_FILE_FPS);
+
+    try {
+      for (let i = 0; i < this.files.length && !this.stopped; i++) {
+        const image = await loadImage(this.files[i]);
+        if (this.stopped) return;
+        await onFrame({ image, timestamp: Math.round(i * frameMs) });
+        this.options.onProgress?.((i + 1) / this.files.length);
+      }
+    } catch (error) {
+      if (!this.stopped) this.options.onError?.(toError(error));
+      return;
+    }
+
+    if (!this.stopped) this.options.onEnded?.();
+  }
+
+  public stop(): void {
+    this.stopped = true;
+  }
+}
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+async function loadImage(file: File): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+    return image;
+  } catch {
+    throw new Error(`${file.name} could not be read as an image`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,448 @@
+import { getExercise, type ExerciseId } from "./exercises";
+import type { RepFault } from "./rep-analytics";
+import type { RotationSide } from "./rotation";
+import type { FrameSourceKind } from "./frame-sources";
+import type { ProgramFormat, ProgramSetResult } from "./workout-programs";
+import type { SubmissionData } from "./contractIntegration";
+import type { HistoryEntry, SubmissionStatus } from "./workout-history";
+import { toSubmissionData, totalPausedTime } from "./workout-session";
+
+export const HISTORY_EXPORT_FORMAT = "imperfectabs-history";
+export const HISTORY_EXPORT_VERSION = 1;
+
+export interface ExportOptions {
+  // Wallet, tx hash and submission time, so sessions can be verified
+  // against the contract
+  includeOnChain: boolean;
+}
+
+// Times in seconds from the session start, durations in seconds
+export interface ExportedRep {
+  index: number;
+  start: number;
+  duration: number;
+  concentric: number;
+  eccentric: number;
+  // Degrees
+  rangeOfMotion: number;
+  smoothness: number | null;
+  formAccuracy: number;
+  faults: RepFault[];
+  side: RotationSide | null;
+}
+
+export interface ExportedSession {
+  id: string;
+  // ISO 8601
+  startedAt: string;
+  completedAt: string;
+  exerciseId: ExerciseId;
+  exerciseName: string;
+  source: FrameSourceKind;
+  // Seconds; duration leaves out pauses
+  duration: number;
+  pausedTime: number;
+  holdTime: number;
+  reps: number;
+  formAccuracy: number;
+  bestStreak: number;
+  // The values sent to (or due for) the contract
+  submitted: SubmissionData;
+  program: {
+    format: ProgramFormat;
+    name: string;
+    sets: ProgramSetResult[];
+  } | null;
+  repEvents: ExportedRep[];
+  weather: {
+    location: string;
+    temperature: number;
+    condition: string;
+    bonus: number;
+  } | null;
+  submission: {
+    status: SubmissionStatus;
+    walletAddress?: string | null;
+    txHash?: string;
+    submittedAt?: string;
+  };
+}
+
+export interface HistoryExport {
+  format: typeof HISTORY_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  sessions: ExportedSession[];
+}
+
+const toSeconds = (ms: number) => Math.round(ms / 10) / 100;
+const toIso = (timestamp: number) => new Date(timestamp).toISOString();
+
+// Wall-clock start: the end less the worked and paused time
+export const sessionStartTime = (entry: HistoryEntry): number =>
+  entry.completedAt -
+  (entry.stats.duration + totalPausedTime(entry.stats.pauses ?? [])) * 1000;
+
+export function toExportedSession(
+  entry: HistoryEntry,
+  options: ExportOptions,
+): ExportedSession {
+  const { stats, submission } = entry;
+  const startedAt = sessionStartTime(entry);
+  // Live reps carry wall-clock timestamps, recorded footage media time
+  const origin = stats.source ? 0 : startedAt;
+
+  return {
+    id: entry.id,
+    startedAt: toIso(startedAt),
+    completedAt: toIso(entry.completedAt),
+    exerciseId: entry.exerciseId,
+    exerciseName: getExercise(entry.exerciseId).name,
+    source: stats.source ?? "camera",
+    duration: stats.duration,
+    pausedTime: totalPausedTime(stats.pauses ?? []),
+    holdTime: stats.holdTime,
+    reps: stats.totalReps,
+    formAccuracy: stats.averageFormAccuracy,
+    bestStreak: stats.bestStreak,
+    submitted: toSubmissionData(stats),
+    program: stats.program
+      ? {
+          format: stats.program.format,
+          name: stats.program.name,
+          sets: stats.program.sets,
+        }
+      : null,
+    repEvents: (stats.repEvents ?? []).map((rep) => ({
+      index: rep.index,
+      start: Math.max(0, toSeconds(rep.startTime - origin)),
+      duration: toSeconds(rep.endTime - rep.startTime),
+      concentric: toSeconds(rep.concentricDuration),
+      eccentric: toSeconds(rep.eccentricDuration),
+      rangeOfMotion: rep.rangeOfMotion,
+      smoothness: rep.smoothness,
+      formAccuracy: rep.formAccuracy,
+      faults: rep.faults,
+      side: rep.side,
+    })),
+    weather: entry.weather && {
+      location: entry.weather.location,
+      temperature: entry.weather.temperature,
+      condition: entry.weather.condition,
+      bonus: entry.weather.bonus,
+    },
+    submission: options.includeOnChain
+      ? {
+          status: submission.status,
+          walletAddress: entry.walletAddress,
+          ...(submission.txHash && { txHash: submission.txHash }),
+          ...(submission.submittedAt && {
+            submittedAt: toIso(submission.submittedAt),
+          }),
+        }
+      : { status: submission.status },
+  };
+}
+
+export function exportHistoryJson(
+  entries: HistoryEntry[],
+  options: ExportOptions,
+  now: number = Date.now(),
+): string {
+  const data: HistoryExport = {
+    format: HISTORY_EXPORT_FORMAT,
+    version: HISTORY_EXPORT_VERSION,
+    exportedAt: toIso(now),
+    sessions: entries.map((entry) => toExportedSession(entry, options)),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const NUMBER = { type: "number" } as const;
+const SECONDS = { type: "number", minimum: 0 } as const;
+const PERCENT = { type: "number", minimum: 0, maximum: 100 } as const;
+const TIMESTAMP = { type: "string", format: "date-time" } as const;
+
+// JSON Schema of exportHistoryJson's output, offered alongside the export
+export const HISTORY_EXPORT_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Imperfect Abs workout history",
+  description:
+    "Sessions kept in the browser. Durations are in seconds and timestamps in ISO 8601.",
+  type: "object",
+  required: ["format", "version", "exportedAt", "sessions"],
+  properties: {
+    format: { const: HISTORY_EXPORT_FORMAT },
+    version: { const: HISTORY_EXPORT_VERSION },
+    exportedAt: TIMESTAMP,
+    sessions: { type: "array", items: { $ref: "#/$defs/session" } },
+  },
+  $defs: {
+    session: {
+      type: "object",
+      required: [
+        "id",
+        "startedAt",
+        "completedAt",
+        "exerciseId",
+        "source",
+        "duration",
+        "reps",
+        "formAccuracy",
+        "bestStreak",
+        "submitted",
+        "repEvents",
+        "submission",
+      ],
+      properties: {
+        id: { type: "string", description: "Local history id" },
+        startedAt: {
+          ...TIMESTAMP,
+          description: "Completion time less the duration and pauses",
+        },
+        completedAt: TIMESTAMP,
+        exerciseId: {
+          type: "string",
+          description: "First exercise for multi-exercise programs",
+        },
+        exerciseName: { type: "string" },
+        source: {
+          enum: ["camera", "video-file", "image-sequence"],
+          description: "Live camera or recorded footage",
+        },
+        duration: { ...SECONDS, description: "Worked time, pauses excluded" },
+        pausedTime: SECONDS,
+        holdTime: { ...SECONDS, description: "Valid hold time" },
+        reps: { type: "integer", minimum: 0 },
+        formAccuracy: PERCENT,
+        bestStreak: { type: "integer", minimum: 0 },
+        submitted: {
+          type: "object",
+          description:
+            "Values sent to the contract; hold time is converted to reps",
+          properties: {
+            reps: { type: "integer" },
+            formAccuracy: PERCENT,
+            streak: { type: "integer" },
+            duration: SECONDS,
+          },
+        },
+        program: {
+          type: ["object", "null"],
+          description: "Per-set results when the session followed a program",
+          properties: {
+            format: {
+              enum: ["free", "sets", "emom", "tabata", "amrap", "circuit"],
+            },
+            name: { type: "string" },
+            sets: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  index: { type: "integer" },
+                  label: { type: "string" },
+                  exerciseId: { type: "string" },
+                  reps: { type: "integer" },
+                  holdTime: SECONDS,
+                  formAccuracy: PERCENT,
+                  targetReps: { type: ["integer", "null"] },
+                  targetHoldSec: { type: ["number", "null"] },
+                  duration: SECONDS,
+                  completed: { type: "boolean" },
+                },
+              },
+            },
+          },
+        },
+        repEvents: { type: "array", items: { $ref: "#/$defs/rep" } },
+        weather: {
+          type: ["object", "null"],
+          properties: {
+            location: { type: "string" },
+            temperature: { ...NUMBER, description: "Degrees Celsius" },
+            condition: { type: "string" },
+            bonus: { ...NUMBER, description: "Bonus percentage earned" },
+          },
+        },
+        submission: {
+          type: "object",
+          required: ["status"],
+          description:
+            "Wallet, tx hash and submission time are only present when the export includes on-chain details",
+          properties: {
+            status: { enum: ["unsubmitted", "submitted", "failed"] },
+            walletAddress: { type: ["string", "null"] },
+            txHash: { type: "string" },
+            submittedAt: TIMESTAMP,
+          },
+        },
+      },
+    },
+    rep: {
+      type: "object",
+      required: ["index", "start", "duration", "formAccuracy", "faults"],
+      properties: {
+        index: { type: "integer", minimum: 1 },
+        start: {
+          ...SECONDS,
+          description: "From the session start (media time for footage)",
+        },
+        duration: SECONDS,
+        concentric: { ...SECONDS, description: "Rest position to peak" },
+        eccentric: { ...SECONDS, description: "Peak back to rest" },
+        rangeOfMotion: { ...NUMBER, description: "Degrees" },
+        smoothness: { type: ["number", "null"], minimum: 0, maximum: 100 },
+        formAccuracy: PERCENT,
+        faults: {
+          type: "array",
+          items: {
+            enum: [
+              "short-range",
+              "rushed",
+              "neck-pull",
+              "hip-lift",
+              "feet-lift",
+              "momentum",
+            ],
+          },
+        },
+        side: { enum: ["left", "right", null] },
+      },
+    },
+  },
+} as const;
+
+type CsvValue = string | number | boolean | null | undefined;
+
+const csvCell = (value: CsvValue) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") +
+  "\r\n";
+
+// One row per session
+export function exportSessionsCsv(
+  entries: HistoryEntry[],
+  options: ExportOptions,
+): string {
+  const header = [
+    "session_id",
+    "started_at",
+    "completed_at",
+    "exercise",
+    "program",
+    "source",
+    "reps",
+    "form_accuracy",
+    "best_streak",
+    "duration_s",
+    "paused_s",
+    "hold_time_s",
+    "submitted_reps",
+    "submitted_form_accuracy",
+    "submitted_streak",
+    "submitted_duration_s",
+    "weather_location",
+    "temperature_c",
+    "weather_bonus_pct",
+    "submission_status",
+    ...(options.includeOnChain
+      ? ["wallet_address", "tx_hash", "submitted_at"]
+      : []),
+  ];
+  const rows = entries.map((entry) => {
+    const session = toExportedSession(entry, options);
+    return [
+      session.id,
+      session.startedAt,
+      session.completedAt,
+      session.exerciseId,
+      session.program?.name,
+      session.source,
+      session.reps,
+      session.formAccuracy,
+      session.bestStreak,
+      session.duration,
+      session.pausedTime,
+      session.holdTime,
+      session.submitted.reps,
+      session.submitted.formAccuracy,
+      session.submitted.streak,
+      session.submitted.duration,
+      session.weather?.location,
+      session.weather?.temperature,
+      session.weather?.bonus,
+      session.submission.status,
+      ...(options.includeOnChain
+        ? [
+            session.submission.walletAddress,
+            session.submission.txHash,
+            session.submission.submittedAt,
+          ]
+        : []),
+    ];
+  });
+  return toCsv(header, rows);
+}
+
+// One row per rep, joined to the sessions file by session_id
+export function exportRepsCsv(entries: HistoryEntry[]): string {
+  const header = [
+    "session_id",
+    "exercise",
+    "rep",
+    "start_s",
+    "duration_s",
+    "concentric_s",
+    "eccentric_s",
+    "range_of_motion_deg",
+    "smoothness",
+    "form_accuracy",
+    "faults",
+    "side",
+  ];
+  const rows = entries.flatMap((entry) =>
+    toExportedSession(entry, { includeOnChain: false }).repEvents.map((rep) => [
+      entry.id,
+      entry.exerciseId,
+      rep.index,
+      rep.start,
+      rep.duration,
+      rep.concentric,
+      rep.eccentric,
+      rep.rangeOfMotion,
+      rep.smoothness,
+      rep.formAccuracy,
+      rep.faults.join(";"),
+      rep.side,
+    ]),
+  );
+  return toCsv(header, rows);
+}
+
+const fileTime = (timestamp: number) =>
+  new Date(timestamp).toISOString().replace(/[:.]/g, "-");
+
+export const historyFileName = (
+  extension: "json" | "csv",
+  kind = "history",
+  now: number = Date.now(),
+): string => `imperfectabs-${kind}-${fileTime(now)}.${extension}`;
+
+export const fitFileName = (entry: HistoryEntry): string =>
+  `imperfectabs-${entry.exerciseId}-${fileTime(entry.completedAt)}.fit`;
+
+// Save generated data through a temporary link; nothing leaves the browser
+export function downloadFile(name: string, data: BlobPart, type: string): void {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
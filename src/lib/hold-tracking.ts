@@ -0,0 +1,184 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import type { HoldAlignment } from "./exercises";
+
+export type HoldStatus = "idle" | "aligned" | "sagging" | "piking";
+
+// A continuous stretch of valid hold time (timestamps and durations in ms)
+export interface HoldSegment {
+  start: number;
+  end: number;
+  duration: number;
+  alignmentQuality: number;
+}
+
+export interface HoldSummary {
+  // All durations in milliseconds
+  totalHoldTime: number;
+  longestSegment: number;
+  sagTime: number;
+  pikeTime: number;
+  alignmentQuality: number;
+  segments: HoldSegment[];
+}
+
+export interface HoldFrame {
+  status: HoldStatus;
+  bend: number;
+  quality: number;
+}
+
+const toDegrees = (radians: number): number => (radians * 180.0) / Math.PI;
+
+// Signed bend (degrees) of the hips away from the shoulder–ankle line.
+// Positive when the hips drop toward the floor, negative when they rise.
+export function calculateHipBend(
+  shoulder: PoseLandmark,
+  hip: PoseLandmark,
+  ankle: PoseLandmark,
+): number {
+  const upper = { x: hip.x - shoulder.x, y: hip.y - shoulder.y };
+  const lower = { x: ankle.x - hip.x, y: ankle.y - hip.y };
+  const cross = upper.x * lower.y - upper.y * lower.x;
+  const dot = upper.x * lower.x + upper.y * lower.y;
+  // Image y grows downward, so the sign depends on which way the body faces
+  const facing = ankle.x >= shoulder.x ? 1 : -1;
+
+  return -toDegrees(Math.atan2(cross, dot)) * facing;
+}
+
+// Incline of the shoulder–ankle line from horizontal, in degrees
+export function calculateIncline(
+  shoulder: PoseLandmark,
+  ankle: PoseLandmark,
+): number {
+  return toDegrees(
+    Math.atan2(Math.abs(ankle.y - shoulder.y), Math.abs(ankle.x - shoulder.x)),
+  );
+}
+
+export class HoldTracker {
+  private alignment: HoldAlignment;
+  private lastTimestamp: number | null = null;
+  private previousStatus: HoldStatus = "idle";
+  private segments: HoldSegment[] = [];
+  private currentSegment: HoldSegment | null = null;
+  private qualityWeight = 0;
+  private segmentQualityWeight = 0;
+  private sagTime = 0;
+  private pikeTime = 0;
+
+  constructor(alignment: HoldAlignment) {
+    this.alignment = alignment;
+  }
+
+  // Valid hold time so far, including the segment in progress
+  public get holdTime(): number {
+    return (
+      this.segments.reduce((total, s) => total + s.duration, 0) +
+      (this.currentSegment?.duration ?? 0)
+    );
+  }
+
+  public update(
+    shoulder: PoseLandmark,
+    hip: PoseLandmark,
+    ankle: PoseLandmark,
+    timestamp: number,
+  ): HoldFrame {
+    const { target, sagTolerance, pikeTolerance, penaltyPerDegree } =
+      this.alignment;
+    const elapsed =
+      this.lastTimestamp !== null
+        ? Math.max(0, timestamp - this.lastTimestamp)
+        : 0;
+    this.lastTimestamp = timestamp;
+
+    const bend = calculateHipBend(shoulder, hip, ankle);
+    const deviation = bend - target;
+    const quality = Math.max(0, 100 - Math.abs(deviation) * penaltyPerDegree);
+
+    let status: HoldStatus = "aligned";
+    if (calculateIncline(shoulder, ankle) > this.alignment.maxIncline) {
+      status = "idle";
+    } else if (deviation > sagTolerance) {
+      status = "sagging";
+    } else if (deviation < -pikeTolerance) {
+      status = "piking";
+    }
+
+    // Time since the previous frame is credited to the status held during it
+    if (this.previousStatus === "sagging") this.sagTime += elapsed;
+    if (this.previousStatus === "piking") this.pikeTime += elapsed;
+
+    if (this.currentSegment) {
+      if (status === "aligned") {
+        this.currentSegment.duration += elapsed;
+        this.currentSegment.end = timestamp;
+        this.segmentQualityWeight += quality * elapsed;
+      } else {
+        this.closeSegment();
+      }
+    } else if (status === "aligned") {
+      this.currentSegment = {
+        start: timestamp,
+        end: timestamp,
+        duration: 0,
+        alignmentQuality: Math.round(quality),
+      };
+      this.segmentQualityWeight = 0;
+    }
+
+    this.previousStatus = status;
+    return { status, bend, quality };
+  }
+
+  // Break the hold after a gap in tracking so the unseen time is not credited
+  public interrupt(): void {
+    this.closeSegment();
+    this.lastTimestamp = null;
+    this.previousStatus = "idle";
+  }
+
+  public getSummary(): HoldSummary {
+    const segments = this.currentSegment
+      ? [...this.segments, this.finalizeSegment(this.currentSegment)]
+      : [...this.segments];
+    const totalHoldTime = segments.reduce((total, s) => total + s.duration, 0);
+    const qualityWeight =
+      this.qualityWeight +
+      (this.currentSegment ? this.segmentQualityWeight : 0);
+
+    return {
+      totalHoldTime,
+      longestSegment: segments.reduce((max, s) => Math.max(max, s.duration), 0),
+      sagTime: this.sagTime,
+      pikeTime: this.pikeTime,
+      alignmentQuality:
+        totalHoldTime > 0 ? Math.round(qualityWeight / totalHoldTime) : 0,
+      segments,
+    };
+  }
+
+  private finalizeSegment(segment: HoldSegment): HoldSegment {
+    return {
+      ...segment,
+      alignmentQuality:
+        segment.duration > 0
+          ? Math.round(this.segmentQualityWeight / segment.duration)
+          : segment.alignmentQuality,
+    };
+  }
+
+  private closeSegment(): void {
+    if (!this.currentSegment) return;
+
+    const segment = this.finalizeSegment(this.currentSegment);
+    // Single-frame blips never accumulated any time and are dropped
+    if (segment.duration > 0) {
+      this.segments.push(segment);
+      this.qualityWeight += this.segmentQualityWeight;
+    }
+    this.currentSegment = null;
+    this.segmentQualityWeight = 0;
+  }
+}
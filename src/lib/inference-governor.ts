@@ -0,0 +1,167 @@
+// MediaPipe Pose model variants, cheapest first
+export type ModelComplexity = 0 | 1 | 2;
+
+export const MODEL_COMPLEXITY_LABELS: Record<ModelComplexity, string> = {
+  0: "Lite",
+  1: "Full",
+  2: "Heavy",
+};
+
+export interface InferenceSettings {
+  modelComplexity: ModelComplexity;
+  // Frames are scaled down to this width before inference
+  inputWidth: number;
+}
+
+// Settings the governor moves between, cheapest first
+export const INFERENCE_LEVELS: InferenceSettings[] = [
+  { modelComplexity: 0, inputWidth: 256 },
+  { modelComplexity: 0, inputWidth: 384 },
+  { modelComplexity: 1, inputWidth: 384 },
+  { modelComplexity: 1, inputWidth: 640 },
+  { modelComplexity: 2, inputWidth: 640 },
+];
+
+// Full model at the camera's 640px, as used before the governor existed
+export const DEFAULT_INFERENCE_LEVEL = 3;
+
+export interface GovernorConfig {
+  // Step down below this rate and up above the maximum
+  minFps: number;
+  maxFps: number;
+  // Frames are counted over windows of this length
+  windowMs: number;
+  // Settings are only adjusted during the first part of a session, so
+  // counting is not disturbed by model reloads later on
+  adaptForMs: number;
+}
+
+export const DEFAULT_GOVERNOR: GovernorConfig = {
+  minFps: 15,
+  maxFps: 25,
+  windowMs: 2000,
+  adaptForMs: 12000,
+};
+
+export interface InferenceAdjustment {
+  // Milliseconds since the first frame
+  at: number;
+  fps: number;
+  from: InferenceSettings;
+  to: InferenceSettings;
+}
+
+// Stored with the session so slow devices can be told apart from bad form
+export interface InferenceReport {
+  settings: InferenceSettings;
+  // Frames processed per second over the whole session
+  averageFps: number;
+  adaptive: boolean;
+  adjustments: InferenceAdjustment[];
+}
+
+// Measures achieved inference throughput and picks the richest settings
+// that keep it inside the target band. Timestamps are wall-clock ms.
+export class InferenceGovernor {
+  private config: GovernorConfig;
+  private adaptive: boolean;
+  private level: number;
+  // Lowest level found too slow; the governor never climbs back to it
+  private ceiling = INFERENCE_LEVELS.length;
+  private firstFrameAt: number | null = null;
+  private lastFrameAt: number | null = null;
+  private frameCount = 0;
+  private windowStart: number | null = null;
+  private windowFrames = 0;
+  private adjustments: InferenceAdjustment[] = [];
+
+  constructor(
+    adaptive = true,
+    config: GovernorConfig = DEFAULT_GOVERNOR,
+    level = DEFAULT_INFERENCE_LEVEL,
+  ) {
+    this.adaptive = adaptive;
+    this.config = config;
+    this.level = level;
+  }
+
+  public getSettings(): InferenceSettings {
+    return INFERENCE_LEVELS[this.level];
+  }
+
+  // Count one processed frame; returns new settings when they should change
+  public recordFrame(now: number): InferenceSettings | null {
+    this.firstFrameAt ??= now;
+    this.lastFrameAt = now;
+    this.frameCount++;
+
+    if (!this.adaptive || now - this.firstFrameAt > this.config.adaptForMs) {
+      return null;
+    }
+
+    // The first frame after a change waits on the model reload; start the
+    // window after it
+    if (this.windowStart === null) {
+      this.windowStart = now;
+      this.windowFrames = 0;
+      return null;
+    }
+
+    this.windowFrames++;
+    const elapsed = now - this.windowStart;
+    if (elapsed < this.config.windowMs) return null;
+
+    const fps = (this.windowFrames * 1000) / elapsed;
+    this.windowStart = now;
+    this.windowFrames = 0;
+
+    let next = this.level;
+    if (fps < this.config.minFps && this.level > 0) {
+      this.ceiling = this.level;
+      next = this.level - 1;
+    } else if (fps > this.config.maxFps && this.level + 1 < this.ceiling) {
+      next = this.level + 1;
+    }
+    if (next === this.level) return null;
+
+    const from = this.getSettings();
+    this.level = next;
+    this.windowStart = null;
+    this.adjustments.push({
+      at: Math.round(now - this.firstFrameAt),
+      fps: Math.round(fps * 10) / 10,
+      from,
+      to: this.getSettings(),
+    });
+    return this.getSettings();
+  }
+
+  public getReport(): InferenceReport {
+    const span =
+      this.firstFrameAt !== null && this.lastFrameAt !== null
+        ? this.lastFrameAt - this.firstFrameAt
+        : 0;
+    const averageFps = span > 0 ? ((this.frameCount - 1) * 1000) / span : 0;
+
+    return {
+      settings: this.getSettings(),
+      averageFps: Math.round(averageFps * 10) / 10,
+      adaptive: this.adaptive,
+      adjustments: [...this.adjustments],
+    };
+  }
+}
+
+// Target size for scaling a frame down to the input width, or null when the
+// frame is already small enough
+export function scaledInputSize(
+  width: number,
+  height: number,
+  inputWidth: number,
+): { width: number; height: number } | null {
+  if (width <= inputWidth || width === 0) return null;
+  return {
+    width: inputWidth,
+    height: Math.round((height * inputWidth) / width),
+  };
+}
@@ -0,0 +1,328 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import { POSE_LANDMARKS } from "./pose-landmarks";
+
+export type LivenessVerdict = "live" | "suspicious" | "spoof";
+
+export type LivenessChallengeKind = "raise-left-hand" | "raise-right-hand";
+
+export const LIVENESS_CHALLENGE_PROMPTS: Record<LivenessChallengeKind, string> =
+  {
+    "raise-left-hand": "Raise your left hand above your head now",
+    "raise-right-hand": "Raise your right hand above your head now",
+  };
+
+export interface LivenessChallenge {
+  kind: LivenessChallengeKind;
+  issuedAt: number;
+  // null while the challenge is still open
+  passed: boolean | null;
+}
+
+export interface LivenessReport {
+  verdict: LivenessVerdict;
+  // Why the verdict is not "live"
+  reasons: string[];
+  framesAnalysed: number;
+  // Median frame-to-frame movement of the key landmarks (normalized units)
+  jitter: number;
+  // Share of frames identical to the previous one
+  frozenRatio: number;
+  // Longest run of frames that exactly repeats an earlier moving stretch
+  longestLoop: number;
+  challenges: { kind: LivenessChallengeKind; passed: boolean }[];
+}
+
+export interface LivenessOptions {
+  // Ask for randomized hand raises during the session
+  challenges?: boolean;
+  // Injectable for deterministic tests and replays
+  random?: () => number;
+}
+
+// Landmarks whose x/y make up a frame signature
+const KEY_LANDMARKS = [
+  POSE_LANDMARKS.NOSE,
+  POSE_LANDMARKS.LEFT_SHOULDER,
+  POSE_LANDMARKS.RIGHT_SHOULDER,
+  POSE_LANDMARKS.LEFT_ELBOW,
+  POSE_LANDMARKS.RIGHT_ELBOW,
+  POSE_LANDMARKS.LEFT_WRIST,
+  POSE_LANDMARKS.RIGHT_WRIST,
+  POSE_LANDMARKS.LEFT_HIP,
+  POSE_LANDMARKS.RIGHT_HIP,
+  POSE_LANDMARKS.LEFT_KNEE,
+  POSE_LANDMARKS.RIGHT_KNEE,
+  POSE_LANDMARKS.LEFT_ANKLE,
+  POSE_LANDMARKS.RIGHT_ANKLE,
+];
+
+// Below this mean movement two frames are treated as identical
+const FROZEN_EPSILON = 1e-4;
+// A live body in front of a real sensor never sits this still
+const MIN_LIVE_JITTER = 3e-4;
+const MAX_FROZEN_RATIO = 0.5;
+// Frames this close to an earlier one are an exact repeat. Repeated reps by a
+// person differ by far more than this.
+const LOOP_EPSILON = 1.5e-3;
+// Repeats must lag the original by at least this many frames
+const MIN_LOOP_LAG = 30;
+// The lag may drift by this many frames within one run (dropped frames)
+const LOOP_LAG_SLACK = 2;
+// A run this long, covering real movement, is a replayed loop
+const LOOP_MIN_FRAMES = 20;
+const LOOP_MIN_MOVEMENT = 0.05;
+const MAX_HISTORY = 3600;
+const MIN_FRAMES = 30;
+
+// Randomized prompts: first after 15-35s, then every 30-60s, at most 3
+const CHALLENGE_FIRST_DELAY = { min: 15000, max: 35000 };
+const CHALLENGE_INTERVAL = { min: 30000, max: 60000 };
+const MAX_CHALLENGES = 3;
+const CHALLENGE_WINDOW_MS = 5000;
+// The hand must stay raised this long to count
+const CHALLENGE_HOLD_MS = 300;
+
+const signatureOf = (landmarks: PoseLandmark[]): Float32Array => {
+  const signature = new Float32Array(KEY_LANDMARKS.length * 2);
+  KEY_LANDMARKS.forEach((index, i) => {
+    signature[i * 2] = landmarks[index]?.x ?? 0;
+    signature[i * 2 + 1] = landmarks[index]?.y ?? 0;
+  });
+  return signature;
+};
+
+// Mean absolute difference, giving up early once it exceeds `limit`
+const distance = (a: Float32Array, b: Float32Array, limit = Infinity) => {
+  let total = 0;
+  const max = limit * a.length;
+  for (let i = 0; i < a.length; i++) {
+    total += Math.abs(a[i] - b[i]);
+    if (total > max) return Infinity;
+  }
+  return total / a.length;
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Watches the raw landmark stream for signs that nobody is actually there:
+// a still photo (no sensor jitter), a replayed clip (exact repeats of an
+// earlier stretch) or no response to randomized prompts.
+export class LivenessMonitor {
+  private history: Float32Array[] = [];
+  // Index of the first stored frame within the whole session
+  private historyOffset = 0;
+  private movements: number[] = [];
+  private frozenFrames = 0;
+  private frames = 0;
+  private loopLag: number | null = null;
+  private loopRun = 0;
+  private loopMovement = 0;
+  private longestLoop = 0;
+  private challengesEnabled: boolean;
+  private random: () => number;
+  private firstFrameAt: number | null = null;
+  private nextChallengeAt: number | null = null;
+  private active: LivenessChallenge | null = null;
+  private raisedSince: number | null = null;
+  private completed: { kind: LivenessChallengeKind; passed: boolean }[] = [];
+
+  constructor(options: LivenessOptions = {}) {
+    this.challengesEnabled = options.challenges ?? false;
+    this.random = options.random ?? Math.random;
+  }
+
+  // Feed one frame; returns the challenge the user should be shown, if any
+  public update(
+    landmarks: PoseLandmark[] | null,
+    timestamp: number,
+  ): LivenessChallenge | null {
+    if (landmarks) {
+      this.trackMotion(signatureOf(landmarks));
+    }
+    if (this.challengesEnabled) {
+      this.updateChallenge(landmarks, timestamp);
+    }
+    return this.active;
+  }
+
+  public getActiveChallenge(): LivenessChallenge | null {
+    return this.active;
+  }
+
+  // Frames are not fed while a session is paused; move challenge timing
+  // past the pause so an open prompt is not failed for it
+  public skipPause(durationMs: number): void {
+    if (this.nextChallengeAt !== null) this.nextChallengeAt += durationMs;
+    if (this.active) {
+      this.active = {
+        ...this.active,
+        issuedAt: this.active.issuedAt + durationMs,
+      };
+    }
+    this.raisedSince = null;
+  }
+
+  private trackMotion(signature: Float32Array): void {
+    const previous = this.history[this.history.length - 1];
+    if (previous) {
+      const movement = distance(signature, previous);
+      this.movements.push(movement);
+      if (movement < FROZEN_EPSILON) this.frozenFrames++;
+      this.trackLoop(signature, movement);
+    }
+
+    this.frames++;
+    this.history.push(signature);
+    if (this.history.length > MAX_HISTORY) {
+      this.history.shift();
+      this.historyOffset++;
+    }
+  }
+
+  // Look for the current frame earlier in the session, preferring the lag of
+  // the run in progress so a loop is followed cheaply frame by frame
+  private trackLoop(signature: Float32Array, movement: number): void {
+    const current = this.frames;
+    const matchAt = (lag: number) => {
+      const index = current - lag - this.historyOffset;
+      return lag >= MIN_LOOP_LAG &&
+        index >= 0 &&
+        distance(signature, this.history[index], LOOP_EPSILON) <= LOOP_EPSILON
+        ? lag
+        : null;
+    };
+
+    let lag: number | null = null;
+    if (this.loopLag !== null) {
+      for (let d = -LOOP_LAG_SLACK; d <= LOOP_LAG_SLACK && lag === null; d++) {
+        lag = matchAt(this.loopLag + d);
+      }
+    }
+    if (lag === null) {
+      const oldest = current - this.historyOffset;
+      for (let l = MIN_LOOP_LAG; l <= oldest && lag === null; l++) {
+        lag = matchAt(l);
+      }
+    }
+
+    if (lag === null) {
+      this.loopLag = null;
+      this.loopRun = 0;
+      this.loopMovement = 0;
+      return;
+    }
+
+    this.loopLag = lag;
+    this.loopRun++;
+    this.loopMovement += movement;
+    // A still body matches its own earlier rest; only moving repeats count
+    if (this.loopMovement >= LOOP_MIN_MOVEMENT) {
+      this.longestLoop = Math.max(this.longestLoop, this.loopRun);
+    }
+  }
+
+  private updateChallenge(
+    landmarks: PoseLandmark[] | null,
+    timestamp: number,
+  ): void {
+    const between = (range: { min: number; max: number }) =>
+      range.min + this.random() * (range.max - range.min);
+
+    if (this.firstFrameAt === null) {
+      this.firstFrameAt = timestamp;
+      this.nextChallengeAt = timestamp + between(CHALLENGE_FIRST_DELAY);
+    }
+
+    if (!this.active) {
+      if (
+        this.nextChallengeAt !== null &&
+        timestamp >= this.nextChallengeAt &&
+        this.completed.length < MAX_CHALLENGES
+      ) {
+        this.active = {
+          kind: this.random() < 0.5 ? "raise-left-hand" : "raise-right-hand",
+          issuedAt: timestamp,
+          passed: null,
+        };
+        this.raisedSince = null;
+      }
+      return;
+    }
+
+    const raised = landmarks && this.isHandRaised(landmarks, this.active.kind);
+    this.raisedSince = raised ? (this.raisedSince ?? timestamp) : null;
+
+    const passed =
+      this.raisedSince !== null &&
+      timestamp - this.raisedSince >= CHALLENGE_HOLD_MS;
+    const expired = timestamp - this.active.issuedAt > CHALLENGE_WINDOW_MS;
+    if (passed || expired) {
+      this.completed.push({ kind: this.active.kind, passed });
+      this.active = null;
+      this.nextChallengeAt = timestamp + between(CHALLENGE_INTERVAL);
+    }
+  }
+
+  // Wrist above the nose (image y grows downward)
+  private isHandRaised(
+    landmarks: PoseLandmark[],
+    kind: LivenessChallengeKind,
+  ): boolean {
+    const wrist =
+      landmarks[
+        kind === "raise-left-hand"
+          ? POSE_LANDMARKS.LEFT_WRIST
+          : POSE_LANDMARKS.RIGHT_WRIST
+      ];
+    const nose = landmarks[POSE_LANDMARKS.NOSE];
+    return !!wrist && !!nose && wrist.visibility > 0.5 && wrist.y < nose.y;
+  }
+
+  public getReport(): LivenessReport {
+    const jitter = median(this.movements);
+    const frozenRatio =
+      this.movements.length > 0 ? this.frozenFrames / this.movements.length : 0;
+    const reasons: string[] = [];
+    let verdict: LivenessVerdict = "live";
+
+    if (frozenRatio > MAX_FROZEN_RATIO) {
+      verdict = "spoof";
+      reasons.push("The pose barely changed between frames, as with a photo");
+    }
+    if (this.longestLoop >= LOOP_MIN_FRAMES) {
+      verdict = "spoof";
+      reasons.push("Part of the session exactly repeats an earlier stretch");
+    }
+
+    const failed = this.completed.filter((c) => !c.passed).length;
+    if (verdict === "live") {
+      if (this.frames < MIN_FRAMES) {
+        verdict = "suspicious";
+        reasons.push("Too few frames to verify");
+      } else if (jitter < MIN_LIVE_JITTER) {
+        verdict = "suspicious";
+        reasons.push("Landmarks are unusually still for a live camera");
+      }
+      if (failed > 0) {
+        verdict = "suspicious";
+        reasons.push(
+          `${failed} of ${this.completed.length} hand-raise prompts were missed`,
+        );
+      }
+    }
+
+    return {
+      verdict,
+      reasons,
+      framesAnalysed: this.frames,
+      jitter: Math.round(jitter * 1e6) / 1e6,
+      frozenRatio: Math.round(frozenRatio * 100) / 100,
+      longestLoop: this.longestLoop,
+      challenges: [...this.completed],
+    };
+  }
+}
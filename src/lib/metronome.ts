@@ -0,0 +1,106 @@
+import type { TempoPhase, TempoTarget } from "./tempo";
+
+// Pitch of the accented tick that opens each phase (Hz)
+const PHASE_PITCH: Record<TempoPhase, number> = {
+  up: 1320,
+  hold: 990,
+  down: 660,
+  rest: 440,
+};
+// Softer ticks mark each further second within a phase
+const SECOND_PITCH = 1760;
+const ACCENT_GAIN = 0.5;
+const SECOND_GAIN = 0.15;
+const TICK_LENGTH_S = 0.05;
+// Ticks are scheduled on the audio clock this far ahead of time, checked at
+// SCHEDULE_INTERVAL_MS, so timer jitter never shifts them
+const LOOKAHEAD_S = 0.2;
+const SCHEDULE_INTERVAL_MS = 50;
+
+const PHASE_ORDER: TempoPhase[] = ["up", "hold", "down", "rest"];
+
+interface Tick {
+  // Seconds from the start of a cycle
+  offset: number;
+  accent: boolean;
+  phase: TempoPhase;
+}
+
+// Every tick of one cycle, in order
+function cycleTicks(target: TempoTarget): Tick[] {
+  const ticks: Tick[] = [];
+  let offset = 0;
+  for (const phase of PHASE_ORDER) {
+    const duration = target[phase];
+    for (let s = 0; s < duration; s++) {
+      ticks.push({ offset: offset + s, accent: s === 0, phase });
+    }
+    offset += duration;
+  }
+  return ticks;
+}
+
+// Audible tempo ticks via the Web Audio API. Phase boundaries get an accented
+// tick pitched per phase; whole seconds inside a phase get a soft one.
+export class Metronome {
+  private ticks: Tick[];
+  private cycleLength: number;
+  private context: AudioContext | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private startTime = 0;
+  private nextTick = 0;
+
+  constructor(target: TempoTarget) {
+    this.ticks = cycleTicks(target);
+    this.cycleLength = target.up + target.hold + target.down + target.rest;
+  }
+
+  public start(): void {
+    if (this.context || this.ticks.length === 0) return;
+    this.context = new AudioContext();
+    this.startTime = this.context.currentTime + 0.05;
+    this.nextTick = 0;
+    this.schedule();
+    this.timer = setInterval(() => this.schedule(), SCHEDULE_INTERVAL_MS);
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+
+  private schedule(): void {
+    const context = this.context;
+    if (!context) return;
+
+    for (;;) {
+      const cycle = Math.floor(this.nextTick / this.ticks.length);
+      const tick = this.ticks[this.nextTick % this.ticks.length];
+      const at = this.startTime + cycle * this.cycleLength + tick.offset;
+      if (at > context.currentTime + LOOKAHEAD_S) return;
+      // Ticks missed while the page was throttled are skipped, not bunched
+      if (at >= context.currentTime) {
+        this.click(
+          at,
+          tick.accent ? PHASE_PITCH[tick.phase] : SECOND_PITCH,
+          tick.accent ? ACCENT_GAIN : SECOND_GAIN,
+        );
+      }
+      this.nextTick++;
+    }
+  }
+
+  private click(at: number, frequency: number, gain: number): void {
+    const context = this.context!;
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    oscillator.frequency.value = frequency;
+    envelope.gain.setValueAtTime(gain, at);
+    envelope.gain.exponentialRampToValueAtTime(0.001, at + TICK_LENGTH_S);
+    oscillator.connect(envelope).connect(context.destination);
+    oscillator.start(at);
+    oscillator.stop(at + TICK_LENGTH_S);
+  }
+}
@@ -0,0 +1,158 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import { POSE_LANDMARKS } from "./pose-landmarks";
+import type { ExerciseDefinition } from "./exercises";
+
+// "side-left" means the user's left side faces the camera
+export type ViewOrientation = "front" | "side-left" | "side-right" | "unknown";
+
+export type PreferredView = "side" | "front" | "any";
+
+export interface OrientationEstimate {
+  view: ViewOrientation;
+  // Shoulder width divided by torso length; small when side-on
+  shoulderWidthRatio: number;
+  // Mean visibility of the left side minus the right side
+  visibilityBias: number;
+}
+
+const LEFT_SIDE = [
+  POSE_LANDMARKS.LEFT_SHOULDER,
+  POSE_LANDMARKS.LEFT_HIP,
+  POSE_LANDMARKS.LEFT_KNEE,
+  POSE_LANDMARKS.LEFT_ANKLE,
+];
+const RIGHT_SIDE = [
+  POSE_LANDMARKS.RIGHT_SHOULDER,
+  POSE_LANDMARKS.RIGHT_HIP,
+  POSE_LANDMARKS.RIGHT_KNEE,
+  POSE_LANDMARKS.RIGHT_ANKLE,
+];
+
+// Below this ratio the shoulders overlap enough to call it a side view
+const SIDE_RATIO = 0.3;
+// Above this ratio the user is clearly facing the camera
+const FRONT_RATIO = 0.45;
+// A visibility gap this large means the far side is mostly hidden
+const SIDE_VISIBILITY_BIAS = 0.25;
+
+const meanVisibility = (landmarks: PoseLandmark[], indices: number[]) =>
+  indices.reduce((sum, i) => sum + (landmarks[i]?.visibility ?? 0), 0) /
+  indices.length;
+
+const meanDepth = (landmarks: PoseLandmark[], indices: number[]) =>
+  indices.reduce((sum, i) => sum + (landmarks[i]?.z ?? 0), 0) / indices.length;
+
+function classify(
+  shoulderWidthRatio: number,
+  visibilityBias: number,
+  depthBias: number,
+): ViewOrientation {
+  const isSide =
+    shoulderWidthRatio < SIDE_RATIO ||
+    (shoulderWidthRatio < FRONT_RATIO &&
+      Math.abs(visibilityBias) > SIDE_VISIBILITY_BIAS);
+
+  if (!isSide) return "front";
+
+  // Prefer visibility to pick the near side; fall back to depth (smaller z is
+  // closer to the camera) when both sides are equally visible
+  if (Math.abs(visibilityBias) > 0.05) {
+    return visibilityBias > 0 ? "side-left" : "side-right";
+  }
+  return depthBias < 0 ? "side-left" : "side-right";
+}
+
+// Estimate the viewing orientation from a single frame
+export function detectOrientation(
+  landmarks: PoseLandmark[],
+): OrientationEstimate {
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) {
+    return { view: "unknown", shoulderWidthRatio: 0, visibilityBias: 0 };
+  }
+
+  const shoulderWidth = Math.hypot(
+    leftShoulder.x - rightShoulder.x,
+    leftShoulder.y - rightShoulder.y,
+  );
+  const torsoLength = Math.hypot(
+    (leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2,
+    (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2,
+  );
+  const shoulderWidthRatio = torsoLength > 0 ? shoulderWidth / torsoLength : 0;
+  const visibilityBias =
+    meanVisibility(landmarks, LEFT_SIDE) -
+    meanVisibility(landmarks, RIGHT_SIDE);
+  const depthBias =
+    meanDepth(landmarks, LEFT_SIDE) - meanDepth(landmarks, RIGHT_SIDE);
+
+  return {
+    view: classify(shoulderWidthRatio, visibilityBias, depthBias),
+    shoulderWidthRatio,
+    visibilityBias,
+  };
+}
+
+// Smooths the per-frame estimate so the measured side does not flicker
+export class OrientationTracker {
+  private smoothing: number;
+  private ratio: number | null = null;
+  private bias = 0;
+  private depth = 0;
+  private estimate: OrientationEstimate = {
+    view: "unknown",
+    shoulderWidthRatio: 0,
+    visibilityBias: 0,
+  };
+
+  constructor(smoothing = 0.15) {
+    this.smoothing = smoothing;
+  }
+
+  public update(landmarks: PoseLandmark[]): OrientationEstimate {
+    const frame = detectOrientation(landmarks);
+    if (frame.view === "unknown") return this.estimate;
+
+    const depthBias =
+      meanDepth(landmarks, LEFT_SIDE) - meanDepth(landmarks, RIGHT_SIDE);
+    const a = this.ratio === null ? 1 : this.smoothing;
+
+    this.ratio =
+      this.ratio === null
+        ? frame.shoulderWidthRatio
+        : this.ratio + a * (frame.shoulderWidthRatio - this.ratio);
+    this.bias += a * (frame.visibilityBias - this.bias);
+    this.depth += a * (depthBias - this.depth);
+
+    this.estimate = {
+      view: classify(this.ratio, this.bias, this.depth),
+      shoulderWidthRatio: this.ratio,
+      visibilityBias: this.bias,
+    };
+    return this.estimate;
+  }
+
+  public getEstimate(): OrientationEstimate {
+    return this.estimate;
+  }
+}
+
+// Explain how to reposition when the view does not suit the exercise
+export function getOrientationWarning(
+  exercise: ExerciseDefinition,
+  view: ViewOrientation,
+): string | null {
+  if (view === "unknown" || exercise.preferredView === "any") return null;
+
+  if (exercise.preferredView === "side" && view === "front") {
+    return `${exercise.name}: turn side-on to the camera`;
+  }
+  if (exercise.preferredView === "front" && view !== "front") {
+    return `${exercise.name}: face the camera`;
+  }
+  return null;
+}
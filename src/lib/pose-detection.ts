@@ -1,69 +1,275 @@
-import type { Pose, Results, PoseLandmark } from "@mediapipe/pose";
-import type { Camera } from "@mediapipe/camera_utils";
+import type { Pose, PoseOptions, Results, PoseLandmark } from "@mediapipe/pose";
+import {
+  DEFAULT_EXERCISE_ID,
+  getExercise,
+  type ExerciseDefinition,
+  type FormRule,
+  type HoldExerciseDefinition,
+  type LandmarkPair,
+  type RepExerciseDefinition,
+  type RotationExerciseDefinition,
+} from "./exercises";
+import {
+  HoldTracker,
+  type HoldStatus,
+  type HoldSummary,
+} from "./hold-tracking";
+import { calculateRotationSignal, type RotationSide } from "./rotation";
+import { OrientationTracker, type ViewOrientation } from "./orientation";
+import { TrackingGuard, type TrackingStatus } from "./tracking-guard";
+import { AthleteLock, type AthleteLockStatus } from "./athlete-lock";
+import { LANDMARK_SIDES, type BodySide } from "./pose-landmarks";
+import {
+  DEFAULT_SMOOTHING,
+  LandmarkFilter,
+  createFilter,
+  type ScalarFilter,
+  type SmoothingConfig,
+} from "./filters";
+import { RepRecorder, type RepEvent } from "./rep-analytics";
+import {
+  CameraFrameSource,
+  getFrameSize,
+  type FrameSource,
+  type SourceFrame,
+} from "./frame-sources";
+import {
+  FormFaultDetector,
+  applyFaultPenalty,
+  type FormFault,
+} from "./form-faults";
 
 export interface ExerciseState {
   counter: number;
   status: "up" | "down";
   angle: number;
   formAccuracy: number;
+  // Milliseconds spent aligned (hold exercises only)
+  holdTime: number;
+  holdStatus: HoldStatus;
+  // Per-side counts and the last side counted (rotation exercises only)
+  leftCount: number;
+  rightCount: number;
+  lastSide: RotationSide | null;
+  // Camera viewing orientation the angle was measured from
+  view: ViewOrientation;
+  // Most recently completed rep (rep and rotation exercises only)
+  lastRep: RepEvent | null;
+  // Named form faults active on the current frame
+  faults: FormFault[];
+  // Counting is frozen unless the required landmarks are being tracked
+  tracking: TrackingStatus;
+  // Milliseconds spent with tracking lost
+  trackingLostTime: number;
+  // Whether the tracked skeleton is the athlete the session started with
+  athleteLock: AthleteLockStatus;
+  // Times counting resumed on someone who only roughly matched the athlete
+  athleteSwitches: number;
 }
 
 export { PoseLandmark };
+export { POSE_LANDMARKS } from "./pose-landmarks";
+
+// MediaPipe model files are served from the CDN
+export const locatePoseFile = (file: string): string =>
+  `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
+
+export const POSE_MODEL_OPTIONS: PoseOptions = {
+  modelComplexity: 1,
+  smoothLandmarks: true,
+  enableSegmentation: false,
+  smoothSegmentation: false,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+// Load MediaPipe Pose on the main thread
+export async function createPoseModel(
+  options: Partial<PoseOptions> = {},
+): Promise<Pose> {
+  // Dynamic import to avoid SSR issues
+  const { Pose } = await import("@mediapipe/pose");
+  const pose = new Pose({ locateFile: locatePoseFile });
+  pose.setOptions({ ...POSE_MODEL_OPTIONS, ...options });
+  return pose;
+}
+
+// Thresholds were tuned on 640x480 frames. Landmarks are normalized per axis,
+// so on other aspect ratios x is rescaled to keep angles comparable.
+export const REFERENCE_ASPECT_RATIO = 4 / 3;
+
+export const createInitialExerciseState = (): ExerciseState => ({
+  counter: 0,
+  status: "down",
+  angle: 0,
+  formAccuracy: 100,
+  holdTime: 0,
+  holdStatus: "idle",
+  leftCount: 0,
+  rightCount: 0,
+  lastSide: null,
+  view: "unknown",
+  lastRep: null,
+  faults: [],
+  tracking: "tracking",
+  trackingLostTime: 0,
+  athleteLock: "enrolling",
+  athleteSwitches: 0,
+});
 
 export class AbsExerciseDetector {
   private pose: Pose | null = null;
-  private camera: Camera | null = null;
-  private onResults: ((results: Results) => void) | null = null;
+  private source: FrameSource | null = null;
+  private currentFrame: SourceFrame | null = null;
+  private onResults: ((results: Results, frame: SourceFrame) => void) | null =
+    null;
+  private exercise: ExerciseDefinition;
+  private holdTracker: HoldTracker | null = null;
+  private repRecorder: RepRecorder | null = null;
+  private faultDetector: FormFaultDetector;
+  private orientationTracker = new OrientationTracker();
+  private trackingGuard = new TrackingGuard();
+  private athleteLock = new AthleteLock();
+  private smoothing: SmoothingConfig;
+  private landmarkFilter: LandmarkFilter | null;
+  private angleFilter: ScalarFilter | null;
+  private lastFrameAt: number | null = null;
+  private lastRawAngle: number | null = null;
+  private lastAngle: number | null = null;
+  private angularVelocity = 0;
+  private phaseEnteredAt: number | null = null;
+  private aspectScale = 1;
 
-  constructor() {
-    // Will be initialized when MediaPipe loads
+  constructor(
+    exercise: ExerciseDefinition = getExercise(DEFAULT_EXERCISE_ID),
+    smoothing: SmoothingConfig = DEFAULT_SMOOTHING,
+  ) {
+    // Pose and camera will be initialized when MediaPipe loads
+    this.exercise = exercise;
+    this.smoothing = smoothing;
+    this.faultDetector = new FormFaultDetector(exercise.faults);
+    this.landmarkFilter = smoothing.landmarks
+      ? new LandmarkFilter(smoothing.landmarks)
+      : null;
+    this.angleFilter = smoothing.angle ? createFilter(smoothing.angle) : null;
+    if (exercise.mode === "hold") {
+      this.holdTracker = new HoldTracker(exercise.alignment);
+    } else {
+      this.repRecorder = new RepRecorder(exercise);
+    }
   }
 
-  public async initialize(
-    videoElement: HTMLVideoElement,
-    onResultsCallback: (results: Results) => void,
-  ): Promise<void> {
-    // Dynamic import to avoid SSR issues
-    const { Pose } = await import("@mediapipe/pose");
-    const { Camera } = await import("@mediapipe/camera_utils");
+  public getExercise(): ExerciseDefinition {
+    return this.exercise;
+  }
 
-    this.onResults = onResultsCallback;
+  // Swap in a different definition (e.g. calibrated thresholds) mid-session
+  public setExercise(exercise: ExerciseDefinition): void {
+    this.exercise = exercise;
+    this.holdTracker =
+      exercise.mode === "hold" ? new HoldTracker(exercise.alignment) : null;
+    this.repRecorder =
+      exercise.mode === "hold" ? null : new RepRecorder(exercise);
+    this.faultDetector = new FormFaultDetector(exercise.faults);
+    this.trackingGuard.restart();
+    this.resetFilters();
+  }
 
-    this.pose = new Pose({
-      locateFile: (file: string) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
-      },
-    });
+  // Forget filter history, e.g. after a gap in the frame stream
+  private resetFilters(): void {
+    this.landmarkFilter?.reset();
+    this.angleFilter?.reset();
+    this.faultDetector.reset();
+    this.holdTracker?.interrupt();
+    this.lastRawAngle = null;
+    this.lastAngle = null;
+    this.angularVelocity = 0;
+    this.phaseEnteredAt = null;
+  }
 
-    this.pose.setOptions({
-      modelComplexity: 1,
-      smoothLandmarks: true,
-      enableSegmentation: false,
-      smoothSegmentation: false,
-      minDetectionConfidence: 0.5,
-      minTrackingConfidence: 0.5,
-    });
+  // Smooth the rep angle and track its velocity (degrees per second).
+  // Returns null when the raw angle jumps faster than a body can move.
+  private smoothAngle(
+    rawAngle: number,
+    timestamp: number,
+    dt: number,
+  ): number | null {
+    const lastRaw = this.lastRawAngle;
+    this.lastRawAngle = rawAngle;
 
-    if (this.pose && this.onResults) {
-      this.pose.onResults(this.onResults);
+    if (
+      lastRaw !== null &&
+      dt > 0 &&
+      Math.abs(rawAngle - lastRaw) / dt > this.smoothing.maxAngularVelocity
+    ) {
+      return null;
+    }
+
+    const angle = this.angleFilter
+      ? this.angleFilter.filter(rawAngle, timestamp)
+      : rawAngle;
+    if (this.lastAngle !== null && dt > 0) {
+      this.angularVelocity = (angle - this.lastAngle) / dt;
+    }
+    this.lastAngle = angle;
+    return angle;
+  }
+
+  // Pixel size of the frames being analysed; portrait and widescreen frames
+  // are mapped onto the reference aspect ratio before any geometry
+  public setFrameSize(width: number, height: number): void {
+    if (width > 0 && height > 0) {
+      this.aspectScale = width / height / REFERENCE_ASPECT_RATIO;
     }
+  }
 
-    this.camera = new Camera(videoElement, {
-      onFrame: async () => {
-        if (this.pose) {
-          await this.pose.send({ image: videoElement });
+  // Hold segments and alignment quality (hold exercises only)
+  public getHoldSummary(): HoldSummary | null {
+    return this.holdTracker ? this.holdTracker.getSummary() : null;
+  }
+
+  // Every completed rep so far, closing one still in progress
+  public getRepEvents(): RepEvent[] {
+    if (!this.repRecorder) return [];
+    this.repRecorder.finish();
+    return [...this.repRecorder.getEvents()];
+  }
+
+  // Start detection on a frame source; a video element means the webcam.
+  // Results arrive with the frame (and its timestamp) they were computed from.
+  public async initialize(
+    source: HTMLVideoElement | FrameSource,
+    onResultsCallback: (results: Results, frame: SourceFrame) => void,
+  ): Promise<void> {
+    this.onResults = onResultsCallback;
+    this.pose = await createPoseModel();
+
+    if (this.pose && this.onResults) {
+      this.pose.onResults((results: Results) => {
+        if (this.currentFrame && this.onResults) {
+          this.onResults(results, this.currentFrame);
         }
-      },
-      width: 640,
-      height: 480,
-    });
+      });
+    }
+
+    this.source =
+      source instanceof HTMLVideoElement
+        ? new CameraFrameSource(source)
+        : source;
 
-    await this.camera.start();
+    await this.source.start(async (frame) => {
+      if (this.pose) {
+        this.currentFrame = frame;
+        const { width, height } = getFrameSize(frame.image);
+        this.setFrameSize(width, height);
+        await this.pose.send({ image: frame.image });
+      }
+    });
   }
 
   public stop(): void {
-    if (this.camera) {
-      this.camera.stop();
+    if (this.source) {
+      this.source.stop();
     }
   }
 
@@ -92,121 +298,304 @@ export class AbsExerciseDetector {
     return landmarks[partIndex];
   }
 
-  // Calculate abs exercise angle (sit-up/crunch)
-  public calculateAbsAngle(landmarks: PoseLandmark[]): number {
-    // Get shoulder, hip, and knee landmarks
-    const leftShoulder = this.getBodyPart(landmarks, 11); // LEFT_SHOULDER
-    const rightShoulder = this.getBodyPart(landmarks, 12); // RIGHT_SHOULDER
-    const leftHip = this.getBodyPart(landmarks, 23); // LEFT_HIP
-    const rightHip = this.getBodyPart(landmarks, 24); // RIGHT_HIP
-    const leftKnee = this.getBodyPart(landmarks, 25); // LEFT_KNEE
-    const rightKnee = this.getBodyPart(landmarks, 26); // RIGHT_KNEE
-
-    // Calculate average points
-    const shoulderAvg = {
-      x: (leftShoulder.x + rightShoulder.x) / 2,
-      y: (leftShoulder.y + rightShoulder.y) / 2,
-      z: (leftShoulder.z + rightShoulder.z) / 2,
-      visibility: (leftShoulder.visibility + rightShoulder.visibility) / 2,
-    };
+  // Combine the left and right landmarks of a pair. Facing the camera both
+  // sides are averaged; side-on, the near side is used and the far side only
+  // contributes in proportion to its visibility.
+  private resolvePair(
+    landmarks: PoseLandmark[],
+    pair: LandmarkPair,
+  ): PoseLandmark {
+    const left = this.getBodyPart(landmarks, pair.left);
+    const right = this.getBodyPart(landmarks, pair.right);
+    const { view } = this.orientationTracker.getEstimate();
+
+    let leftWeight = 0.5;
+    let rightWeight = 0.5;
+    if (view === "side-left" || view === "side-right") {
+      const near = view === "side-left" ? left : right;
+      const far = view === "side-left" ? right : left;
+      const nearWeight = Math.max(near.visibility, 0.01);
+      // Far side is suppressed unless the near landmark is poorly visible
+      const farWeight =
+        near.visibility >= 0.5 ? 0 : Math.max(far.visibility, 0) ** 2;
+      const total = nearWeight + farWeight;
+
+      leftWeight = (view === "side-left" ? nearWeight : farWeight) / total;
+      rightWeight = 1 - leftWeight;
+    }
 
-    const hipAvg = {
-      x: (leftHip.x + rightHip.x) / 2,
-      y: (leftHip.y + rightHip.y) / 2,
-      z: (leftHip.z + rightHip.z) / 2,
-      visibility: (leftHip.visibility + rightHip.visibility) / 2,
+    return {
+      x: left.x * leftWeight + right.x * rightWeight,
+      y: left.y * leftWeight + right.y * rightWeight,
+      z: left.z * leftWeight + right.z * rightWeight,
+      visibility: left.visibility * leftWeight + right.visibility * rightWeight,
     };
+  }
+
+  // Calculate the angle measured by the current exercise definition
+  public calculateAbsAngle(landmarks: PoseLandmark[]): number {
+    const { a, b, c } = this.exercise.joints;
+
+    return this.calculateAngle(
+      this.resolvePair(landmarks, a),
+      this.resolvePair(landmarks, b),
+      this.resolvePair(landmarks, c),
+    );
+  }
+
+  // Score how close the angle is to the ideal for the current phase
+  private calculateFormAccuracy(
+    angle: number,
+    status: ExerciseState["status"],
+    formRules: FormRule[],
+  ): number {
+    const rule = formRules.find((r) => r.phase === status);
+    if (!rule) return 100;
 
-    const kneeAvg = {
-      x: (leftKnee.x + rightKnee.x) / 2,
-      y: (leftKnee.y + rightKnee.y) / 2,
-      z: (leftKnee.z + rightKnee.z) / 2,
-      visibility: (leftKnee.visibility + rightKnee.visibility) / 2,
+    const deviation = Math.abs(angle - rule.target);
+    if (deviation <= rule.tolerance) return 100;
+
+    return Math.max(0, 100 - deviation * rule.penaltyPerDegree);
+  }
+
+  // Entry point for every frame, with or without a detected pose. Frames
+  // missing required landmarks, or showing someone other than the athlete
+  // (see AthleteLock), are skipped; once tracking is lost the state is
+  // frozen until the pose has been stable again (see TrackingGuard).
+  public processPose(
+    landmarks: PoseLandmark[] | null | undefined,
+    currentState: ExerciseState,
+    timestamp: number = Date.now(),
+  ): ExerciseState {
+    const visible = !!landmarks && this.isValidPose(landmarks);
+    const athleteLock = visible
+      ? this.athleteLock.update(landmarks, timestamp, this.aspectScale)
+      : this.athleteLock.getStatus();
+    // Frames from someone else count as the athlete being out of frame
+    const valid = visible && athleteLock !== "other";
+    const tracking = this.trackingGuard.update(valid, timestamp);
+    const state: ExerciseState = {
+      ...currentState,
+      tracking,
+      trackingLostTime: this.trackingGuard.lostTime(timestamp),
+      athleteLock,
+      athleteSwitches: this.athleteLock.getSwitches(),
+      ...(tracking !== "tracking" && { faults: [] }),
     };
 
-    return this.calculateAngle(shoulderAvg, hipAvg, kneeAvg);
+    if (!landmarks || !this.trackingGuard.counting) return state;
+    return this.processAbsExercise(landmarks, state, timestamp);
   }
 
-  // Process abs exercise (sit-up/crunch)
+  // Process one frame of the selected abs exercise
   public processAbsExercise(
     landmarks: PoseLandmark[],
     currentState: ExerciseState,
+    timestamp: number = Date.now(),
   ): ExerciseState {
-    const angle = this.calculateAbsAngle(landmarks);
+    const exercise = this.exercise;
+    const dt =
+      this.lastFrameAt === null ? 0 : (timestamp - this.lastFrameAt) / 1000;
+    if (dt * 1000 > this.smoothing.maxFrameGap) {
+      this.resetFilters();
+    }
+    this.lastFrameAt = timestamp;
+
+    const scaled =
+      this.aspectScale === 1
+        ? landmarks
+        : landmarks.map((landmark) => ({
+            ...landmark,
+            x: landmark.x * this.aspectScale,
+          }));
+    const smoothed = this.landmarkFilter
+      ? this.landmarkFilter.filter(scaled, timestamp)
+      : scaled;
+    const { view } = this.orientationTracker.update(smoothed);
+    const state = { ...currentState, view };
+
+    let next: ExerciseState;
+    switch (exercise.mode) {
+      case "hold":
+        return this.processHold(exercise, smoothed, state, timestamp);
+      case "rotation":
+        next = this.processRotation(exercise, smoothed, state);
+        break;
+      default:
+        next = this.processReps(exercise, smoothed, state, timestamp, dt);
+    }
+
+    // The fault baseline is learned only while the user is at rest
+    const resting =
+      next.status === "down" &&
+      (exercise.mode !== "reps" || next.angle >= exercise.thresholds.down);
+    const faults = this.faultDetector.update(
+      smoothed,
+      next.angle,
+      resting,
+      timestamp,
+    );
+    next = {
+      ...next,
+      faults,
+      formAccuracy: applyFaultPenalty(next.formAccuracy, faults),
+    };
+
+    const rep = this.repRecorder?.update({
+      timestamp,
+      angle: next.angle,
+      status: next.status,
+      counter: next.counter,
+      formAccuracy: next.formAccuracy,
+      side: next.lastSide,
+      faults,
+    });
+    return rep ? { ...next, lastRep: rep } : next;
+  }
+
+  // Count a rep each time the smoothed angle crosses the up threshold. A
+  // phase must last minPhaseDwell and the angle must not be heading back the
+  // other way before it can change, so jitter at a threshold is ignored.
+  private processReps(
+    exercise: RepExerciseDefinition,
+    landmarks: PoseLandmark[],
+    currentState: ExerciseState,
+    timestamp: number,
+    dt: number,
+  ): ExerciseState {
+    const angle = this.smoothAngle(
+      this.calculateAbsAngle(landmarks),
+      timestamp,
+      dt,
+    );
+    // Drop glitch frames without touching the phase
+    if (angle === null) return currentState;
+
+    const { up, down } = exercise.thresholds;
+    const { minPhaseDwell, maxOpposingVelocity } = this.smoothing;
     let { counter, status } = currentState;
 
-    // Sit-up logic based on angle thresholds
+    if (this.phaseEnteredAt === null) this.phaseEnteredAt = timestamp;
+    const dwelled = timestamp - this.phaseEnteredAt >= minPhaseDwell;
+
     if (status === "down") {
-      if (angle < 55) {
-        // Person is in up position
+      if (
+        angle < up &&
+        dwelled &&
+        this.angularVelocity <= maxOpposingVelocity
+      ) {
+        // Person reached the top of the rep
         counter += 1;
         status = "up";
+        this.phaseEnteredAt = timestamp;
       }
-    } else {
-      if (angle > 105) {
-        // Person is in down position
-        status = "down";
-      }
+    } else if (
+      angle > down &&
+      dwelled &&
+      this.angularVelocity >= -maxOpposingVelocity
+    ) {
+      // Person is back in the start position
+      status = "down";
+      this.phaseEnteredAt = timestamp;
+    }
+
+    return {
+      ...currentState,
+      counter,
+      status,
+      angle,
+      formAccuracy: Math.round(
+        this.calculateFormAccuracy(angle, status, exercise.formRules),
+      ),
+    };
+  }
+
+  // Accumulate aligned hold time from the shoulder–hip–ankle line
+  private processHold(
+    exercise: HoldExerciseDefinition,
+    landmarks: PoseLandmark[],
+    currentState: ExerciseState,
+    timestamp: number,
+  ): ExerciseState {
+    if (!this.holdTracker) {
+      this.holdTracker = new HoldTracker(exercise.alignment);
     }
 
-    // Calculate form accuracy based on angle range
-    let formAccuracy = 100;
-    if (status === "up" && (angle < 45 || angle > 65)) {
-      formAccuracy = Math.max(0, 100 - Math.abs(angle - 55) * 2);
-    } else if (status === "down" && (angle < 95 || angle > 115)) {
-      formAccuracy = Math.max(0, 100 - Math.abs(angle - 105) * 2);
+    const { a, b, c } = exercise.joints;
+    const frame = this.holdTracker.update(
+      this.resolvePair(landmarks, a),
+      this.resolvePair(landmarks, b),
+      this.resolvePair(landmarks, c),
+      timestamp,
+    );
+
+    return {
+      ...currentState,
+      status: frame.status === "aligned" ? "up" : "down",
+      angle: this.calculateAbsAngle(landmarks),
+      formAccuracy: Math.round(frame.quality),
+      holdTime: this.holdTracker.holdTime,
+      holdStatus: frame.status,
+    };
+  }
+
+  // Count alternating sides from the torso rotation signal
+  private processRotation(
+    exercise: RotationExerciseDefinition,
+    landmarks: PoseLandmark[],
+    currentState: ExerciseState,
+  ): ExerciseState {
+    const { rotation, reach } = calculateRotationSignal(landmarks);
+    const { minRotation, maxReach } = exercise.rotation;
+    let { counter, leftCount, rightCount, lastSide } = currentState;
+
+    let turnedTo: RotationSide | null = null;
+    if (rotation >= minRotation) turnedTo = "left";
+    if (rotation <= -minRotation) turnedTo = "right";
+
+    const engaged =
+      turnedTo !== null &&
+      (maxReach === undefined || reach[turnedTo] <= maxReach);
+
+    // A side only counts after the other side has been reached
+    if (engaged && turnedTo !== lastSide) {
+      counter += 1;
+      if (turnedTo === "left") leftCount += 1;
+      else rightCount += 1;
+      lastSide = turnedTo;
     }
 
+    const status = engaged ? "up" : "down";
+
     return {
+      ...currentState,
       counter,
       status,
-      angle,
-      formAccuracy: Math.round(formAccuracy),
+      angle: rotation,
+      formAccuracy: Math.round(
+        this.calculateFormAccuracy(
+          Math.abs(rotation),
+          status,
+          exercise.formRules,
+        ),
+      ),
+      leftCount,
+      rightCount,
+      lastSide,
     };
   }
 
-  // Check if pose landmarks are valid
+  // Check if the landmarks required by the exercise are visible. Side-on the
+  // far limbs are often hidden, so one complete side of the body is enough.
   public isValidPose(landmarks: PoseLandmark[]): boolean {
-    const requiredLandmarks = [11, 12, 23, 24, 25, 26]; // Shoulders, hips, knees
-    return requiredLandmarks.every(
-      (index) => landmarks[index] && landmarks[index].visibility > 0.5,
-    );
+    const visible = (index: number) =>
+      !!landmarks[index] && landmarks[index].visibility > 0.5;
+    const required = this.exercise.requiredLandmarks;
+    const sideVisible = (side: BodySide) =>
+      required
+        .filter((index) => (LANDMARK_SIDES[index] ?? side) === side)
+        .every(visible);
+
+    return sideVisible("left") || sideVisible("right");
   }
 }
-
-// MediaPipe pose landmark indices
-export const POSE_LANDMARKS = {
-  NOSE: 0,
-  LEFT_EYE_INNER: 1,
-  LEFT_EYE: 2,
-  LEFT_EYE_OUTER: 3,
-  RIGHT_EYE_INNER: 4,
-  RIGHT_EYE: 5,
-  RIGHT_EYE_OUTER: 6,
-  LEFT_EAR: 7,
-  RIGHT_EAR: 8,
-  MOUTH_LEFT: 9,
-  MOUTH_RIGHT: 10,
-  LEFT_SHOULDER: 11,
-  RIGHT_SHOULDER: 12,
-  LEFT_ELBOW: 13,
-  RIGHT_ELBOW: 14,
-  LEFT_WRIST: 15,
-  RIGHT_WRIST: 16,
-  LEFT_PINKY: 17,
-  RIGHT_PINKY: 18,
-  LEFT_INDEX: 19,
-  RIGHT_INDEX: 20,
-  LEFT_THUMB: 21,
-  RIGHT_THUMB: 22,
-  LEFT_HIP: 23,
-  RIGHT_HIP: 24,
-  LEFT_KNEE: 25,
-  RIGHT_KNEE: 26,
-  LEFT_ANKLE: 27,
-  RIGHT_ANKLE: 28,
-  LEFT_HEEL: 29,
-  RIGHT_HEEL: 30,
-  LEFT_FOOT_INDEX: 31,
-  RIGHT_FOOT_INDEX: 32,
-};
@@ -0,0 +1,137 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+
+// Works on both the page canvas and an OffscreenCanvas inside a worker
+export type DrawingContext =
+  CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Pose connections for drawing skeleton (based on MediaPipe POSE_CONNECTIONS)
+export const POSE_CONNECTIONS = [
+  // Face
+  [0, 1],
+  [1, 2],
+  [2, 3],
+  [3, 7],
+  [0, 4],
+  [4, 5],
+  [5, 6],
+  [6, 8],
+  // Torso
+  [9, 10],
+  [11, 12],
+  [11, 13],
+  [13, 15],
+  [15, 17],
+  [15, 19],
+  [15, 21],
+  [12, 14],
+  [14, 16],
+  [16, 18],
+  [16, 20],
+  [16, 22],
+  [11, 23],
+  [12, 24],
+  [23, 24],
+  // Left arm
+  [11, 13],
+  [13, 15],
+  [15, 17],
+  [17, 19],
+  [19, 15],
+  [15, 21],
+  // Right arm
+  [12, 14],
+  [14, 16],
+  [16, 18],
+  [18, 20],
+  [20, 16],
+  [16, 22],
+  // Left leg
+  [23, 25],
+  [25, 27],
+  [27, 29],
+  [29, 31],
+  [27, 31],
+  // Right leg
+  [24, 26],
+  [26, 28],
+  [28, 30],
+  [30, 32],
+  [28, 32],
+];
+
+// Draw pose connections
+export const drawPoseConnections = (
+  ctx: DrawingContext,
+  landmarks: PoseLandmark[],
+  connections: number[][],
+  width: number,
+  height: number,
+) => {
+  ctx.strokeStyle = "#00FF00"; // Green connections
+  ctx.lineWidth = 2;
+
+  connections.forEach(([startIdx, endIdx]) => {
+    const startLandmark = landmarks[startIdx];
+    const endLandmark = landmarks[endIdx];
+
+    if (
+      startLandmark &&
+      endLandmark &&
+      (startLandmark.visibility || 0) > 0.5 &&
+      (endLandmark.visibility || 0) > 0.5
+    ) {
+      const startX = startLandmark.x * width;
+      const startY = startLandmark.y * height;
+      const endX = endLandmark.x * width;
+      const endY = endLandmark.y * height;
+
+      ctx.beginPath();
+      ctx.moveTo(startX, startY);
+      ctx.lineTo(endX, endY);
+      ctx.stroke();
+    }
+  });
+};
+
+// Draw pose landmarks
+export const drawPoseLandmarks = (
+  ctx: DrawingContext,
+  landmarks: PoseLandmark[],
+  width: number,
+  height: number,
+) => {
+  ctx.fillStyle = "#FF0000"; // Red landmarks
+
+  landmarks.forEach((landmark) => {
+    if ((landmark.visibility || 0) > 0.5) {
+      const x = landmark.x * width;
+      const y = landmark.y * height;
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  });
+};
+
+// Clear the overlay and draw one frame: the source image (for footage the
+// page does not show itself) and then the skeleton on top
+export const drawPoseFrame = (
+  ctx: DrawingContext,
+  landmarks: PoseLandmark[] | null,
+  image: CanvasImageSource | null,
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+
+  if (image) {
+    ctx.drawImage(image, 0, 0, width, height);
+  }
+
+  if (landmarks) {
+    // First draw connections (skeleton)
+    drawPoseConnections(ctx, landmarks, POSE_CONNECTIONS, width, height);
+
+    // Then draw landmarks (joints)
+    drawPoseLandmarks(ctx, landmarks, width, height);
+  }
+};
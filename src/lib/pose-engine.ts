@@ -0,0 +1,450 @@
+import type { Pose, PoseLandmark, Results } from "@mediapipe/pose";
+import type { ExerciseDefinition } from "./exercises";
+import {
+  AbsExerciseDetector,
+  createInitialExerciseState,
+  createPoseModel,
+  type ExerciseState,
+} from "./pose-detection";
+import { drawPoseFrame } from "./pose-drawing";
+import {
+  getFrameSize,
+  type FrameImage,
+  type FrameSource,
+  type SourceFrame,
+} from "./frame-sources";
+import type { HoldSummary } from "./hold-tracking";
+import type { RepEvent } from "./rep-analytics";
+import {
+  InferenceGovernor,
+  scaledInputSize,
+  type InferenceReport,
+  type InferenceSettings,
+} from "./inference-governor";
+import {
+  packLandmarks,
+  unpackLandmarks,
+  type PoseWorkerRequest,
+  type PoseWorkerResponse,
+} from "./pose-worker-protocol";
+// One processed frame, delivered to the page
+export interface PoseUpdate {
+  timestamp: number;
+  landmarks: PoseLandmark[] | null;
+  state: ExerciseState;
+  // Frame width over height, needed to replay the landmarks faithfully
+  aspectRatio: number;
+}
+
+export interface PoseEngineSummary {
+  repEvents: RepEvent[];
+  hold: HoldSummary | null;
+  inference: InferenceReport;
+}
+
+export interface PoseEngineOptions {
+  // Draw each frame under the skeleton (footage the page does not show)
+  drawFrames?: boolean;
+  // Let the inference governor trade model and resolution for frame rate
+  adaptive?: boolean;
+}
+
+// Runs inference, counting and overlay drawing for a session
+export interface PoseEngine {
+  start(
+    source: FrameSource,
+    onUpdate: (update: PoseUpdate) => void,
+  ): Promise<void>;
+  // Swap the definition (e.g. calibrated thresholds); counting restarts
+  setExercise(exercise: ExerciseDefinition): void;
+  // Keep inference and drawing running but stop counting
+  setPaused(paused: boolean): void;
+  // Rep records and hold summary for the session so far
+  finish(): Promise<PoseEngineSummary>;
+  stop(): void;
+}
+
+// How long to wait for the worker to load before giving up
+const WORKER_READY_TIMEOUT_MS = 30000;
+// How long finish() waits for the worker's summary
+const WORKER_SUMMARY_TIMEOUT_MS = 5000;
+
+// Copy a frame into a bitmap no wider than the inference input width
+const createInputBitmap = (image: FrameImage, inputWidth: number) => {
+  const { width, height } = getFrameSize(image);
+  const size = scaledInputSize(width, height, inputWidth);
+  return size
+    ? createImageBitmap(image, {
+        resizeWidth: size.width,
+        resizeHeight: size.height,
+        resizeQuality: "low",
+      })
+    : createImageBitmap(image);
+};
+
+// Everything on the main thread; used where workers or OffscreenCanvas are
+// not available
+export class MainThreadPoseEngine implements PoseEngine {
+  private detector: AbsExerciseDetector;
+  private governor: InferenceGovernor;
+  private canvas: HTMLCanvasElement;
+  private drawFrames: boolean;
+  private state = createInitialExerciseState();
+  private pose: Pose | null = null;
+  private landmarks: PoseLandmark[] | null = null;
+  private source: FrameSource | null = null;
+  private paused = false;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    exercise: ExerciseDefinition,
+    options: PoseEngineOptions = {},
+  ) {
+    this.canvas = canvas;
+    this.detector = new AbsExerciseDetector(exercise);
+    this.governor = new InferenceGovernor(options.adaptive ?? false);
+    this.drawFrames = options.drawFrames ?? false;
+  }
+
+  public async start(
+    source: FrameSource,
+    onUpdate: (update: PoseUpdate) => void,
+  ): Promise<void> {
+    const pose = await createPoseModel({
+      modelComplexity: this.governor.getSettings().modelComplexity,
+    });
+    pose.onResults((results: Results) => {
+      this.landmarks = results.poseLandmarks ?? null;
+    });
+    this.pose = pose;
+    this.source = source;
+
+    await source.start(async (frame) => {
+      const input = await createInputBitmap(
+        frame.image,
+        this.governor.getSettings().inputWidth,
+      );
+      this.landmarks = null;
+      try {
+        await pose.send({ image: input });
+      } finally {
+        input.close();
+      }
+
+      const landmarks = this.landmarks;
+      const { width, height } = getFrameSize(frame.image);
+      // The first frame after a pause is far enough apart to reset the
+      // detector's filters
+      if (!this.paused) {
+        this.detector.setFrameSize(width, height);
+        this.state = this.detector.processPose(
+          landmarks,
+          this.state,
+          frame.timestamp,
+        );
+      }
+
+      if (this.canvas.width !== width || this.canvas.height !== height) {
+        this.canvas.width = width;
+        this.canvas.height = height;
+      }
+      const ctx = this.canvas.getContext("2d");
+      if (ctx) {
+        drawPoseFrame(ctx, landmarks, this.drawFrames ? frame.image : null);
+      }
+
+      onUpdate({
+        timestamp: frame.timestamp,
+        landmarks,
+        state: this.state,
+        aspectRatio: width / height,
+      });
+
+      const change = this.governor.recordFrame(performance.now());
+      if (change) {
+        pose.setOptions({ modelComplexity: change.modelComplexity });
+      }
+    });
+  }
+
+  public setExercise(exercise: ExerciseDefinition): void {
+    this.detector.setExercise(exercise);
+    this.state = createInitialExerciseState();
+  }
+
+  public setPaused(paused: boolean): void {
+    this.paused = paused;
+  }
+
+  public async finish(): Promise<PoseEngineSummary> {
+    return {
+      repEvents: this.detector.getRepEvents(),
+      hold: this.detector.getHoldSummary(),
+      inference: this.governor.getReport(),
+    };
+  }
+
+  public stop(): void {
+    this.source?.stop();
+    this.source = null;
+    this.pose?.close();
+    this.pose = null;
+  }
+}
+
+// Counting and drawing run in a worker that owns the canvas. Inference runs
+// there too when MediaPipe loads in the worker; otherwise the page runs the
+// model and only sends landmarks across.
+export class WorkerPoseEngine implements PoseEngine {
+  private canvas: HTMLCanvasElement;
+  private exercise: ExerciseDefinition;
+  private drawFrames: boolean;
+  private governor: InferenceGovernor;
+  private worker: Worker | null = null;
+  private source: FrameSource | null = null;
+  private pagePose: Pose | null = null;
+  private pageLandmarks: PoseLandmark[] | null = null;
+  private onUpdate: ((update: PoseUpdate) => void) | null = null;
+  private frameDone: (() => void) | null = null;
+  private summaryDone: {
+    resolve: (summary: PoseEngineSummary) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  // Set once the worker has crashed or been killed
+  private failure: Error | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    exercise: ExerciseDefinition,
+    options: PoseEngineOptions = {},
+  ) {
+    this.canvas = canvas;
+    this.exercise = exercise;
+    this.governor = new InferenceGovernor(options.adaptive ?? false);
+    this.drawFrames = options.drawFrames ?? false;
+  }
+
+  public async start(
+    source: FrameSource,
+    onUpdate: (update: PoseUpdate) => void,
+  ): Promise<void> {
+    const worker = new Worker(
+      new URL("../workers/pose.worker.ts", import.meta.url),
+    );
+    this.worker = worker;
+    this.onUpdate = onUpdate;
+
+    const offscreen = this.canvas.transferControlToOffscreen();
+    const inference = await new Promise<boolean>((resolve, reject) => {
+      const timeout = setTimeout(
+        () => reject(new Error("Pose worker did not start")),
+        WORKER_READY_TIMEOUT_MS,
+      );
+      worker.onerror = (event) => {
+        clearTimeout(timeout);
+        reject(new Error(event.message || "Pose worker failed to load"));
+      };
+      worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+        if (event.data.type !== "ready") return;
+        clearTimeout(timeout);
+        resolve(event.data.inference);
+      };
+      this.post(
+        {
+          type: "init",
+          canvas: offscreen,
+          exercise: this.exercise,
+          drawFrames: this.drawFrames,
+          modelComplexity: this.governor.getSettings().modelComplexity,
+        },
+        [offscreen],
+      );
+    });
+
+    worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) =>
+      this.handleMessage(event.data);
+    worker.onerror = (event) =>
+      this.fail(new Error(event.message || "Pose worker stopped"));
+
+    if (!inference) {
+      this.pagePose = await createPoseModel({
+        modelComplexity: this.governor.getSettings().modelComplexity,
+      });
+      this.pagePose.onResults((results: Results) => {
+        this.pageLandmarks = results.poseLandmarks ?? null;
+      });
+    }
+
+    this.source = source;
+    await source.start((frame) => this.sendFrame(frame));
+  }
+
+  // Resolves once the worker has processed the frame, so a slow device
+  // never builds a backlog
+  private async sendFrame(frame: SourceFrame): Promise<void> {
+    if (!this.worker) return;
+
+    const done = new Promise<void>((resolve) => {
+      this.frameDone = resolve;
+    });
+
+    const { inputWidth } = this.governor.getSettings();
+    if (this.pagePose) {
+      const input = await createInputBitmap(frame.image, inputWidth);
+      this.pageLandmarks = null;
+      try {
+        await this.pagePose.send({ image: input });
+      } finally {
+        input.close();
+      }
+      const packed = this.pageLandmarks
+        ? packLandmarks(this.pageLandmarks)
+        : null;
+      const image = this.drawFrames
+        ? await createImageBitmap(frame.image)
+        : null;
+      const transfer: Transferable[] = [];
+      if (packed) transfer.push(packed.buffer);
+      if (image) transfer.push(image);
+
+      this.post(
+        {
+          type: "landmarks",
+          timestamp: frame.timestamp,
+          ...getFrameSize(frame.image),
+          landmarks: packed,
+          image,
+        },
+        transfer,
+      );
+    } else {
+      const image = await createInputBitmap(frame.image, inputWidth);
+      this.post({ type: "frame", timestamp: frame.timestamp, image }, [image]);
+    }
+
+    await done;
+  }
+
+  private handleMessage(message: PoseWorkerResponse): void {
+    switch (message.type) {
+      case "update":
+        this.onUpdate?.({
+          timestamp: message.timestamp,
+          landmarks: message.landmarks
+            ? unpackLandmarks(message.landmarks)
+            : null,
+          state: message.state,
+          aspectRatio: message.aspectRatio,
+        });
+        this.frameDone?.();
+        this.applySettings(this.governor.recordFrame(performance.now()));
+        break;
+      case "summary":
+        this.summaryDone?.resolve({
+          repEvents: message.repEvents,
+          hold: message.hold,
+          inference: this.governor.getReport(),
+        });
+        this.summaryDone = null;
+        break;
+      case "error":
+        console.error("Pose worker error:", message.message);
+        this.frameDone?.();
+        break;
+    }
+  }
+
+  // Release everything waiting on a worker that will not answer again
+  private fail(error: Error): void {
+    console.error("Pose worker failed:", error);
+    this.failure = error;
+    this.worker?.terminate();
+    this.worker = null;
+    this.frameDone?.();
+    this.summaryDone?.reject(error);
+    this.summaryDone = null;
+  }
+
+  // Swap the model wherever inference runs; the input width is read per frame
+  private applySettings(settings: InferenceSettings | null): void {
+    if (!settings) return;
+
+    if (this.pagePose) {
+      this.pagePose.setOptions({ modelComplexity: settings.modelComplexity });
+    } else {
+      this.post({
+        type: "set-model",
+        modelComplexity: settings.modelComplexity,
+      });
+    }
+  }
+
+  private post(message: PoseWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  public setExercise(exercise: ExerciseDefinition): void {
+    this.exercise = exercise;
+    this.post({ type: "set-exercise", exercise });
+  }
+
+  public setPaused(paused: boolean): void {
+    this.post({ type: "set-paused", paused });
+  }
+
+  // Rejects if the worker has failed or does not answer in time
+  public finish(): Promise<PoseEngineSummary> {
+    if (this.failure) return Promise.reject(this.failure);
+    if (!this.worker) {
+      return Promise.resolve({
+        repEvents: [],
+        hold: null,
+        inference: this.governor.getReport(),
+      });
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.summaryDone = null;
+        reject(new Error("Pose worker did not return a summary"));
+      }, WORKER_SUMMARY_TIMEOUT_MS);
+      this.summaryDone = {
+        resolve: (summary) => {
+          clearTimeout(timeout);
+          resolve(summary);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        },
+      };
+      this.post({ type: "finish" });
+    });
+  }
+
+  public stop(): void {
+    this.source?.stop();
+    this.source = null;
+    this.pagePose?.close();
+    this.pagePose = null;
+    this.worker?.terminate();
+    this.worker = null;
+    this.frameDone?.();
+  }
+}
+
+// Prefer the worker where the browser can hand a canvas to it
+export function createPoseEngine(
+  canvas: HTMLCanvasElement,
+  exercise: ExerciseDefinition,
+  options: PoseEngineOptions = {},
+): PoseEngine {
+  const canUseWorker =
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    "transferControlToOffscreen" in canvas;
+
+  return canUseWorker
+    ? new WorkerPoseEngine(canvas, exercise, options)
+    : new MainThreadPoseEngine(canvas, exercise, options);
+}
@@ -0,0 +1,156 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import type { ExerciseId } from "./exercises";
+import type { CalibrationProfile } from "./calibration";
+import type { CoachVerbosity } from "./coaching-cues";
+
+export const POSE_RECORDING_FORMAT = "imperfectabs-pose-stream";
+export const POSE_RECORDING_VERSION = 1;
+
+// Landmark values are stored as integers in units of 1/scale
+const DEFAULT_SCALE = 10000;
+const VALUES_PER_LANDMARK = 4;
+
+export interface PoseRecording {
+  format: typeof POSE_RECORDING_FORMAT;
+  version: number;
+  exerciseId: ExerciseId;
+  // Calibration applied during the session, so replays use the same thresholds
+  calibration: CalibrationProfile | null;
+  // Wall-clock time of the first frame (ms since epoch)
+  recordedAt: number;
+  // Frame width over height (4:3 when absent)
+  aspectRatio?: number;
+  // Filled in by hand when a recording is promoted to a fixture
+  expected?: {
+    // Reps, or whole seconds of hold time for hold exercises
+    count: number;
+    // Allowed difference from `count` (defaults to 0)
+    tolerance?: number;
+    // Audio coach cues spoken during the replay, per verbosity, as
+    // "<seconds>s <text>" (see replayRecording)
+    cues?: Partial<Record<CoachVerbosity, string[]>>;
+    notes?: string;
+  };
+  scale: number;
+  // One entry per frame: the ms since the previous frame, followed by
+  // x, y, z and visibility for every landmark. A frame holding only the time
+  // delta had no pose detected.
+  frames: number[][];
+}
+
+export interface RecordedFrame {
+  timestamp: number;
+  landmarks: PoseLandmark[] | null;
+}
+
+// Collects the landmark stream of a live session for later replay
+export class PoseStreamRecorder {
+  private exerciseId: ExerciseId;
+  private calibration: CalibrationProfile | null;
+  private frames: number[][] = [];
+  private firstTimestamp: number | null = null;
+  private lastTimestamp = 0;
+  private recordedAt = 0;
+  private aspectRatio: number | null = null;
+
+  constructor(
+    exerciseId: ExerciseId,
+    calibration: CalibrationProfile | null = null,
+  ) {
+    this.exerciseId = exerciseId;
+    this.calibration = calibration;
+  }
+
+  public get frameCount(): number {
+    return this.frames.length;
+  }
+
+  public setAspectRatio(aspectRatio: number): void {
+    this.aspectRatio = aspectRatio;
+  }
+
+  // Record a frame using the same timestamp the detector processed it with
+  public addFrame(
+    landmarks: PoseLandmark[] | undefined | null,
+    timestamp: number,
+  ): void {
+    if (this.firstTimestamp === null) {
+      this.firstTimestamp = timestamp;
+      this.lastTimestamp = timestamp;
+      this.recordedAt = Date.now();
+    }
+
+    const delta = Math.max(0, Math.round(timestamp - this.lastTimestamp));
+    this.lastTimestamp = timestamp;
+
+    const frame = [delta];
+    landmarks?.forEach((landmark) => {
+      frame.push(
+        Math.round(landmark.x * DEFAULT_SCALE),
+        Math.round(landmark.y * DEFAULT_SCALE),
+        Math.round(landmark.z * DEFAULT_SCALE),
+        Math.round((landmark.visibility ?? 0) * DEFAULT_SCALE),
+      );
+    });
+    this.frames.push(frame);
+  }
+
+  public finish(): PoseRecording {
+    return {
+      format: POSE_RECORDING_FORMAT,
+      version: POSE_RECORDING_VERSION,
+      exerciseId: this.exerciseId,
+      calibration: this.calibration,
+      recordedAt: this.recordedAt,
+      ...(this.aspectRatio !== null && { aspectRatio: this.aspectRatio }),
+      scale: DEFAULT_SCALE,
+      frames: this.frames,
+    };
+  }
+}
+
+// Expand the compact frames back into landmarks with timestamps starting at 0
+export function decodeFrames(recording: PoseRecording): RecordedFrame[] {
+  let timestamp = 0;
+
+  return recording.frames.map(([delta, ...values]) => {
+    timestamp += delta;
+    if (values.length === 0) return { timestamp, landmarks: null };
+
+    const landmarks: PoseLandmark[] = [];
+    for (let i = 0; i < values.length; i += VALUES_PER_LANDMARK) {
+      landmarks.push({
+        x: values[i] / recording.scale,
+        y: values[i + 1] / recording.scale,
+        z: values[i + 2] / recording.scale,
+        visibility: values[i + 3] / recording.scale,
+      });
+    }
+    return { timestamp, landmarks };
+  });
+}
+
+export function serializeRecording(recording: PoseRecording): string {
+  return JSON.stringify(recording);
+}
+
+export function parseRecording(text: string): PoseRecording {
+  const data = JSON.parse(text) as Partial<PoseRecording>;
+
+  if (data.format !== POSE_RECORDING_FORMAT) {
+    throw new Error("Not a pose stream recording");
+  }
+  if (data.version !== POSE_RECORDING_VERSION) {
+    throw new Error(`Unsupported pose recording version: ${data.version}`);
+  }
+  if (!data.exerciseId || !Array.isArray(data.frames) || !data.scale) {
+    throw new Error("Pose recording is missing required fields");
+  }
+
+  return data as PoseRecording;
+}
+
+export const recordingFileName = (recording: PoseRecording): string =>
+  `pose-${recording.exerciseId}-${new Date(recording.recordedAt)
+    .toISOString()
+    .replace(/[:.]/g, "-")}.json`;
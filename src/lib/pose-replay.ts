@@ -0,0 +1,168 @@
+import { getExercise, type ExerciseDefinition } from "./exercises";
+import { applyCalibration } from "./calibration";
+import {
+  AbsExerciseDetector,
+  createInitialExerciseState,
+  type ExerciseState,
+} from "./pose-detection";
+import { decodeFrames, type PoseRecording } from "./pose-recording";
+import type { HoldSummary } from "./hold-tracking";
+import type { RepEvent } from "./rep-analytics";
+import { STREAK_FORM_ACCURACY } from "./workout-session";
+import type { CoachVerbosity } from "./coaching-cues";
+import { AudioCoach, type CueSpeaker } from "./speech-coach";
+
+export interface ReplayResult {
+  state: ExerciseState;
+  frames: number;
+  // Frames that carried a pose
+  posesProcessed: number;
+  // Timestamp of the last frame (ms from the start of the recording)
+  duration: number;
+  bestStreak: number;
+  averageFormAccuracy: number;
+  repEvents: RepEvent[];
+  hold: HoldSummary | null;
+  // Audio coach cues at each verbosity, as "<seconds>s <text>"
+  cues: Record<CoachVerbosity, string[]>;
+}
+
+export interface FixtureCheck {
+  passed: boolean;
+  expected: number;
+  actual: number;
+  tolerance: number;
+  // Verbosities whose spoken cues differ from the fixture's snapshot
+  cueMismatches: CoachVerbosity[];
+}
+
+const COACH_VERBOSITIES: CoachVerbosity[] = ["minimal", "normal", "detailed"];
+// Time a replayed cue takes to read out, per character
+const REPLAY_SPEECH_MS_PER_CHAR = 60;
+
+// Stands in for the voice in replays: notes each cue against recording time
+// and finishes it once it would have been read out
+class ReplaySpeaker implements CueSpeaker {
+  public spoken: string[] = [];
+  private now = 0;
+  private pending: { until: number; onEnd: () => void } | null = null;
+
+  public advance(now: number): void {
+    this.now = now;
+    if (this.pending && now >= this.pending.until) {
+      const { onEnd } = this.pending;
+      this.pending = null;
+      onEnd();
+    }
+  }
+
+  public speak(text: string, onEnd: () => void): void {
+    this.spoken.push(`${(this.now / 1000).toFixed(1)}s ${text}`);
+    this.pending = {
+      until: this.now + text.length * REPLAY_SPEECH_MS_PER_CHAR,
+      onEnd,
+    };
+  }
+
+  public cancel(): void {
+    this.pending = null;
+  }
+}
+
+// Feed a recording through the same detector the live tracker uses. No
+// camera, MediaPipe or browser APIs are touched, so this runs in Node. The
+// audio coach listens at every verbosity, with a silent speaker.
+export function replayRecording(
+  recording: PoseRecording,
+  exercise: ExerciseDefinition = applyCalibration(
+    getExercise(recording.exerciseId),
+    recording.calibration,
+  ),
+): ReplayResult {
+  const detector = new AbsExerciseDetector(exercise);
+  if (recording.aspectRatio) {
+    detector.setFrameSize(recording.aspectRatio, 1);
+  }
+  const frames = decodeFrames(recording);
+  let state = createInitialExerciseState();
+  let posesProcessed = 0;
+  let streak = 0;
+  let bestStreak = 0;
+  const repForm: number[] = [];
+  const coaches = COACH_VERBOSITIES.map((verbosity) => {
+    const speaker = new ReplaySpeaker();
+    return {
+      verbosity,
+      speaker,
+      coach: new AudioCoach(exercise, verbosity, speaker),
+    };
+  });
+
+  for (const frame of frames) {
+    // Frames without a pose still advance the tracking-lost state
+    const next = detector.processPose(frame.landmarks, state, frame.timestamp);
+    if (frame.landmarks) posesProcessed += 1;
+
+    for (const { speaker, coach } of coaches) {
+      speaker.advance(frame.timestamp);
+      coach.update(
+        { state: next, remainingSeconds: null, fatigueWarning: null },
+        frame.timestamp,
+      );
+    }
+
+    if (next.counter > state.counter) {
+      streak = next.formAccuracy >= STREAK_FORM_ACCURACY ? streak + 1 : 0;
+      bestStreak = Math.max(bestStreak, streak);
+      repForm.push(next.formAccuracy);
+    }
+    state = next;
+  }
+
+  return {
+    state,
+    frames: frames.length,
+    posesProcessed,
+    duration: frames.length > 0 ? frames[frames.length - 1].timestamp : 0,
+    bestStreak,
+    averageFormAccuracy:
+      repForm.length > 0
+        ? Math.round(repForm.reduce((a, b) => a + b, 0) / repForm.length)
+        : state.formAccuracy,
+    repEvents: detector.getRepEvents(),
+    hold: detector.getHoldSummary(),
+    cues: Object.fromEntries(
+      coaches.map(({ verbosity, speaker }) => [verbosity, speaker.spoken]),
+    ) as Record<CoachVerbosity, string[]>,
+  };
+}
+
+// Compare a replay against the count labelled on a fixture
+export function checkFixture(
+  recording: PoseRecording,
+  result: ReplayResult = replayRecording(recording),
+): FixtureCheck | null {
+  if (!recording.expected) return null;
+
+  const { count, tolerance = 0, cues = {} } = recording.expected;
+  const actual =
+    getExercise(recording.exerciseId).mode === "hold"
+      ? Math.floor(result.state.holdTime / 1000)
+      : result.state.counter;
+
+  const cueMismatches = COACH_VERBOSITIES.filter((verbosity) => {
+    const expected = cues[verbosity];
+    return (
+      expected !== undefined &&
+      JSON.stringify(expected) !== JSON.stringify(result.cues[verbosity])
+    );
+  });
+
+  return {
+    passed: Math.abs(actual - count) <= tolerance && cueMismatches.length === 0,
+    expected: count,
+    actual,
+    tolerance,
+    cueMismatches,
+  };
+}
@@ -0,0 +1,81 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import type { ExerciseDefinition } from "./exercises";
+import type { ExerciseState } from "./pose-detection";
+import type { ModelComplexity } from "./inference-governor";
+import type { HoldSummary } from "./hold-tracking";
+import type { RepEvent } from "./rep-analytics";
+
+// Messages from the page to the pose worker
+export type PoseWorkerRequest =
+  | {
+      type: "init";
+      canvas: OffscreenCanvas;
+      exercise: ExerciseDefinition;
+      // Draw each frame under the skeleton (footage the page does not show)
+      drawFrames: boolean;
+      modelComplexity: ModelComplexity;
+    }
+  // A frame for the worker to run inference on
+  | {
+      type: "frame";
+      timestamp: number;
+      image: ImageBitmap;
+    }
+  // Landmarks found on the main thread when the worker cannot load the model
+  | {
+      type: "landmarks";
+      timestamp: number;
+      width: number;
+      height: number;
+      landmarks: Float32Array | null;
+      image: ImageBitmap | null;
+    }
+  | { type: "set-exercise"; exercise: ExerciseDefinition }
+  // While paused frames are still inferred and drawn but not counted
+  | { type: "set-paused"; paused: boolean }
+  // Switch model variant (chosen by the inference governor)
+  | { type: "set-model"; modelComplexity: ModelComplexity }
+  | { type: "finish" };
+
+// Messages from the pose worker back to the page
+export type PoseWorkerResponse =
+  // `inference` is false when MediaPipe could not be loaded in the worker
+  | { type: "ready"; inference: boolean }
+  | {
+      type: "update";
+      timestamp: number;
+      state: ExerciseState;
+      landmarks: Float32Array | null;
+      aspectRatio: number;
+    }
+  | { type: "summary"; repEvents: RepEvent[]; hold: HoldSummary | null }
+  | { type: "error"; message: string };
+
+const VALUES_PER_LANDMARK = 4;
+
+// Flatten landmarks into x, y, z, visibility quadruples so they can be
+// transferred rather than structurally cloned
+export function packLandmarks(landmarks: PoseLandmark[]): Float32Array {
+  const packed = new Float32Array(landmarks.length * VALUES_PER_LANDMARK);
+  landmarks.forEach((landmark, i) => {
+    const offset = i * VALUES_PER_LANDMARK;
+    packed[offset] = landmark.x;
+    packed[offset + 1] = landmark.y;
+    packed[offset + 2] = landmark.z;
+    packed[offset + 3] = landmark.visibility ?? 0;
+  });
+  return packed;
+}
+
+export function unpackLandmarks(packed: Float32Array): PoseLandmark[] {
+  const landmarks: PoseLandmark[] = [];
+  for (let i = 0; i < packed.length; i += VALUES_PER_LANDMARK) {
+    landmarks.push({
+      x: packed[i],
+      y: packed[i + 1],
+      z: packed[i + 2],
+      visibility: packed[i + 3],
+    });
+  }
+  return landmarks;
+}
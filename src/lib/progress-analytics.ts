@@ -0,0 +1,263 @@
+import type { HistoryItem } from "./workout-history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+// Fewest reps for a session's form to count as a personal record
+const FORM_RECORD_MIN_REPS = 10;
+
+// Milliseconds, start inclusive and end exclusive
+export interface DateRange {
+  start: number;
+  end: number;
+}
+
+export type RangePreset = "4w" | "12w" | "26w" | "all";
+
+export const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+  "4w": "Last 4 weeks",
+  "12w": "Last 12 weeks",
+  "26w": "Last 6 months",
+  all: "All time",
+};
+
+export interface WeekStats {
+  // Local midnight of the week's Monday
+  weekStart: number;
+  sessions: number;
+  reps: number;
+  // Seconds
+  duration: number;
+  // Rep-weighted; null for weeks without reps
+  formAccuracy: number | null;
+  // Best streak of the week
+  bestStreak: number;
+  activeDays: number;
+}
+
+export interface RangeSummary {
+  sessions: number;
+  reps: number;
+  formAccuracy: number | null;
+  // Seconds per session
+  averageDuration: number;
+  bestStreak: number;
+  // Days with at least one session, averaged over the range's weeks
+  activeDaysPerWeek: number;
+}
+
+export type RecordKind =
+  "mostReps" | "bestForm" | "longestStreak" | "longestSession" | "biggestWeek";
+
+export const RECORD_LABELS: Record<RecordKind, string> = {
+  mostReps: "Most reps in a session",
+  bestForm: `Best form (${FORM_RECORD_MIN_REPS}+ reps)`,
+  longestStreak: "Longest streak",
+  longestSession: "Longest session",
+  biggestWeek: "Most reps in a week",
+};
+
+export interface PersonalRecord {
+  kind: RecordKind;
+  value: number;
+  unit: string;
+  // When it was set
+  timestamp: number;
+}
+
+export type SummaryMetric = keyof RangeSummary;
+
+export interface MetricComparison {
+  metric: SummaryMetric;
+  current: number | null;
+  previous: number | null;
+  // Percent change from the previous range; null when it had no value
+  change: number | null;
+}
+
+// Local midnight of the Monday on or before the timestamp
+export function startOfWeek(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+// Half a day past the next Monday, so a daylight-saving change cannot land
+// on the same week again
+const nextWeek = (weekStart: number) =>
+  startOfWeek(weekStart + WEEK_MS + DAY_MS / 2);
+
+const dayKey = (timestamp: number) => new Date(timestamp).toDateString();
+
+export function presetRange(
+  preset: RangePreset,
+  items: HistoryItem[],
+  now: number = Date.now(),
+): DateRange {
+  const end = startOfWeek(now) + WEEK_MS;
+  if (preset === "all") {
+    const first = Math.min(now, ...items.map((item) => item.timestamp));
+    return { start: startOfWeek(first), end };
+  }
+  const weeks = { "4w": 4, "12w": 12, "26w": 26 }[preset];
+  return { start: startOfWeek(end - weeks * WEEK_MS + DAY_MS / 2), end };
+}
+
+// The range of the same length immediately before
+export const previousRange = (range: DateRange): DateRange => ({
+  start: range.start - (range.end - range.start),
+  end: range.start,
+});
+
+export const inRange = (items: HistoryItem[], range: DateRange) =>
+  items.filter(
+    (item) => item.timestamp >= range.start && item.timestamp < range.end,
+  );
+
+const weightedForm = (items: HistoryItem[]) => {
+  const reps = items.reduce((sum, item) => sum + item.reps, 0);
+  return reps > 0
+    ? Math.round(
+        items.reduce((sum, item) => sum + item.formAccuracy * item.reps, 0) /
+          reps,
+      )
+    : null;
+};
+
+// One bucket per calendar week in the range, empty weeks included
+export function weeklyStats(
+  items: HistoryItem[],
+  range: DateRange,
+): WeekStats[] {
+  const weeks: WeekStats[] = [];
+  for (
+    let weekStart = startOfWeek(range.start);
+    weekStart < range.end;
+    weekStart = nextWeek(weekStart)
+  ) {
+    const week = inRange(items, { start: weekStart, end: nextWeek(weekStart) });
+    weeks.push({
+      weekStart,
+      sessions: week.length,
+      reps: week.reduce((sum, item) => sum + item.reps, 0),
+      duration: week.reduce((sum, item) => sum + item.duration, 0),
+      formAccuracy: weightedForm(week),
+      bestStreak: Math.max(0, ...week.map((item) => item.streak)),
+      activeDays: new Set(week.map((item) => dayKey(item.timestamp))).size,
+    });
+  }
+  return weeks;
+}
+
+export function summarizeRange(
+  items: HistoryItem[],
+  range: DateRange,
+): RangeSummary {
+  const sessions = inRange(items, range);
+  const weeks = Math.max(1, Math.round((range.end - range.start) / WEEK_MS));
+  return {
+    sessions: sessions.length,
+    reps: sessions.reduce((sum, item) => sum + item.reps, 0),
+    formAccuracy: weightedForm(sessions),
+    averageDuration:
+      sessions.length > 0
+        ? Math.round(
+            sessions.reduce((sum, item) => sum + item.duration, 0) /
+              sessions.length,
+          )
+        : 0,
+    bestStreak: Math.max(0, ...sessions.map((item) => item.streak)),
+    activeDaysPerWeek:
+      Math.round(
+        (new Set(sessions.map((item) => dayKey(item.timestamp))).size / weeks) *
+          10,
+      ) / 10,
+  };
+}
+
+export function compareRanges(
+  current: RangeSummary,
+  previous: RangeSummary,
+): MetricComparison[] {
+  return (Object.keys(current) as SummaryMetric[]).map((metric) => {
+    const now = current[metric];
+    const before = previous[metric];
+    return {
+      metric,
+      current: now,
+      previous: before,
+      change:
+        now !== null && before !== null && before > 0
+          ? Math.round(((now - before) / before) * 100)
+          : null,
+    };
+  });
+}
+
+// All-time best streak as of the end of each week in the range, so the
+// progression only ever steps up
+export function streakProgression(
+  items: HistoryItem[],
+  range: DateRange,
+): { weekStart: number; bestStreak: number }[] {
+  let best = Math.max(
+    0,
+    ...items
+      .filter((item) => item.timestamp < range.start)
+      .map((item) => item.streak),
+  );
+  return weeklyStats(items, range).map((week) => {
+    best = Math.max(best, week.bestStreak);
+    return { weekStart: week.weekStart, bestStreak: best };
+  });
+}
+
+// All-time bests across the whole history
+export function personalRecords(items: HistoryItem[]): PersonalRecord[] {
+  const records: PersonalRecord[] = [];
+  const best = (
+    kind: RecordKind,
+    candidates: HistoryItem[],
+    value: (item: HistoryItem) => number,
+    unit: string,
+  ) => {
+    const top = candidates.reduce<HistoryItem | null>(
+      (winner, item) =>
+        !winner || value(item) > value(winner) ? item : winner,
+      null,
+    );
+    if (top && value(top) > 0) {
+      records.push({ kind, value: value(top), unit, timestamp: top.timestamp });
+    }
+  };
+
+  best("mostReps", items, (item) => item.reps, "reps");
+  best(
+    "bestForm",
+    items.filter((item) => item.reps >= FORM_RECORD_MIN_REPS),
+    (item) => item.formAccuracy,
+    "%",
+  );
+  best("longestStreak", items, (item) => item.streak, "reps");
+  best("longestSession", items, (item) => item.duration, "s");
+
+  if (items.length > 0) {
+    const weeks = weeklyStats(items, {
+      start: Math.min(...items.map((item) => item.timestamp)),
+      end: Math.max(...items.map((item) => item.timestamp)) + 1,
+    });
+    const top = weeks.reduce((winner, week) =>
+      week.reps > winner.reps ? week : winner,
+    );
+    if (top.reps > 0) {
+      records.push({
+        kind: "biggestWeek",
+        value: top.reps,
+        unit: "reps",
+        timestamp: top.weekStart,
+      });
+    }
+  }
+
+  return records;
+}
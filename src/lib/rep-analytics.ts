@@ -0,0 +1,329 @@
+import type { ExerciseDefinition } from "./exercises";
+import type { RotationSide } from "./rotation";
+import type { FormFault } from "./form-faults";
+
+export type RepFault = "short-range" | "rushed" | FormFault;
+
+export const REP_FAULT_LABELS: Record<RepFault, string> = {
+  "short-range": "Short range",
+  rushed: "Rushed",
+  "neck-pull": "Neck pull",
+  "hip-lift": "Hips lifted",
+  "feet-lift": "Feet lifted",
+  momentum: "Momentum",
+};
+
+// One completed rep (timestamps and durations in ms, angles in degrees)
+export interface RepEvent {
+  index: number;
+  startTime: number;
+  endTime: number;
+  // Rest position to peak, and peak back to rest
+  concentricDuration: number;
+  eccentricDuration: number;
+  // The same rep split into rising, held near the peak and returning
+  phases: { up: number; hold: number; down: number };
+  minAngle: number;
+  maxAngle: number;
+  rangeOfMotion: number;
+  // Normalized (dimensionless) jerk of the angle trace; lower is smoother.
+  // null when the rep had too few frames to estimate it.
+  jerk: number | null;
+  // 0-100, where 100 matches a sinusoidal rep of the same length and range
+  smoothness: number | null;
+  formAccuracy: number;
+  faults: RepFault[];
+  // Side reached (rotation exercises only)
+  side: RotationSide | null;
+}
+
+export interface RepFrame {
+  timestamp: number;
+  angle: number;
+  status: "up" | "down";
+  counter: number;
+  formAccuracy: number;
+  side: RotationSide | null;
+  // Form faults active on this frame
+  faults: FormFault[];
+}
+
+interface RepSample {
+  timestamp: number;
+  angle: number;
+  formAccuracy: number;
+  faults: FormFault[];
+}
+
+// A concentric phase faster than this is flagged as rushed
+export const MIN_CONCENTRIC_MS = 300;
+// Angles within this share of the range of motion (and at least
+// PEAK_HOLD_MIN_DEGREES) of the peak count as holding at the top
+const PEAK_HOLD_BAND = 0.1;
+const PEAK_HOLD_MIN_DEGREES = 3;
+// Samples kept while waiting for the next rep to start
+const IDLE_HISTORY_MS = 5000;
+// Normalized jerk of one smooth sinusoidal out-and-back rep
+const REFERENCE_JERK = (2 * Math.PI) ** 3 / 4;
+// The angle trace is resampled at this rate and low-passed before it is
+// differentiated, since a triple difference amplifies frame-to-frame jitter.
+// The cutoff scales with the rep: a smooth out-and-back rep is one cycle per
+// rep duration, so a few cycles keep the movement and drop the jitter.
+const JERK_SAMPLE_RATE = 50;
+const JERK_CUTOFF_CYCLES = 4;
+
+// Linear interpolation onto an evenly spaced grid
+function resample(
+  samples: { timestamp: number; angle: number }[],
+  rate: number,
+): number[] {
+  const step = 1000 / rate;
+  const start = samples[0].timestamp;
+  const count =
+    Math.floor((samples[samples.length - 1].timestamp - start) / step) + 1;
+  const values: number[] = [];
+  let j = 0;
+  for (let i = 0; i < count; i++) {
+    const t = start + i * step;
+    while (j < samples.length - 2 && samples[j + 1].timestamp < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const span = b.timestamp - a.timestamp;
+    values.push(
+      span > 0
+        ? a.angle + ((b.angle - a.angle) * (t - a.timestamp)) / span
+        : a.angle,
+    );
+  }
+  return values;
+}
+
+// Second-order Butterworth low-pass run forwards then backwards, so the
+// smoothed trace has no phase lag. Reps start and end at rest, so the ends
+// are padded with their mirror image to keep the filter from ringing there.
+function zeroPhaseLowPass(values: number[], rate: number, cutoff: number) {
+  const w0 = (2 * Math.PI * cutoff) / rate;
+  const alpha = Math.sin(w0) / Math.SQRT2;
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 - cos) / 2 / a0;
+  const b1 = (1 - cos) / a0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  const run = (input: number[]) => {
+    const output: number[] = [];
+    let [x1, x2, y1, y2] = [input[0], input[0], input[0], input[0]];
+    for (const x of input) {
+      const y = b0 * x + b1 * x1 + b0 * x2 - a1 * y1 - a2 * y2;
+      [x2, x1, y2, y1] = [x1, x, y1, y];
+      output.push(y);
+    }
+    return output;
+  };
+
+  const pad = Math.min(values.length - 1, Math.round(rate / 2));
+  const padded = [
+    ...values.slice(1, pad + 1).reverse(),
+    ...values,
+    ...values.slice(-pad - 1, -1).reverse(),
+  ];
+  return run(run(padded).reverse())
+    .reverse()
+    .slice(pad, pad + values.length);
+}
+
+// Normalized jerk: sqrt(0.5 * ∫jerk² dt * T^5 / A^2), from the low-passed
+// trace at a fixed rate
+export function calculateNormalizedJerk(
+  samples: { timestamp: number; angle: number }[],
+): number | null {
+  if (samples.length < 5) return null;
+
+  const duration =
+    (samples[samples.length - 1].timestamp - samples[0].timestamp) / 1000;
+  const angles = samples.map((s) => s.angle);
+  const amplitude = Math.max(...angles) - Math.min(...angles);
+  if (duration <= 0 || amplitude < 1) return null;
+
+  const dt = 1 / JERK_SAMPLE_RATE;
+  const position = zeroPhaseLowPass(
+    resample(samples, JERK_SAMPLE_RATE),
+    JERK_SAMPLE_RATE,
+    Math.min(JERK_CUTOFF_CYCLES / duration, JERK_SAMPLE_RATE / 4),
+  );
+  if (position.length < 5) return null;
+
+  let integral = 0;
+  for (let i = 0; i + 3 < position.length; i++) {
+    const jerk =
+      (position[i + 3] -
+        3 * position[i + 2] +
+        3 * position[i + 1] -
+        position[i]) /
+      dt ** 3;
+    integral += jerk ** 2 * dt;
+  }
+
+  return Math.sqrt((0.5 * integral * duration ** 5) / amplitude ** 2);
+}
+
+// Segments the angle stream into reps using the detector's counter and phase.
+// A rep starts at the last rest extreme before the count, peaks at the
+// opposite extreme and ends when the phase returns to rest.
+export class RepRecorder {
+  private peakIsMin: boolean;
+  private useMagnitude: boolean;
+  private peakTarget: number | null;
+  private samples: RepSample[] = [];
+  private openStart: number | null = null;
+  private openSide: RotationSide | null = null;
+  private lastCounter = 0;
+  private lastStatus: RepFrame["status"] = "down";
+  private events: RepEvent[] = [];
+
+  constructor(exercise: ExerciseDefinition) {
+    // Rep angles close at the top; rotation magnitude grows toward the peak
+    this.peakIsMin = exercise.mode === "reps";
+    this.useMagnitude = exercise.mode === "rotation";
+
+    const rule =
+      exercise.mode === "hold"
+        ? undefined
+        : exercise.formRules.find((r) => r.phase === "up");
+    this.peakTarget = rule
+      ? this.peakIsMin
+        ? rule.target + rule.tolerance
+        : rule.target - rule.tolerance
+      : null;
+  }
+
+  // Feed one processed frame; returns the rep it completed, if any
+  public update(frame: RepFrame): RepEvent | null {
+    this.samples.push({
+      timestamp: frame.timestamp,
+      angle: this.useMagnitude ? Math.abs(frame.angle) : frame.angle,
+      formAccuracy: frame.formAccuracy,
+      faults: frame.faults,
+    });
+
+    let completed: RepEvent | null = null;
+    const last = this.samples.length - 1;
+
+    if (frame.counter > this.lastCounter) {
+      // A new count while a rep is still open closes the previous one here
+      if (this.openStart !== null) completed = this.close(last);
+      this.openStart = this.findRestIndex();
+      this.openSide = frame.side;
+    } else if (
+      this.openStart !== null &&
+      this.lastStatus === "up" &&
+      frame.status === "down"
+    ) {
+      completed = this.close(last);
+    } else if (this.openStart === null) {
+      this.trimIdle(frame.timestamp);
+    }
+
+    this.lastCounter = frame.counter;
+    this.lastStatus = frame.status;
+    return completed;
+  }
+
+  // Close a rep still in progress (e.g. the session ended at the top)
+  public finish(): RepEvent | null {
+    if (this.openStart === null || this.samples.length === 0) return null;
+    return this.close(this.samples.length - 1);
+  }
+
+  public getEvents(): RepEvent[] {
+    return this.events;
+  }
+
+  private findRestIndex(): number {
+    let best = 0;
+    this.samples.forEach((sample, i) => {
+      const rest = this.samples[best].angle;
+      if (this.peakIsMin ? sample.angle >= rest : sample.angle <= rest) {
+        best = i;
+      }
+    });
+    return best;
+  }
+
+  private trimIdle(now: number): void {
+    const firstKept = this.samples.findIndex(
+      (s) => now - s.timestamp <= IDLE_HISTORY_MS,
+    );
+    if (firstKept > 0) this.samples = this.samples.slice(firstKept);
+  }
+
+  private close(endIndex: number): RepEvent {
+    const rep = this.samples.slice(this.openStart ?? 0, endIndex + 1);
+    const angles = rep.map((s) => s.angle);
+    const minAngle = Math.min(...angles);
+    const maxAngle = Math.max(...angles);
+    const peakIndex = angles.indexOf(this.peakIsMin ? minAngle : maxAngle);
+    const peak = rep[peakIndex];
+    const start = rep[0].timestamp;
+    const end = rep[rep.length - 1].timestamp;
+    const concentricDuration = peak.timestamp - start;
+
+    // Widen from the peak while the angle stays near it
+    const band = Math.max(
+      PEAK_HOLD_MIN_DEGREES,
+      PEAK_HOLD_BAND * (maxAngle - minAngle),
+    );
+    const nearPeak = (i: number) => Math.abs(angles[i] - peak.angle) <= band;
+    let holdStart = peakIndex;
+    while (holdStart > 0 && nearPeak(holdStart - 1)) holdStart--;
+    let holdEnd = peakIndex;
+    while (holdEnd < rep.length - 1 && nearPeak(holdEnd + 1)) holdEnd++;
+
+    const jerk = calculateNormalizedJerk(rep);
+    // Every form fault seen at any point during the rep
+    const faults: RepFault[] = [...new Set(rep.flatMap((s) => s.faults))];
+    if (
+      this.peakTarget !== null &&
+      (this.peakIsMin
+        ? peak.angle > this.peakTarget
+        : peak.angle < this.peakTarget)
+    ) {
+      faults.push("short-range");
+    }
+    if (concentricDuration < MIN_CONCENTRIC_MS) faults.push("rushed");
+
+    const event: RepEvent = {
+      index: this.events.length + 1,
+      startTime: start,
+      endTime: end,
+      concentricDuration,
+      eccentricDuration: end - peak.timestamp,
+      phases: {
+        up: rep[holdStart].timestamp - start,
+        hold: rep[holdEnd].timestamp - rep[holdStart].timestamp,
+        down: end - rep[holdEnd].timestamp,
+      },
+      minAngle: Math.round(minAngle),
+      maxAngle: Math.round(maxAngle),
+      rangeOfMotion: Math.round(maxAngle - minAngle),
+      jerk: jerk === null ? null : Math.round(jerk),
+      smoothness:
+        jerk === null || jerk === 0
+          ? null
+          : Math.min(100, Math.round((100 * REFERENCE_JERK) / jerk)),
+      formAccuracy: Math.round(
+        rep.reduce((sum, s) => sum + s.formAccuracy, 0) / rep.length,
+      ),
+      faults,
+      side: this.openSide,
+    };
+
+    this.events.push(event);
+    // The end of this rep is the earliest point the next one can start from
+    this.samples = this.samples.slice(endIndex);
+    this.openStart = null;
+    this.openSide = null;
+    return event;
+  }
+}
@@ -0,0 +1,106 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import { POSE_LANDMARKS } from "./pose-landmarks";
+import type { RepEvent } from "./rep-analytics";
+
+export type RotationSide = "left" | "right";
+
+export interface RotationSignal {
+  // Shoulder line yaw relative to the hip line in degrees; positive when the
+  // torso turns toward the user's left
+  rotation: number;
+  // Elbow-to-opposite-knee distance normalised by torso length. `left` is the
+  // right elbow reaching the left knee (a twist to the left) and vice versa.
+  reach: Record<RotationSide, number>;
+}
+
+export interface RotationBalance {
+  leftReps: number;
+  rightReps: number;
+  // Mean peak torso rotation of the reps to each side, in degrees (null
+  // when no rep reached that side)
+  leftRotation: number | null;
+  rightRotation: number | null;
+  // Difference between the sides' mean peak rotation as a percentage of the
+  // larger; null unless both sides were reached. Sides alternate, so the
+  // counts never differ by more than one and say nothing about balance.
+  asymmetry: number | null;
+}
+
+const toDegrees = (radians: number): number => (radians * 180.0) / Math.PI;
+
+const distance = (a: PoseLandmark, b: PoseLandmark): number =>
+  Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+const midpoint = (a: PoseLandmark, b: PoseLandmark) => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+  z: (a.z + b.z) / 2,
+});
+
+// Yaw of the left-to-right line between two landmarks in the x–z plane
+const lineYaw = (left: PoseLandmark, right: PoseLandmark): number =>
+  Math.atan2(right.z - left.z, right.x - left.x);
+
+export function calculateRotationSignal(
+  landmarks: PoseLandmark[],
+): RotationSignal {
+  const leftShoulder = landmarks[POSE_LANDMARKS.LEFT_SHOULDER];
+  const rightShoulder = landmarks[POSE_LANDMARKS.RIGHT_SHOULDER];
+  const leftHip = landmarks[POSE_LANDMARKS.LEFT_HIP];
+  const rightHip = landmarks[POSE_LANDMARKS.RIGHT_HIP];
+  const leftElbow = landmarks[POSE_LANDMARKS.LEFT_ELBOW];
+  const rightElbow = landmarks[POSE_LANDMARKS.RIGHT_ELBOW];
+  const leftKnee = landmarks[POSE_LANDMARKS.LEFT_KNEE];
+  const rightKnee = landmarks[POSE_LANDMARKS.RIGHT_KNEE];
+
+  let rotation = toDegrees(
+    lineYaw(leftShoulder, rightShoulder) - lineYaw(leftHip, rightHip),
+  );
+  // Normalise to (-180, 180]
+  rotation = ((((rotation + 180) % 360) + 360) % 360) - 180;
+
+  const shoulderMid = midpoint(leftShoulder, rightShoulder);
+  const hipMid = midpoint(leftHip, rightHip);
+  const torsoLength =
+    Math.hypot(shoulderMid.x - hipMid.x, shoulderMid.y - hipMid.y) || 1;
+
+  return {
+    rotation,
+    reach: {
+      left: distance(rightElbow, leftKnee) / torsoLength,
+      right: distance(leftElbow, rightKnee) / torsoLength,
+    },
+  };
+}
+
+// Rotation reps are recorded as the magnitude of the turn, so each peaks at
+// its largest angle
+const meanPeakRotation = (reps: RepEvent[], side: RotationSide) => {
+  const peaks = reps
+    .filter((rep) => rep.side === side)
+    .map((rep) => rep.maxAngle);
+  return peaks.length > 0
+    ? peaks.reduce((sum, peak) => sum + peak, 0) / peaks.length
+    : null;
+};
+
+export function calculateRotationBalance(
+  leftReps: number,
+  rightReps: number,
+  reps: RepEvent[],
+): RotationBalance {
+  const left = meanPeakRotation(reps, "left");
+  const right = meanPeakRotation(reps, "right");
+  const larger = Math.max(left ?? 0, right ?? 0);
+
+  return {
+    leftReps,
+    rightReps,
+    leftRotation: left === null ? null : Math.round(left),
+    rightRotation: right === null ? null : Math.round(right),
+    asymmetry:
+      left !== null && right !== null && larger > 0
+        ? Math.round((Math.abs(left - right) / larger) * 100)
+        : null,
+  };
+}
@@ -0,0 +1,274 @@
+import type { PoseLandmark } from "@mediapipe/pose";
+import type { ExerciseDefinition } from "./exercises";
+import {
+  LANDMARK_SIDES,
+  POSE_LANDMARKS,
+  type BodySide,
+} from "./pose-landmarks";
+import { getOrientationWarning, type ViewOrientation } from "./orientation";
+import { calculateIncline } from "./hold-tracking";
+
+export type SetupCheckId = "framing" | "distance" | "lighting" | "angle";
+
+export interface SetupCheckResult {
+  id: SetupCheckId;
+  label: string;
+  passed: boolean;
+  // Concrete instruction when the check fails
+  fix: string | null;
+}
+
+export interface LightingSample {
+  // Mean luma, 0-255
+  brightness: number;
+  // Standard deviation of luma
+  contrast: number;
+}
+
+export interface SetupCheckInput {
+  exercise: ExerciseDefinition;
+  landmarks: PoseLandmark[] | null;
+  view: ViewOrientation;
+  lighting: LightingSample | null;
+}
+
+const MIN_VISIBILITY = 0.5;
+// Landmarks this close to the frame edge are likely to be cut off mid-rep
+const EDGE_MARGIN = 0.03;
+// Fraction of the frame the body should span along its longest axis
+const TARGET_BODY_SPAN = { min: 0.4, max: 0.9, ideal: 0.65 };
+// Nose-to-ankle length and a typical webcam field of view, used to turn the
+// apparent body size into a distance
+const BODY_LENGTH_M = 1.5;
+const CAMERA_HFOV_DEG = 60;
+const LIGHTING = { minBrightness: 60, maxBrightness: 210, minContrast: 25 };
+// Lying side-on, the shoulder-hip line should look level to a level camera
+const MAX_CAMERA_ROLL_DEG = 20;
+
+const visible = (landmark: PoseLandmark | undefined) =>
+  !!landmark && landmark.visibility > MIN_VISIBILITY;
+
+// Readable name for a landmark, e.g. "left knee"
+const landmarkName = (index: number) =>
+  (Object.entries(POSE_LANDMARKS).find(([, i]) => i === index)?.[0] ?? "body")
+    .toLowerCase()
+    .replace(/_/g, " ");
+
+export interface BoundingBox {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// Extent of the visible landmarks in normalized image coordinates
+export function measureBoundingBox(
+  landmarks: PoseLandmark[],
+): BoundingBox | null {
+  const points = landmarks.filter(visible);
+  if (points.length === 0) return null;
+
+  return {
+    minX: Math.min(...points.map((p) => p.x)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxY: Math.max(...points.map((p) => p.y)),
+  };
+}
+
+// Approximate camera distance (metres) at which the body spans `span` of the
+// frame width
+const distanceForSpan = (span: number) =>
+  BODY_LENGTH_M /
+  (span * 2 * Math.tan(((CAMERA_HFOV_DEG / 2) * Math.PI) / 180));
+
+// Mean and spread of luma over RGBA pixel data
+export function measureLighting(pixels: Uint8ClampedArray): LightingSample {
+  const count = pixels.length / 4;
+  if (count === 0) return { brightness: 0, contrast: 0 };
+
+  let sum = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const luma =
+      0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+    sum += luma;
+    sumSquares += luma * luma;
+  }
+  const brightness = sum / count;
+  const variance = Math.max(0, sumSquares / count - brightness * brightness);
+  return {
+    brightness: Math.round(brightness),
+    contrast: Math.round(Math.sqrt(variance)),
+  };
+}
+
+// Required landmarks must be visible on at least one side and away from the
+// frame edges
+export function checkFraming(
+  exercise: ExerciseDefinition,
+  landmarks: PoseLandmark[] | null,
+): SetupCheckResult {
+  const result = { id: "framing" as const, label: "Body in frame" };
+  if (!landmarks) {
+    return { ...result, passed: false, fix: "Step into view of the camera" };
+  }
+
+  // Same rule as tracking: one complete side of the body is enough
+  const missingOn = (side: BodySide) =>
+    exercise.requiredLandmarks.filter(
+      (index) =>
+        (LANDMARK_SIDES[index] ?? side) === side && !visible(landmarks[index]),
+    );
+  const left = missingOn("left");
+  const right = missingOn("right");
+  const missing = left.length <= right.length ? left : right;
+  if (missing.length > 0) {
+    const names = missing.map(landmarkName).join(", ");
+    return { ...result, passed: false, fix: `Bring your ${names} into view` };
+  }
+
+  const clipped = exercise.requiredLandmarks.filter((index) => {
+    const landmark = landmarks[index];
+    return (
+      visible(landmark) &&
+      (landmark.x < EDGE_MARGIN ||
+        landmark.x > 1 - EDGE_MARGIN ||
+        landmark.y < EDGE_MARGIN ||
+        landmark.y > 1 - EDGE_MARGIN)
+    );
+  });
+  if (clipped.length > 0) {
+    return {
+      ...result,
+      passed: false,
+      fix: `Centre yourself: your ${landmarkName(clipped[0])} is at the edge of the frame`,
+    };
+  }
+
+  return { ...result, passed: true, fix: null };
+}
+
+// Estimate distance from how much of the frame the body fills
+export function checkDistance(
+  landmarks: PoseLandmark[] | null,
+): SetupCheckResult {
+  const result = { id: "distance" as const, label: "Distance" };
+  const box = landmarks ? measureBoundingBox(landmarks) : null;
+  if (!box) {
+    return { ...result, passed: false, fix: "Step into view of the camera" };
+  }
+
+  const span = Math.max(box.maxX - box.minX, box.maxY - box.minY);
+  if (span >= TARGET_BODY_SPAN.min && span <= TARGET_BODY_SPAN.max) {
+    return { ...result, passed: true, fix: null };
+  }
+
+  const change =
+    distanceForSpan(TARGET_BODY_SPAN.ideal) - distanceForSpan(span);
+  // Round to 10cm, never suggesting less than 10cm
+  const cm = Math.max(10, Math.round(Math.abs(change) * 10) * 10);
+  return {
+    ...result,
+    passed: false,
+    fix:
+      change > 0
+        ? `Move back about ${cm}cm (or move the camera further away)`
+        : `Move about ${cm}cm closer to the camera`,
+  };
+}
+
+export function checkLighting(
+  lighting: LightingSample | null,
+): SetupCheckResult {
+  const result = { id: "lighting" as const, label: "Lighting" };
+  if (!lighting) {
+    return { ...result, passed: false, fix: "Waiting for the camera image" };
+  }
+
+  if (lighting.brightness < LIGHTING.minBrightness) {
+    return {
+      ...result,
+      passed: false,
+      fix: "Too dark: turn on a light or face a window",
+    };
+  }
+  if (lighting.brightness > LIGHTING.maxBrightness) {
+    return {
+      ...result,
+      passed: false,
+      fix: "Too bright: move away from direct sunlight or a window behind you",
+    };
+  }
+  if (lighting.contrast < LIGHTING.minContrast) {
+    return {
+      ...result,
+      passed: false,
+      fix: "Low contrast: add light from the front or wear clothes that stand out from the background",
+    };
+  }
+  return { ...result, passed: true, fix: null };
+}
+
+// The view must suit the exercise and the camera should not be tilted
+export function checkCameraAngle(
+  exercise: ExerciseDefinition,
+  landmarks: PoseLandmark[] | null,
+  view: ViewOrientation,
+): SetupCheckResult {
+  const result = { id: "angle" as const, label: "Camera angle" };
+  if (!landmarks || view === "unknown") {
+    return { ...result, passed: false, fix: "Step into view of the camera" };
+  }
+
+  const warning = getOrientationWarning(exercise, view);
+  if (warning) {
+    return {
+      ...result,
+      passed: false,
+      fix:
+        exercise.preferredView === "side"
+          ? "Turn sideways so your side faces the camera"
+          : "Turn to face the camera",
+    };
+  }
+
+  // Lying exercises only: shoulders and hips rest on the floor at the start
+  if (exercise.mode !== "rotation" && view !== "front") {
+    const near = view === "side-left" ? "LEFT" : "RIGHT";
+    const shoulder = landmarks[POSE_LANDMARKS[`${near}_SHOULDER`]];
+    const hip = landmarks[POSE_LANDMARKS[`${near}_HIP`]];
+    // Holds are checked in position, where the body is already inclined
+    const maxRoll =
+      exercise.mode === "hold"
+        ? exercise.alignment.maxIncline
+        : MAX_CAMERA_ROLL_DEG;
+    if (
+      visible(shoulder) &&
+      visible(hip) &&
+      calculateIncline(shoulder, hip) > maxRoll
+    ) {
+      return {
+        ...result,
+        passed: false,
+        fix: "Lower the camera to floor height and keep it level",
+      };
+    }
+  }
+
+  return { ...result, passed: true, fix: null };
+}
+
+export function runSetupChecks({
+  exercise,
+  landmarks,
+  view,
+  lighting,
+}: SetupCheckInput): SetupCheckResult[] {
+  return [
+    checkFraming(exercise, landmarks),
+    checkDistance(landmarks),
+    checkLighting(lighting),
+    checkCameraAngle(exercise, landmarks, view),
+  ];
+}
@@ -0,0 +1,154 @@
+import type { ExerciseDefinition } from "./exercises";
+import {
+  CUE_PRIORITY,
+  CueScheduler,
+  selectCues,
+  type CoachVerbosity,
+  type CueSnapshot,
+} from "./coaching-cues";
+
+export interface CoachSettings {
+  enabled: boolean;
+  // null uses the browser's default voice
+  voiceURI: string | null;
+  // 0-1
+  volume: number;
+  verbosity: CoachVerbosity;
+}
+
+export const DEFAULT_COACH_SETTINGS: CoachSettings = {
+  enabled: true,
+  voiceURI: null,
+  volume: 1,
+  verbosity: "normal",
+};
+
+export interface CoachVoice {
+  voiceURI: string;
+  label: string;
+}
+
+// Anything that can read a cue out loud. The browser implementation wraps
+// the Web Speech API; a silent one can stand in for it elsewhere.
+export interface CueSpeaker {
+  speak: (text: string, onEnd: () => void) => void;
+  cancel: () => void;
+}
+
+const COACH_SETTINGS_KEY = "imperfectabs:coachSettings";
+
+export const isSpeechSupported = (): boolean =>
+  typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Installed voices. Some browsers load them asynchronously, so callers should
+// list again on the "voiceschanged" event.
+export function listVoices(): CoachVoice[] {
+  if (!isSpeechSupported()) return [];
+  return window.speechSynthesis.getVoices().map((voice) => ({
+    voiceURI: voice.voiceURI,
+    label: `${voice.name} (${voice.lang})`,
+  }));
+}
+
+export function createSpeechSpeaker(settings: CoachSettings): CueSpeaker {
+  const synth = window.speechSynthesis;
+  const voice =
+    synth.getVoices().find((v) => v.voiceURI === settings.voiceURI) ?? null;
+
+  return {
+    speak: (text, onEnd) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.voice = voice;
+      utterance.volume = settings.volume;
+      // Cues are short commands; a slightly faster rate keeps them snappy
+      utterance.rate = 1.1;
+      utterance.onend = onEnd;
+      utterance.onerror = onEnd;
+      synth.speak(utterance);
+    },
+    cancel: () => synth.cancel(),
+  };
+}
+
+// Turns the session's state into spoken cues, one at a time
+export class AudioCoach {
+  private exercise: ExerciseDefinition;
+  private verbosity: CoachVerbosity;
+  private speaker: CueSpeaker;
+  private scheduler = new CueScheduler();
+  private previous: CueSnapshot | null = null;
+  private speaking = false;
+  // Set when a cue finishes; the gap to the next starts on the next tick
+  private finishedPending = false;
+
+  constructor(
+    exercise: ExerciseDefinition,
+    verbosity: CoachVerbosity,
+    speaker: CueSpeaker,
+  ) {
+    this.exercise = exercise;
+    this.verbosity = verbosity;
+    this.speaker = speaker;
+  }
+
+  // Call on a regular tick with the latest state
+  public update(snapshot: CueSnapshot, now: number): void {
+    if (this.previous) {
+      this.scheduler.enqueue(
+        selectCues(this.previous, snapshot, this.exercise, this.verbosity, now),
+      );
+    }
+    this.previous = snapshot;
+    if (this.finishedPending) {
+      this.finishedPending = false;
+      this.scheduler.finished(now);
+    }
+
+    const cue = this.scheduler.next(now, this.speaking);
+    if (!cue) return;
+    this.speaking = true;
+    this.speaker.speak(cue.text, () => {
+      this.speaking = false;
+      this.finishedPending = true;
+    });
+  }
+
+  // Program phases can switch exercise mid-session
+  public setExercise(exercise: ExerciseDefinition): void {
+    this.exercise = exercise;
+  }
+
+  // Program phase changes are spoken ahead of everything else
+  public announce(text: string, now: number): void {
+    this.scheduler.enqueue([
+      { kind: "program", text, priority: CUE_PRIORITY.program, createdAt: now },
+    ]);
+  }
+
+  public stop(): void {
+    this.scheduler.clear();
+    this.speaker.cancel();
+    this.speaking = false;
+    this.finishedPending = false;
+    this.previous = null;
+  }
+}
+
+export function loadCoachSettings(): CoachSettings {
+  try {
+    const raw = localStorage.getItem(COACH_SETTINGS_KEY);
+    return raw
+      ? { ...DEFAULT_COACH_SETTINGS, ...JSON.parse(raw) }
+      : DEFAULT_COACH_SETTINGS;
+  } catch {
+    return DEFAULT_COACH_SETTINGS;
+  }
+}
+
+export function saveCoachSettings(settings: CoachSettings): void {
+  try {
+    localStorage.setItem(COACH_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save coach settings:", error);
+  }
+}
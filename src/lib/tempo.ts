@@ -0,0 +1,185 @@
+import type { RepEvent } from "./rep-analytics";
+
+export type TempoPhase = "up" | "hold" | "down" | "rest";
+
+// Seconds spent in each phase of one rep
+export interface TempoTarget {
+  up: number;
+  hold: number;
+  down: number;
+  rest: number;
+}
+
+export interface TempoPreset {
+  id: string;
+  label: string;
+  target: TempoTarget;
+}
+
+export const TEMPO_PRESETS: TempoPreset[] = [
+  {
+    id: "controlled",
+    label: "2-1-3 Controlled",
+    target: { up: 2, hold: 1, down: 3, rest: 0 },
+  },
+  {
+    id: "steady",
+    label: "1-0-1 Steady",
+    target: { up: 1, hold: 0, down: 1, rest: 0 },
+  },
+  {
+    id: "slow",
+    label: "3-1-3 Slow",
+    target: { up: 3, hold: 1, down: 3, rest: 0 },
+  },
+  {
+    id: "squeeze",
+    label: "2-2-2 Squeeze",
+    target: { up: 2, hold: 2, down: 2, rest: 0 },
+  },
+];
+
+export const TEMPO_PHASE_LABELS: Record<TempoPhase, string> = {
+  up: "UP",
+  hold: "HOLD",
+  down: "DOWN",
+  rest: "REST",
+};
+
+export interface TempoSettings {
+  enabled: boolean;
+  target: TempoTarget;
+  // Audible ticks in addition to the visual prompts
+  sound: boolean;
+}
+
+export const DEFAULT_TEMPO_SETTINGS: TempoSettings = {
+  enabled: false,
+  target: TEMPO_PRESETS[0].target,
+  sound: true,
+};
+
+export interface TempoPosition {
+  phase: TempoPhase;
+  // Milliseconds left in the current phase
+  remainingMs: number;
+  // Number of full cycles completed
+  cycle: number;
+}
+
+// Actual phase durations of one rep, in seconds, and how close they came
+export interface RepTempo {
+  index: number;
+  up: number;
+  hold: number;
+  down: number;
+  // 0-100
+  adherence: number;
+}
+
+export interface TempoReport {
+  target: TempoTarget;
+  reps: RepTempo[];
+  // Mean of the per-rep scores, 0-100
+  adherence: number;
+}
+
+const PHASE_ORDER: TempoPhase[] = ["up", "hold", "down", "rest"];
+// Phase timing within this many seconds of the target scores full marks
+const TEMPO_TOLERANCE_S = 0.25;
+const TEMPO_SETTINGS_KEY = "imperfectabs:tempoSettings";
+
+export const tempoCycleMs = (target: TempoTarget): number =>
+  (target.up + target.hold + target.down + target.rest) * 1000;
+
+// "2-1-3" (rest is only shown when set)
+export const formatTempo = (target: TempoTarget): string =>
+  [target.up, target.hold, target.down, ...(target.rest ? [target.rest] : [])]
+    .map((s) => String(s))
+    .join("-");
+
+// Where in the tempo cycle a metronome started `elapsedMs` ago is
+export function getTempoPosition(
+  target: TempoTarget,
+  elapsedMs: number,
+): TempoPosition {
+  const cycleMs = tempoCycleMs(target);
+  if (cycleMs <= 0) return { phase: "up", remainingMs: 0, cycle: 0 };
+
+  const cycle = Math.floor(elapsedMs / cycleMs);
+  let offset = elapsedMs - cycle * cycleMs;
+  for (const phase of PHASE_ORDER) {
+    const duration = target[phase] * 1000;
+    if (offset < duration) {
+      return { phase, remainingMs: duration - offset, cycle };
+    }
+    offset -= duration;
+  }
+  return { phase: "rest", remainingMs: 0, cycle };
+}
+
+// Phases with a zero target are not scored; each scored phase loses marks in
+// proportion to how far it strays beyond the tolerance, relative to its target
+export function scoreRepTempo(rep: RepEvent, target: TempoTarget): number {
+  const actual = {
+    up: rep.phases.up / 1000,
+    hold: rep.phases.hold / 1000,
+    down: rep.phases.down / 1000,
+  };
+  const errors = (["up", "hold", "down"] as const)
+    .filter((phase) => target[phase] > 0)
+    .map((phase) =>
+      Math.min(
+        1,
+        Math.max(
+          0,
+          Math.abs(actual[phase] - target[phase]) - TEMPO_TOLERANCE_S,
+        ) / target[phase],
+      ),
+    );
+  if (errors.length === 0) return 100;
+  const meanError = errors.reduce((sum, e) => sum + e, 0) / errors.length;
+  return Math.round(100 * (1 - meanError));
+}
+
+export function buildTempoReport(
+  reps: RepEvent[],
+  target: TempoTarget,
+): TempoReport | null {
+  if (reps.length === 0) return null;
+
+  const round = (ms: number) => Math.round(ms / 100) / 10;
+  const scored = reps.map((rep) => ({
+    index: rep.index,
+    up: round(rep.phases.up),
+    hold: round(rep.phases.hold),
+    down: round(rep.phases.down),
+    adherence: scoreRepTempo(rep, target),
+  }));
+  return {
+    target,
+    reps: scored,
+    adherence: Math.round(
+      scored.reduce((sum, rep) => sum + rep.adherence, 0) / scored.length,
+    ),
+  };
+}
+
+export function loadTempoSettings(): TempoSettings {
+  try {
+    const raw = localStorage.getItem(TEMPO_SETTINGS_KEY);
+    return raw
+      ? { ...DEFAULT_TEMPO_SETTINGS, ...JSON.parse(raw) }
+      : DEFAULT_TEMPO_SETTINGS;
+  } catch {
+    return DEFAULT_TEMPO_SETTINGS;
+  }
+}
+
+export function saveTempoSettings(settings: TempoSettings): void {
+  try {
+    localStorage.setItem(TEMPO_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not save tempo settings:", error);
+  }
+}
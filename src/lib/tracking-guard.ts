@@ -0,0 +1,126 @@
+import type { ExerciseDefinition } from "./exercises";
+import { POSE_LANDMARKS } from "./pose-landmarks";
+import type { AthleteLockStatus } from "./athlete-lock";
+
+// Whether the detector can currently see the landmarks an exercise needs
+export type TrackingStatus = "tracking" | "lost" | "recovering";
+
+export interface TrackingConfig {
+  // Invalid frames for this long mark tracking as lost
+  lostAfterMs: number;
+  // Valid frames for this long are needed before counting resumes
+  resumeAfterMs: number;
+}
+
+export const DEFAULT_TRACKING: TrackingConfig = {
+  lostAfterMs: 500,
+  resumeAfterMs: 1000,
+};
+
+// Debounces per-frame pose validity into a tracking state. Brief dropouts
+// only skip the affected frames; longer ones pause the session until the
+// pose has been stable again for a while.
+export class TrackingGuard {
+  private config: TrackingConfig;
+  private status: TrackingStatus = "tracking";
+  private lastValid = true;
+  private invalidSince: number | null = null;
+  private validSince: number | null = null;
+  private completedLostTime = 0;
+  private lastTimestamp = 0;
+
+  constructor(config: TrackingConfig = DEFAULT_TRACKING) {
+    this.config = config;
+  }
+
+  public update(valid: boolean, timestamp: number): TrackingStatus {
+    this.lastValid = valid;
+    this.lastTimestamp = timestamp;
+
+    if (!valid) {
+      this.validSince = null;
+      this.invalidSince ??= timestamp;
+      if (timestamp - this.invalidSince >= this.config.lostAfterMs) {
+        this.status = "lost";
+      }
+      return this.status;
+    }
+
+    if (this.status === "tracking") {
+      this.invalidSince = null;
+      return this.status;
+    }
+
+    this.validSince ??= timestamp;
+    if (timestamp - this.validSince >= this.config.resumeAfterMs) {
+      this.completedLostTime += timestamp - (this.invalidSince ?? timestamp);
+      this.invalidSince = null;
+      this.validSince = null;
+      this.status = "tracking";
+    } else {
+      this.status = "recovering";
+    }
+    return this.status;
+  }
+
+  public getStatus(): TrackingStatus {
+    return this.status;
+  }
+
+  // True when the latest frame may be counted
+  public get counting(): boolean {
+    return this.status === "tracking" && this.lastValid;
+  }
+
+  // Milliseconds spent lost or recovering, including a loss still under way
+  public lostTime(timestamp: number): number {
+    const ongoing =
+      this.status !== "tracking" && this.invalidSince !== null
+        ? timestamp - this.invalidSince
+        : 0;
+    return this.completedLostTime + ongoing;
+  }
+
+  // Start over for a new exercise. Time already lost, including a loss
+  // under way at the last frame, stays in the session's total; a new guard
+  // starts that total at zero.
+  public restart(): void {
+    this.completedLostTime = this.lostTime(this.lastTimestamp);
+    this.status = "tracking";
+    this.lastValid = true;
+    this.invalidSince = null;
+    this.validSince = null;
+  }
+}
+
+// "shoulders, hips and knees" for the landmarks an exercise needs
+function describeLandmarks(indices: number[]): string {
+  const parts = new Set<string>();
+  for (const [name, index] of Object.entries(POSE_LANDMARKS)) {
+    if (!indices.includes(index)) continue;
+    const part = name.replace(/^(LEFT|RIGHT)_/, "").toLowerCase();
+    parts.add(part === name.toLowerCase() ? part : `${part}s`);
+  }
+  const list = [...parts];
+  return list.length > 1
+    ? `${list.slice(0, -1).join(", ")} and ${list[list.length - 1]}`
+    : (list[0] ?? "body");
+}
+
+// What to tell the user while counting is paused, or null while tracking
+export function getPositioningPrompt(
+  exercise: ExerciseDefinition,
+  status: TrackingStatus,
+  athleteLock: AthleteLockStatus = "athlete",
+): string | null {
+  if (athleteLock === "other") {
+    return "Tracking jumped to someone else. Step back into your spot and keep others out of frame";
+  }
+  if (status === "recovering") return "Hold still, resuming...";
+  if (status === "lost") {
+    return `Move back into frame so your ${describeLandmarks(
+      exercise.requiredLandmarks,
+    )} are visible`;
+  }
+  return null;
+}
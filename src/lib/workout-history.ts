@@ -0,0 +1,234 @@
+import type { ExerciseId } from "./exercises";
+import type { WorkoutSession } from "./contractIntegration";
+import type { WeatherData } from "./weatherXM";
+import { toSubmissionData, type SessionStats } from "./workout-session";
+
+export type SubmissionStatus = "unsubmitted" | "submitted" | "failed";
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  unsubmitted: "Not submitted",
+  submitted: "On-chain",
+  failed: "Submission failed",
+};
+
+export interface SubmissionRecord {
+  status: SubmissionStatus;
+  txHash?: string;
+  // Milliseconds since the epoch
+  submittedAt?: number;
+}
+
+// Conditions when the session finished
+export interface WeatherSnapshot {
+  location: string;
+  temperature: number;
+  humidity: number;
+  condition: string;
+  uvIndex: number;
+  precipitation: number;
+  // Bonus percentage the conditions earned
+  bonus: number;
+  source: WeatherData["source"];
+  timestamp: number;
+}
+
+// One completed session as stored in the browser. The stats carry the
+// per-rep records and every report the summary shows.
+export interface HistoryEntry {
+  id: string;
+  // Milliseconds since the epoch
+  completedAt: number;
+  exerciseId: ExerciseId;
+  stats: SessionStats;
+  weather: WeatherSnapshot | null;
+  walletAddress: string | null;
+  submission: SubmissionRecord;
+}
+
+// A row of the merged history: a local entry, an on-chain session or both
+export interface HistoryItem {
+  key: string;
+  // Milliseconds since the epoch
+  timestamp: number;
+  // Unknown for sessions only found on-chain
+  exerciseId: ExerciseId | null;
+  reps: number;
+  formAccuracy: number;
+  streak: number;
+  duration: number;
+  local: HistoryEntry | null;
+  onChain: WorkoutSession | null;
+}
+
+const DB_NAME = "imperfectabs";
+const DB_VERSION = 1;
+const STORE_NAME = "sessions";
+// An on-chain session lands within this long of the session finishing
+const CHAIN_MATCH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const isHistorySupported = (): boolean =>
+  typeof indexedDB !== "undefined";
+
+export function toWeatherSnapshot(data: WeatherData): WeatherSnapshot {
+  return {
+    location: data.location,
+    temperature: data.temperature,
+    humidity: data.humidity,
+    condition: data.condition,
+    uvIndex: data.uvIndex,
+    precipitation: data.precipitation,
+    bonus: data.bonus.total,
+    source: data.source,
+    timestamp: data.timestamp,
+  };
+}
+
+export function createHistoryEntry(
+  stats: SessionStats,
+  walletAddress: string | null,
+  completedAt: number = Date.now(),
+): HistoryEntry {
+  return {
+    id: `${completedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    completedAt,
+    exerciseId: stats.exerciseId,
+    stats,
+    weather: null,
+    walletAddress,
+    submission: { status: "unsubmitted" },
+  };
+}
+
+// Resolve an IDBRequest as a promise
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openHistoryDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "id",
+      });
+      store.createIndex("completedAt", "completedAt");
+    };
+    dbPromise = settle(request).catch((error) => {
+      // Let a later call try again
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openHistoryDb();
+  return settle(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await withStore("readwrite", (store) => store.put(entry));
+}
+
+// Merge fields into a stored entry (e.g. the weather or submission result)
+export async function updateHistoryEntry(
+  id: string,
+  changes: Partial<Omit<HistoryEntry, "id">>,
+): Promise<void> {
+  const entry = await withStore<HistoryEntry | undefined>("readonly", (store) =>
+    store.get(id),
+  );
+  if (!entry) return;
+  await saveHistoryEntry({ ...entry, ...changes });
+}
+
+// Newest first
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>("readonly", (store) =>
+    store.index("completedAt").getAll(),
+  );
+  return entries.reverse();
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+const sameWallet = (a: string | null, b: string | null) =>
+  !a || !b || a.toLowerCase() === b.toLowerCase();
+
+// Combine local entries with the wallet's on-chain sessions. An on-chain
+// session is the same workout as a local entry when it recorded exactly the
+// values the entry submits as and landed shortly after the entry finished;
+// each is matched to the closest such entry at most once.
+export function mergeHistory(
+  local: HistoryEntry[],
+  onChain: WorkoutSession[],
+  walletAddress: string | null,
+): HistoryItem[] {
+  const unmatched = new Set(local.map((entry) => entry.id));
+  const items: HistoryItem[] = [];
+
+  for (const [i, session] of onChain.entries()) {
+    const chainTime = session.timestamp * 1000;
+    const match = local
+      .filter((entry) => {
+        if (!unmatched.has(entry.id)) return false;
+        if (!sameWallet(entry.walletAddress, walletAddress)) return false;
+        const submitted = toSubmissionData(entry.stats);
+        const delay = chainTime - entry.completedAt;
+        return (
+          submitted.reps === session.reps &&
+          submitted.formAccuracy === session.formAccuracy &&
+          submitted.streak === session.streak &&
+          submitted.duration === session.duration &&
+          delay >= 0 &&
+          delay <= CHAIN_MATCH_WINDOW_MS
+        );
+      })
+      .sort(
+        (a, b) =>
+          Math.abs(chainTime - a.completedAt) -
+          Math.abs(chainTime - b.completedAt),
+      )[0];
+
+    if (match) unmatched.delete(match.id);
+    items.push({
+      key: match ? match.id : `chain-${i}-${session.timestamp}`,
+      timestamp: match ? match.completedAt : chainTime,
+      exerciseId: match?.exerciseId ?? null,
+      reps: session.reps,
+      formAccuracy: session.formAccuracy,
+      streak: session.streak,
+      duration: session.duration,
+      local: match ?? null,
+      onChain: session,
+    });
+  }
+
+  for (const entry of local) {
+    if (!unmatched.has(entry.id)) continue;
+    const submitted = toSubmissionData(entry.stats);
+    items.push({
+      key: entry.id,
+      timestamp: entry.completedAt,
+      exerciseId: entry.exerciseId,
+      reps: submitted.reps,
+      formAccuracy: submitted.formAccuracy,
+      streak: submitted.streak,
+      duration: submitted.duration,
+      local: entry,
+      onChain: null,
+    });
+  }
+
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+}
@@ -0,0 +1,552 @@
+import { getExercise, type ExerciseId } from "./exercises";
+import type { ExerciseState } from "./pose-detection";
+import { STREAK_FORM_ACCURACY } from "./workout-session";
+
+// "free" is the original single timed session without a program
+export type ProgramFormat =
+  "free" | "sets" | "emom" | "tabata" | "amrap" | "circuit";
+
+export const PROGRAM_FORMAT_LABELS: Record<ProgramFormat, string> = {
+  free: "Free session (2 min)",
+  sets: "Sets & rest",
+  emom: "EMOM (every minute on the minute)",
+  tabata: "Tabata (20s on / 10s off)",
+  amrap: "AMRAP (as many reps as possible)",
+  circuit: "Core circuit",
+};
+
+export interface WorkPhase {
+  kind: "work";
+  exerciseId: ExerciseId;
+  label: string;
+  // The phase ends once its target is met (reps, or hold seconds for hold
+  // exercises) or its time cap runs out, whichever comes first
+  targetReps: number | null;
+  targetHoldSec: number | null;
+  durationSec: number | null;
+  // EMOM: meeting the target early turns the rest of the window into rest
+  fillWindow: boolean;
+}
+
+export interface RestPhase {
+  kind: "rest";
+  label: string;
+  durationSec: number;
+}
+
+export type ProgramPhase = WorkPhase | RestPhase;
+
+export interface WorkoutProgram {
+  format: ProgramFormat;
+  name: string;
+  phases: ProgramPhase[];
+}
+
+export interface ProgramOptions {
+  format: ProgramFormat;
+  sets: number;
+  // Per set (rep exercises) or seconds per set (hold exercises)
+  reps: number;
+  holdSec: number;
+  restSec: number;
+  // EMOM and AMRAP length
+  minutes: number;
+  // Tabata and circuit rounds
+  rounds: number;
+}
+
+export const DEFAULT_PROGRAM_OPTIONS: ProgramOptions = {
+  format: "free",
+  sets: 3,
+  reps: 15,
+  holdSec: 30,
+  restSec: 45,
+  minutes: 5,
+  rounds: 8,
+};
+
+// Stations of the core circuit; hold exercises take seconds instead of reps
+export const CORE_CIRCUIT: {
+  exerciseId: ExerciseId;
+  reps?: number;
+  holdSec?: number;
+}[] = [
+  { exerciseId: "crunch", reps: 15 },
+  { exerciseId: "plank", holdSec: 30 },
+  { exerciseId: "bicycle-crunch", reps: 20 },
+  { exerciseId: "leg-raise", reps: 10 },
+];
+const CIRCUIT_STATION_REST_SEC = 15;
+// Countdown before the first work phase, to get into position
+const PROGRAM_LEAD_IN_SEC = 10;
+const TABATA_WORK_SEC = 20;
+const TABATA_REST_SEC = 10;
+
+export interface ProgramSetResult {
+  index: number;
+  label: string;
+  exerciseId: ExerciseId;
+  reps: number;
+  // Seconds
+  holdTime: number;
+  formAccuracy: number;
+  targetReps: number | null;
+  targetHoldSec: number | null;
+  // Seconds spent working in the set
+  duration: number;
+  // Target met, or the timed set was worked to the end
+  completed: boolean;
+}
+
+export interface ProgramSummary {
+  format: ProgramFormat;
+  name: string;
+  sets: ProgramSetResult[];
+  totalReps: number;
+  // Seconds
+  totalHoldTime: number;
+  // Rep-weighted across rep sets, time-weighted across hold sets
+  formAccuracy: number;
+  bestStreak: number;
+  // Seconds spent in work sets; the lead-in and rests are not counted
+  duration: number;
+  // Every phase ran to the end
+  finished: boolean;
+}
+
+export interface ProgramStatus {
+  phaseIndex: number;
+  phase: ProgramPhase;
+  // "rest" during rest phases and the remainder of a met EMOM window
+  mode: "work" | "rest";
+  // 1-based number of the current or last work phase
+  setNumber: number;
+  totalSets: number;
+  reps: number;
+  // Milliseconds
+  holdTime: number;
+  // Milliseconds left in a timed phase, null for untimed ones
+  remainingMs: number | null;
+  paused: boolean;
+  finished: boolean;
+}
+
+const work = (
+  exerciseId: ExerciseId,
+  label: string,
+  fields: Partial<WorkPhase> = {},
+): WorkPhase => ({
+  kind: "work",
+  exerciseId,
+  label,
+  targetReps: null,
+  targetHoldSec: null,
+  durationSec: null,
+  fillWindow: false,
+  ...fields,
+});
+
+const rest = (durationSec: number, label = "Rest"): RestPhase => ({
+  kind: "rest",
+  label,
+  durationSec,
+});
+
+// Rep target, or hold seconds for hold exercises
+const target = (exerciseId: ExerciseId, reps: number, holdSec: number) =>
+  getExercise(exerciseId).mode === "hold"
+    ? { targetHoldSec: holdSec }
+    : { targetReps: reps };
+
+// Expand the chosen format into a flat list of phases. Single-exercise
+// formats use the selected exercise; the circuit has its own stations.
+// Returns null for a free session.
+export function buildProgram(
+  options: ProgramOptions,
+  exerciseId: ExerciseId,
+): WorkoutProgram | null {
+  const name = getExercise(exerciseId).name;
+  const phases: ProgramPhase[] = [rest(PROGRAM_LEAD_IN_SEC, "Get ready")];
+
+  switch (options.format) {
+    case "free":
+      return null;
+
+    case "sets":
+      for (let set = 1; set <= options.sets; set++) {
+        if (set > 1 && options.restSec > 0) phases.push(rest(options.restSec));
+        phases.push(
+          work(
+            exerciseId,
+            `Set ${set}`,
+            target(exerciseId, options.reps, options.holdSec),
+          ),
+        );
+      }
+      return {
+        format: "sets",
+        name: `${options.sets} × ${name}`,
+        phases,
+      };
+
+    case "emom":
+      for (let minute = 1; minute <= options.minutes; minute++) {
+        phases.push(
+          work(exerciseId, `Minute ${minute}`, {
+            ...target(exerciseId, options.reps, options.holdSec),
+            durationSec: 60,
+            fillWindow: true,
+          }),
+        );
+      }
+      return {
+        format: "emom",
+        name: `EMOM ${options.minutes} min · ${name}`,
+        phases,
+      };
+
+    case "tabata":
+      for (let round = 1; round <= options.rounds; round++) {
+        if (round > 1) phases.push(rest(TABATA_REST_SEC));
+        phases.push(
+          work(exerciseId, `Round ${round}`, { durationSec: TABATA_WORK_SEC }),
+        );
+      }
+      return { format: "tabata", name: `Tabata · ${name}`, phases };
+
+    case "amrap":
+      phases.push(
+        work(exerciseId, "AMRAP", { durationSec: options.minutes * 60 }),
+      );
+      return {
+        format: "amrap",
+        name: `AMRAP ${options.minutes} min · ${name}`,
+        phases,
+      };
+
+    case "circuit":
+      for (let round = 1; round <= options.sets; round++) {
+        if (round > 1 && options.restSec > 0) {
+          phases.push(rest(options.restSec, "Round rest"));
+        }
+        CORE_CIRCUIT.forEach((station, i) => {
+          if (i > 0) phases.push(rest(CIRCUIT_STATION_REST_SEC, "Switch"));
+          phases.push(
+            work(
+              station.exerciseId,
+              `Round ${round}`,
+              station.holdSec
+                ? { targetHoldSec: station.holdSec }
+                : { targetReps: station.reps ?? options.reps },
+            ),
+          );
+        });
+      }
+      return { format: "circuit", name: "Core circuit", phases };
+  }
+}
+
+// Exercises in the order the program first uses them
+export const programExercises = (program: WorkoutProgram): ExerciseId[] => [
+  ...new Set(
+    program.phases.flatMap((p) => (p.kind === "work" ? [p.exerciseId] : [])),
+  ),
+];
+
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+// Spoken when a phase starts
+export function announcePhase(phase: ProgramPhase): string {
+  if (phase.kind === "rest") {
+    return `${phase.label}, ${phase.durationSec} seconds`;
+  }
+  const name = getExercise(phase.exerciseId).name;
+  if (phase.targetReps !== null) {
+    return `${phase.label}. ${name}, ${phase.targetReps} reps`;
+  }
+  if (phase.targetHoldSec !== null) {
+    return `${phase.label}. ${name}, hold ${phase.targetHoldSec} seconds`;
+  }
+  return `${phase.label}. ${name}, go`;
+}
+
+// One-line overlay text, e.g. "SET 2/3 · 7/15 REPS" or "REST 0:23"
+export function formatProgramStatus(status: ProgramStatus): string {
+  const { phase } = status;
+  const clock =
+    status.remainingMs !== null ? ` · ${formatClock(status.remainingMs)}` : "";
+  if (phase.kind === "rest" || status.mode === "rest") {
+    return `${phase.kind === "rest" ? phase.label : "Rest"}${clock}`.toUpperCase();
+  }
+  const progress =
+    phase.targetHoldSec !== null
+      ? `${Math.floor(status.holdTime / 1000)}/${phase.targetHoldSec}s`
+      : phase.targetReps !== null
+        ? `${status.reps}/${phase.targetReps} reps`
+        : `${status.reps} reps`;
+  return `Set ${status.setNumber}/${status.totalSets} · ${progress}${clock}`.toUpperCase();
+}
+
+interface SetAccumulator {
+  reps: number;
+  holdMs: number;
+  repForms: number[];
+  frameFormSum: number;
+  frameFormCount: number;
+}
+
+const emptySet = (): SetAccumulator => ({
+  reps: 0,
+  holdMs: 0,
+  repForms: [],
+  frameFormSum: 0,
+  frameFormCount: 0,
+});
+
+// Moves through a program's phases on a clock and the detector's state.
+// Reps and hold time are taken as increases between updates, so counters
+// that reset when the exercise changes do not leak between sets. Time is
+// passed in, so a program can be run without a camera; paused time is
+// excluded from every phase, and only work sets count towards the
+// program's duration.
+export class ProgramRunner {
+  private program: WorkoutProgram;
+  private totalSets: number;
+  private phaseIndex = 0;
+  private phaseStartedAt = 0;
+  private mode: "work" | "rest" = "work";
+  private setNumber = 0;
+  private current = emptySet();
+  private results: ProgramSetResult[] = [];
+  private streakForms: number[] = [];
+  private workMs = 0;
+  private lastCounter = 0;
+  private lastHoldTime = 0;
+  private lastRepEnd: number | null = null;
+  private pausedAt: number | null = null;
+  private finished = false;
+
+  constructor(program: WorkoutProgram) {
+    this.program = program;
+    this.totalSets = program.phases.filter((p) => p.kind === "work").length;
+  }
+
+  public start(now: number, state: ExerciseState): ProgramPhase {
+    this.lastCounter = state.counter;
+    this.lastHoldTime = state.holdTime;
+    this.lastRepEnd = state.lastRep?.endTime ?? null;
+    this.enterPhase(0, now);
+    return this.program.phases[0];
+  }
+
+  // Feed the latest state; returns the phase that started on this update
+  // (if any) so the caller can switch exercise or announce it
+  public update(now: number, state: ExerciseState): ProgramPhase | null {
+    if (this.finished || this.pausedAt !== null) return null;
+
+    const newReps = Math.max(0, state.counter - this.lastCounter);
+    const newHold = Math.max(0, state.holdTime - this.lastHoldTime);
+    const rep = state.lastRep;
+    const repCompleted = !!rep && rep.endTime !== this.lastRepEnd;
+    this.lastCounter = state.counter;
+    this.lastHoldTime = state.holdTime;
+    this.lastRepEnd = rep?.endTime ?? this.lastRepEnd;
+
+    const phase = this.program.phases[this.phaseIndex];
+    if (phase.kind === "work" && this.mode === "work") {
+      this.current.reps += newReps;
+      this.current.holdMs += newHold;
+      if (repCompleted && rep) {
+        this.current.repForms.push(rep.formAccuracy);
+        this.streakForms.push(rep.formAccuracy);
+      }
+      if (state.tracking === "tracking") {
+        this.current.frameFormSum += state.formAccuracy;
+        this.current.frameFormCount += 1;
+      }
+    }
+
+    const elapsed = now - this.phaseStartedAt;
+    const timeUp =
+      phase.durationSec !== null && elapsed >= phase.durationSec * 1000;
+
+    if (phase.kind === "rest") {
+      return timeUp ? this.advance(now) : null;
+    }
+
+    if (this.mode === "rest") {
+      // Remainder of a met EMOM window
+      return timeUp ? this.advance(now) : null;
+    }
+
+    const targetMet =
+      (phase.targetReps !== null && this.current.reps >= phase.targetReps) ||
+      (phase.targetHoldSec !== null &&
+        this.current.holdMs >= phase.targetHoldSec * 1000);
+    if (targetMet && phase.fillWindow && !timeUp) {
+      this.closeSet(phase, now, true);
+      this.mode = "rest";
+      return null;
+    }
+    if (targetMet || timeUp) {
+      const untargeted =
+        phase.targetReps === null && phase.targetHoldSec === null;
+      this.closeSet(phase, now, targetMet || untargeted);
+      return this.advance(now);
+    }
+    return null;
+  }
+
+  public pause(now: number): void {
+    if (this.pausedAt === null) this.pausedAt = now;
+  }
+
+  // Shift the clocks forward by the paused time
+  public resume(now: number): void {
+    if (this.pausedAt === null) return;
+    this.phaseStartedAt += now - this.pausedAt;
+    this.pausedAt = null;
+  }
+
+  // A work set is open, so reps made now belong to the program rather
+  // than to the lead-in or a rest
+  public isCounting(): boolean {
+    const phase = this.program.phases[this.phaseIndex];
+    return (
+      !this.finished &&
+      this.pausedAt === null &&
+      phase.kind === "work" &&
+      this.mode === "work"
+    );
+  }
+
+  public getStatus(now: number): ProgramStatus {
+    const at = this.pausedAt ?? now;
+    const phase = this.program.phases[this.phaseIndex];
+    return {
+      phaseIndex: this.phaseIndex,
+      phase,
+      mode: phase.kind === "rest" ? "rest" : this.mode,
+      setNumber: Math.max(1, this.setNumber),
+      totalSets: this.totalSets,
+      reps: this.current.reps,
+      holdTime: this.current.holdMs,
+      remainingMs:
+        phase.durationSec === null
+          ? null
+          : Math.max(0, phase.durationSec * 1000 - (at - this.phaseStartedAt)),
+      paused: this.pausedAt !== null,
+      finished: this.finished,
+    };
+  }
+
+  // Close a set still in progress and summarise the whole program
+  public finish(now: number): ProgramSummary {
+    const at = this.pausedAt ?? now;
+    const phase = this.program.phases[this.phaseIndex];
+    if (!this.finished && phase.kind === "work" && this.mode === "work") {
+      this.closeSet(phase, at, false);
+    }
+
+    const sets = this.results;
+    const totalReps = sets.reduce((sum, s) => sum + s.reps, 0);
+    const totalHoldTime = sets.reduce((sum, s) => sum + s.holdTime, 0);
+    const weighted = sets.reduce(
+      (acc, s) => {
+        const weight = s.reps + s.holdTime;
+        return {
+          sum: acc.sum + s.formAccuracy * weight,
+          weight: acc.weight + weight,
+        };
+      },
+      { sum: 0, weight: 0 },
+    );
+
+    let streak = 0;
+    let bestStreak = 0;
+    for (const form of this.streakForms) {
+      streak = form >= STREAK_FORM_ACCURACY ? streak + 1 : 0;
+      bestStreak = Math.max(bestStreak, streak);
+    }
+
+    return {
+      format: this.program.format,
+      name: this.program.name,
+      sets,
+      totalReps,
+      totalHoldTime,
+      formAccuracy:
+        weighted.weight > 0 ? Math.round(weighted.sum / weighted.weight) : 0,
+      bestStreak,
+      duration: Math.round(this.workMs / 1000),
+      finished: this.finished,
+    };
+  }
+
+  private enterPhase(index: number, now: number): void {
+    this.phaseIndex = index;
+    this.phaseStartedAt = now;
+    this.mode = "work";
+    if (this.program.phases[index].kind === "work") {
+      this.setNumber += 1;
+      this.current = emptySet();
+    }
+  }
+
+  private advance(now: number): ProgramPhase | null {
+    if (this.phaseIndex + 1 >= this.program.phases.length) {
+      this.finished = true;
+      return null;
+    }
+    this.enterPhase(this.phaseIndex + 1, now);
+    return this.program.phases[this.phaseIndex];
+  }
+
+  private closeSet(phase: WorkPhase, now: number, completed: boolean): void {
+    const set = this.current;
+    const formAccuracy =
+      set.repForms.length > 0
+        ? set.repForms.reduce((sum, f) => sum + f, 0) / set.repForms.length
+        : set.frameFormCount > 0
+          ? set.frameFormSum / set.frameFormCount
+          : 0;
+
+    this.workMs += now - this.phaseStartedAt;
+    this.results.push({
+      index: this.results.length + 1,
+      label: phase.label,
+      exerciseId: phase.exerciseId,
+      reps: set.reps,
+      holdTime: Math.round(set.holdMs / 1000),
+      formAccuracy: Math.round(formAccuracy),
+      targetReps: phase.targetReps,
+      targetHoldSec: phase.targetHoldSec,
+      duration: Math.round((now - this.phaseStartedAt) / 1000),
+      completed,
+    });
+  }
+}
+
+const PROGRAM_OPTIONS_KEY = "imperfectabs:programOptions";
+
+export function loadProgramOptions(): ProgramOptions {
+  try {
+    const raw = localStorage.getItem(PROGRAM_OPTIONS_KEY);
+    return raw
+      ? { ...DEFAULT_PROGRAM_OPTIONS, ...JSON.parse(raw) }
+      : DEFAULT_PROGRAM_OPTIONS;
+  } catch {
+    return DEFAULT_PROGRAM_OPTIONS;
+  }
+}
+
+export function saveProgramOptions(options: ProgramOptions): void {
+  try {
+    localStorage.setItem(PROGRAM_OPTIONS_KEY, JSON.stringify(options));
+  } catch (error) {
+    console.warn("Could not save program options:", error);
+  }
+}
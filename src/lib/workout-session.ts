@@ -0,0 +1,99 @@
+import { getExercise, type ExerciseId } from "./exercises";
+import type { HoldSummary } from "./hold-tracking";
+import type { RotationBalance } from "./rotation";
+import type { RepEvent } from "./rep-analytics";
+import type { FrameSourceKind } from "./frame-sources";
+import type { InferenceReport } from "./inference-governor";
+import type { LivenessReport } from "./liveness";
+import type { TempoReport } from "./tempo";
+import type { FatigueAssessment } from "./fatigue";
+import type { ProgramSummary } from "./workout-programs";
+import type { SubmissionData } from "./contractIntegration";
+
+export interface SessionStats {
+  totalReps: number;
+  averageFormAccuracy: number;
+  duration: number;
+  bestStreak: number;
+  exerciseId: ExerciseId;
+  // Seconds of valid hold time (hold exercises only)
+  holdTime: number;
+  hold?: HoldSummary;
+  // Left/right split (rotation exercises only)
+  rotation?: RotationBalance;
+  // One record per completed rep (rep and rotation exercises only)
+  repEvents?: RepEvent[];
+  // Recorded footage the session was analysed from (absent for live camera)
+  source?: FrameSourceKind;
+  // Model settings and frame rate the session was analysed with
+  inference?: InferenceReport;
+  // Seconds counting was paused because the user was out of frame
+  trackingLostTime?: number;
+  // Times counting resumed on someone who only roughly matched the athlete
+  // the session started with
+  athleteSwitches?: number;
+  // Whether a live person produced the session (live camera only)
+  liveness?: LivenessReport;
+  // Phase timing against the target tempo (metronome mode only)
+  tempo?: TempoReport;
+  // Per-rep quality against the opening reps (rep and rotation exercises)
+  fatigue?: FatigueAssessment;
+  // Per-set results when the session followed a program
+  program?: ProgramSummary;
+  // Pauses, excluded from duration (live camera only)
+  pauses?: SessionPause[];
+}
+
+// Seconds from the start of the session
+export interface SessionPause {
+  start: number;
+  end: number;
+}
+
+export const totalPausedTime = (pauses: SessionPause[]): number =>
+  pauses.reduce((sum, pause) => sum + pause.end - pause.start, 0);
+
+// Seconds of aligned hold credited as one rep on-chain
+export const HOLD_SECONDS_PER_REP = 5;
+
+// Form accuracy a rep needs to extend the streak
+export const STREAK_FORM_ACCURACY = 80;
+
+// Map a finished session onto the values accepted by submitWorkoutSession.
+// Hold sessions convert time under tension into reps, use alignment quality
+// as form accuracy and the longest unbroken hold as the streak. A program
+// is submitted as one session: its reps plus hold time converted the same
+// way, its rep- and time-weighted form, its best streak and the time
+// spent in work sets.
+export function toSubmissionData(stats: SessionStats): SubmissionData {
+  const exercise = getExercise(stats.exerciseId);
+  const toReps = (ms: number) => Math.floor(ms / 1000 / HOLD_SECONDS_PER_REP);
+
+  if (stats.program) {
+    const { program } = stats;
+    return {
+      reps: program.totalReps + toReps(program.totalHoldTime * 1000),
+      formAccuracy: program.formAccuracy,
+      streak: program.bestStreak,
+      duration: program.duration,
+    };
+  }
+
+  if (exercise.mode !== "hold" || !stats.hold) {
+    return {
+      reps: stats.totalReps,
+      formAccuracy: stats.averageFormAccuracy,
+      streak: stats.bestStreak,
+      duration: stats.duration,
+    };
+  }
+
+  const reps = toReps(stats.hold.totalHoldTime);
+
+  return {
+    reps,
+    formAccuracy: stats.hold.alignmentQuality,
+    streak: Math.min(reps, toReps(stats.hold.longestSegment)),
+    duration: Math.round(stats.hold.totalHoldTime / 1000),
+  };
+}
@@ -29,8 +29,10 @@ declare module "@mediapipe/pose" {
     constructor(config: PoseConfig);
     setOptions(options: PoseOptions): void;
     onResults(callback: (results: Results) => void): void;
+    initialize(): Promise<void>;
     send(inputs: {
-      image: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+      image:
+        HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
     }): Promise<void>;
     close(): void;
   }
@@ -0,0 +1,171 @@
+// Pose worker: runs MediaPipe inference, rep counting and overlay drawing off
+// the main thread and posts compact state updates back to the page.
+
+import type { Pose, PoseLandmark, Results } from "@mediapipe/pose";
+import {
+  AbsExerciseDetector,
+  POSE_MODEL_OPTIONS,
+  createInitialExerciseState,
+  locatePoseFile,
+  type ExerciseState,
+} from "../lib/pose-detection";
+import { drawPoseFrame } from "../lib/pose-drawing";
+import type { ModelComplexity } from "../lib/inference-governor";
+import {
+  packLandmarks,
+  unpackLandmarks,
+  type PoseWorkerRequest,
+  type PoseWorkerResponse,
+} from "../lib/pose-worker-protocol";
+
+// The subset of the worker global scope used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PoseWorkerRequest>) => void) | null;
+  postMessage(message: PoseWorkerResponse, transfer?: Transferable[]): void;
+  importScripts(...urls: string[]): void;
+  Pose?: new (config: { locateFile: (file: string) => string }) => Pose;
+};
+
+interface PendingFrame {
+  timestamp: number;
+  width: number;
+  height: number;
+  image: ImageBitmap | null;
+}
+
+let detector: AbsExerciseDetector | null = null;
+let state: ExerciseState = createInitialExerciseState();
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let drawFrames = false;
+let pose: Pose | null = null;
+let pending: PendingFrame | null = null;
+// The detector skips frames while the session is paused; the first frame
+// after resuming is far enough apart to reset its filters
+let paused = false;
+
+const post = (message: PoseWorkerResponse, transfer: Transferable[] = []) =>
+  scope.postMessage(message, transfer);
+
+// Load the MediaPipe bundle into the worker. Returns false when the model
+// cannot run here, in which case the page runs inference and sends landmarks.
+async function loadPose(modelComplexity: ModelComplexity): Promise<boolean> {
+  try {
+    scope.importScripts(locatePoseFile("pose.js"));
+    if (!scope.Pose) return false;
+
+    const model = new scope.Pose({ locateFile: locatePoseFile });
+    model.setOptions({ ...POSE_MODEL_OPTIONS, modelComplexity });
+    model.onResults((results: Results) => {
+      if (pending) processFrame(results.poseLandmarks ?? null, pending);
+    });
+    await model.initialize();
+    pose = model;
+    return true;
+  } catch (error) {
+    console.warn("MediaPipe unavailable in worker:", error);
+    pose = null;
+    return false;
+  }
+}
+
+function processFrame(landmarks: PoseLandmark[] | null, frame: PendingFrame) {
+  if (detector && !paused) {
+    detector.setFrameSize(frame.width, frame.height);
+    state = detector.processPose(landmarks, state, frame.timestamp);
+  }
+
+  if (ctx) {
+    if (
+      ctx.canvas.width !== frame.width ||
+      ctx.canvas.height !== frame.height
+    ) {
+      ctx.canvas.width = frame.width;
+      ctx.canvas.height = frame.height;
+    }
+    drawPoseFrame(ctx, landmarks, drawFrames ? frame.image : null);
+  }
+  frame.image?.close();
+
+  const packed = landmarks ? packLandmarks(landmarks) : null;
+  post(
+    {
+      type: "update",
+      timestamp: frame.timestamp,
+      state,
+      landmarks: packed,
+      aspectRatio: frame.width / frame.height,
+    },
+    packed ? [packed.buffer] : [],
+  );
+}
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case "init":
+        ctx = message.canvas.getContext("2d");
+        drawFrames = message.drawFrames;
+        detector = new AbsExerciseDetector(message.exercise);
+        state = createInitialExerciseState();
+        post({
+          type: "ready",
+          inference: await loadPose(message.modelComplexity),
+        });
+        break;
+
+      case "frame":
+        if (!pose) {
+          message.image.close();
+          throw new Error("Frame received before the model loaded");
+        }
+        pending = {
+          timestamp: message.timestamp,
+          width: message.image.width,
+          height: message.image.height,
+          image: message.image,
+        };
+        await pose.send({ image: message.image });
+        pending = null;
+        break;
+
+      case "landmarks":
+        processFrame(
+          message.landmarks ? unpackLandmarks(message.landmarks) : null,
+          message,
+        );
+        break;
+
+      case "set-exercise":
+        // Counting restarts with the new definition
+        detector?.setExercise(message.exercise);
+        state = createInitialExerciseState();
+        break;
+
+      case "set-paused":
+        paused = message.paused;
+        break;
+
+      case "set-model":
+        pose?.setOptions({
+          ...POSE_MODEL_OPTIONS,
+          modelComplexity: message.modelComplexity,
+        });
+        break;
+
+      case "finish":
+        post({
+          type: "summary",
+          repEvents: detector?.getRepEvents() ?? [],
+          hold: detector?.getHoldSummary() ?? null,
+        });
+        break;
+    }
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};